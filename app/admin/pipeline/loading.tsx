@@ -0,0 +1,21 @@
+import DashboardPageLayout from "@/components/dashboard/layout";
+import { Skeleton } from "@/components/ui/skeleton";
+import PipelineIcon from "@/components/icons/pipeline";
+
+export default function Loading() {
+    return (
+        <DashboardPageLayout
+            header={{
+                title: "Data Pipeline",
+                description: "Loading...",
+                icon: PipelineIcon,
+            }}
+        >
+            <div className="space-y-4">
+                {[...Array(4)].map((_, i) => (
+                    <Skeleton key={i} className="h-24 rounded-lg" />
+                ))}
+            </div>
+        </DashboardPageLayout>
+    );
+}
@@ -0,0 +1,8 @@
+import PipelineClient from "./pipeline-client";
+
+// Run history changes with every ingestion; always render fresh
+export const dynamic = 'force-dynamic';
+
+export default async function Page() {
+  return <PipelineClient />;
+}
@@ -0,0 +1,260 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import DashboardPageLayout from "@/components/dashboard/layout";
+import { Skeleton } from "@/components/ui/skeleton";
+import { StatCard } from "@/components/dashboard/stat-card";
+import PipelineIcon from "@/components/icons/pipeline";
+import { useIngestionRuns, useSeedHealth } from "@/hooks/use-pnode-data-query";
+import type { IngestionRun, IngestionStage, SeedHealth } from '@/types/pnode';
+
+const ClockIcon = ({ className }: { className?: string }) => (
+  <svg className={className} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <circle cx="12" cy="12" r="10" />
+    <polyline points="12 6 12 12 16 14" />
+  </svg>
+);
+
+const statusColors: Record<IngestionRun['status'] | IngestionStage['status'], string> = {
+  success: 'bg-green-500/20 text-green-400',
+  fallback: 'bg-yellow-500/20 text-yellow-400',
+  failed: 'bg-red-500/20 text-red-400',
+  running: 'bg-blue-500/20 text-blue-400',
+};
+
+// Stages that read from the Xandeum network rather than our own infrastructure
+const NETWORK_STAGES = ['pods', 'pod-credits'];
+
+/**
+ * Separate upstream outages from failures in our own pipeline:
+ * a failed pod fetch means the seed/network was unreachable, anything later is on us.
+ */
+function diagnoseRun(run: IngestionRun): string | null {
+  const failed = run.stages.filter(s => s.status === 'failed');
+  if (run.status === 'running') return null;
+  if (run.status === 'success' && failed.length === 0) return null;
+
+  if (failed.some(s => s.name === 'pods')) {
+    return run.seedIp
+      ? `Network: pRPC seed ${run.seedIp} did not return pods`
+      : 'Network: no pRPC seed returned pods';
+  }
+  const ours = failed.filter(s => !NETWORK_STAGES.includes(s.name));
+  if (ours.length > 0) {
+    return `Pipeline: ${ours.map(s => s.name).join(', ')} failed`;
+  }
+  if (failed.length > 0) {
+    return `Network: ${failed.map(s => s.name).join(', ')} unavailable`;
+  }
+  return run.errors[0] || 'Run failed';
+}
+
+function seedRateColor(seed: SeedHealth): string {
+  if (seed.attempts === 0) return 'text-muted-foreground';
+  if (seed.successRate >= 90) return 'text-green-400';
+  if (seed.successRate >= 50) return 'text-yellow-400';
+  return 'text-red-400';
+}
+
+function formatMs(ms?: number): string {
+  if (ms === undefined) return '---';
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`;
+}
+
+export default function PipelineClient() {
+  const { data: runs, isLoading } = useIngestionRuns();
+  const { data: seeds } = useSeedHealth();
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [mounted, setMounted] = useState(false);
+
+  useEffect(() => {
+    setMounted(true);
+  }, []);
+
+  if (isLoading && !runs) {
+    return (
+      <DashboardPageLayout header={{ title: "Data Pipeline", description: "Loading...", icon: PipelineIcon }}>
+        <div className="space-y-4">
+          {[...Array(4)].map((_, i) => (
+            <Skeleton key={i} className="h-24 rounded-lg" />
+          ))}
+        </div>
+      </DashboardPageLayout>
+    );
+  }
+
+  const allRuns = runs || [];
+  const finishedRuns = allRuns.filter(r => r.status !== 'running');
+  const lastRun = allRuns[0];
+  const successRate = finishedRuns.length > 0
+    ? (finishedRuns.filter(r => r.status === 'success').length / finishedRuns.length) * 100
+    : 0;
+  const avgDuration = finishedRuns.length > 0
+    ? finishedRuns.reduce((acc, r) => acc + (r.durationMs || 0), 0) / finishedRuns.length
+    : undefined;
+
+  return (
+    <DashboardPageLayout
+      header={{
+        title: "Data Pipeline",
+        description: "Ingestion runs, stage timing and failures",
+        icon: PipelineIcon,
+      }}
+    >
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-6">
+        <StatCard
+          label="LAST RUN"
+          value={lastRun ? lastRun.status.toUpperCase() : 'NONE'}
+          description={mounted && lastRun ? new Date(lastRun.startedAt).toLocaleString() : '---'}
+          icon={PipelineIcon}
+          intent={lastRun?.status === 'success' ? 'positive' : lastRun?.status === 'failed' ? 'negative' : 'neutral'}
+        />
+        <StatCard
+          label="SUCCESS RATE"
+          value={`${successRate.toFixed(0)}%`}
+          description={`LAST ${finishedRuns.length} RUNS`}
+          icon={PipelineIcon}
+          intent={successRate >= 90 ? 'positive' : successRate >= 50 ? 'neutral' : 'negative'}
+        />
+        <StatCard
+          label="AVG DURATION"
+          value={formatMs(avgDuration === undefined ? undefined : Math.round(avgDuration))}
+          description="PER RUN"
+          icon={ClockIcon}
+          intent="neutral"
+        />
+        <StatCard
+          label="NODES INGESTED"
+          value={lastRun?.nodeCount ?? 0}
+          description={lastRun?.seedIp ? `SEED ${lastRun.seedIp}` : 'SEED UNKNOWN'}
+          icon={PipelineIcon}
+          intent="neutral"
+        />
+      </div>
+
+      {seeds && seeds.length > 0 && (
+        <div className="rounded-lg border-2 border-border p-4 mb-6 overflow-x-auto">
+          <h3 className="font-display text-sm uppercase mb-3">pRPC Seeds</h3>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-muted-foreground uppercase text-left">
+                <th className="py-1 pr-3">Seed</th>
+                <th className="py-1 pr-3">Source</th>
+                <th className="py-1 pr-3 text-right">Calls</th>
+                <th className="py-1 pr-3 text-right">Success</th>
+                <th className="py-1 pr-3 text-right">Avg Latency</th>
+                <th className="py-1">Last Error</th>
+              </tr>
+            </thead>
+            <tbody>
+              {seeds.map(seed => (
+                <tr key={seed.ip} className="border-t border-border/40">
+                  <td className="py-1.5 pr-3 font-mono">{seed.ip}</td>
+                  <td className="py-1.5 pr-3 uppercase text-muted-foreground">{seed.source}</td>
+                  <td className="py-1.5 pr-3 text-right font-mono">{seed.attempts}</td>
+                  <td className={`py-1.5 pr-3 text-right font-mono ${seedRateColor(seed)}`}>
+                    {seed.attempts > 0 ? `${seed.successRate.toFixed(0)}%` : '—'}
+                  </td>
+                  <td className="py-1.5 pr-3 text-right font-mono">
+                    {seed.avgLatencyMs !== null ? formatMs(seed.avgLatencyMs) : '—'}
+                  </td>
+                  <td className="py-1.5 text-red-400">{seed.consecutiveFailures > 0 ? seed.lastError : ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {allRuns.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            No ingestion runs recorded yet
+          </div>
+        ) : (
+          allRuns.map(run => {
+            const diagnosis = diagnoseRun(run);
+            const isExpanded = expanded === run.id;
+
+            return (
+              <div key={run.id} className="rounded-lg border-2 border-border p-4">
+                <button
+                  onClick={() => setExpanded(isExpanded ? null : run.id)}
+                  className="w-full flex items-start justify-between text-left"
+                >
+                  <div className="flex-1">
+                    <div className="flex items-center gap-3">
+                      <span className={`text-xs px-2 py-0.5 rounded ${statusColors[run.status]}`}>
+                        {run.status.toUpperCase()}
+                      </span>
+                      <span className="font-display">{mounted ? new Date(run.startedAt).toLocaleString() : '---'}</span>
+                      <span className="text-xs text-muted-foreground uppercase">{run.trigger}</span>
+                    </div>
+                    <div className="flex items-center gap-4 mt-2 text-xs text-muted-foreground">
+                      <span>{formatMs(run.durationMs)}</span>
+                      <span>{run.nodeCount ?? 0} nodes</span>
+                      <span className="font-mono">seed {run.seedIp || 'unknown'}</span>
+                    </div>
+                    {diagnosis && (
+                      <p className="text-sm text-red-400 mt-2">{diagnosis}</p>
+                    )}
+                  </div>
+                  <span className="text-xs text-muted-foreground">{isExpanded ? 'Hide' : 'Stages'}</span>
+                </button>
+
+                {isExpanded && (
+                  <div className="mt-4 overflow-x-auto">
+                    <table className="w-full text-xs">
+                      <thead>
+                        <tr className="text-muted-foreground uppercase text-left">
+                          <th className="py-1 pr-3">Stage</th>
+                          <th className="py-1 pr-3">Status</th>
+                          <th className="py-1 pr-3 text-right">Time</th>
+                          <th className="py-1 pr-3 text-right">In</th>
+                          <th className="py-1 pr-3 text-right">Out</th>
+                          <th className="py-1 pr-3 text-right">Dropped</th>
+                          <th className="py-1">Detail</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {run.stages.map((stage, i) => {
+                          const dropped = stage.inputCount !== undefined && stage.outputCount !== undefined
+                            ? stage.inputCount - stage.outputCount
+                            : undefined;
+                          return (
+                            <tr key={`${stage.name}-${i}`} className="border-t border-border/40">
+                              <td className="py-1.5 pr-3 font-mono">{stage.name}</td>
+                              <td className="py-1.5 pr-3">
+                                <span className={`px-1.5 py-0.5 rounded ${statusColors[stage.status]}`}>
+                                  {stage.status}
+                                </span>
+                              </td>
+                              <td className="py-1.5 pr-3 text-right font-mono">{formatMs(stage.durationMs)}</td>
+                              <td className="py-1.5 pr-3 text-right font-mono">{stage.inputCount ?? '—'}</td>
+                              <td className="py-1.5 pr-3 text-right font-mono">{stage.outputCount ?? '—'}</td>
+                              <td className={`py-1.5 pr-3 text-right font-mono ${dropped ? 'text-yellow-400' : ''}`}>
+                                {dropped ?? '—'}
+                              </td>
+                              <td className="py-1.5 text-muted-foreground">
+                                {stage.error ? <span className="text-red-400">{stage.error}</span> : stage.detail}
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                    {run.errors.length > 0 && (
+                      <div className="mt-3 text-xs text-red-400 space-y-1">
+                        {run.errors.map((error, i) => <p key={i}>{error}</p>)}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </DashboardPageLayout>
+  );
+}
@@ -8,10 +8,12 @@ import {
   getAlertConfigs,
   saveAlertConfigs,
   getAlertHistory,
-  createAlertConfig,
   deleteAlertConfig,
   acknowledgeAlert,
   clearAlertHistory,
+  formatAlertDuration,
+  DEFAULT_ALERT_COOLDOWN_MINUTES,
+  DEFAULT_CONSECUTIVE_BREACHES,
 } from '@/lib/alerts';
 import type { AlertConfig, Alert } from '@/types/pnode';
 
@@ -29,7 +31,7 @@ export default function AlertsClient() {
   const [activeTab, setActiveTab] = useState<'configs' | 'history'>('configs');
 
   // Webhook testing state
-  const [webhookType, setWebhookType] = useState<'discord' | 'slack' | 'telegram'>('discord');
+  const [webhookType, setWebhookType] = useState<'discord' | 'slack' | 'telegram' | 'webhook'>('discord');
   const [webhookUrl, setWebhookUrl] = useState('');
   const [testingWebhook, setTestingWebhook] = useState(false);
   const [webhookResult, setWebhookResult] = useState<{ success: boolean; message: string } | null>(null);
@@ -37,31 +39,48 @@ export default function AlertsClient() {
   const [mounted, setMounted] = useState(false);
 
   useEffect(() => {
-    setConfigs(getAlertConfigs());
-    setHistory(getAlertHistory());
-    setLoading(false);
-    setMounted(true);
+    // Rules and history live in Supabase and are evaluated server-side on every ingestion
+    Promise.all([getAlertConfigs(), getAlertHistory()])
+      .then(([loadedConfigs, loadedHistory]) => {
+        setConfigs(loadedConfigs);
+        setHistory(loadedHistory);
+      })
+      .finally(() => {
+        setLoading(false);
+        setMounted(true);
+      });
   }, []);
 
-  const handleToggleConfig = (id: string, enabled: boolean) => {
-    const updated = configs.map(c => c.id === id ? { ...c, enabled } : c);
-    setConfigs(updated);
-    saveAlertConfigs(updated);
+  const handleToggleConfig = async (id: string, enabled: boolean) => {
+    const config = configs.find(c => c.id === id);
+    if (!config) return;
+    setConfigs(configs.map(c => c.id === id ? { ...c, enabled } : c));
+    await saveAlertConfigs([{ ...config, enabled }]);
+  };
+
+  // Edits stay local while typing and are saved when the field loses focus
+  const handleUpdateLifecycle = (id: string, updates: Pick<Partial<AlertConfig>, 'cooldownMinutes' | 'consecutiveBreaches'>) => {
+    setConfigs(configs.map(c => c.id === id ? { ...c, ...updates } : c));
   };
 
-  const handleDeleteConfig = (id: string) => {
-    deleteAlertConfig(id);
+  const handleSaveLifecycle = async (id: string) => {
+    const config = configs.find(c => c.id === id);
+    if (config) await saveAlertConfigs([config]);
+  };
+
+  const handleDeleteConfig = async (id: string) => {
     setConfigs(configs.filter(c => c.id !== id));
+    await deleteAlertConfig(id);
   };
 
-  const handleAcknowledge = (id: string) => {
-    acknowledgeAlert(id);
+  const handleAcknowledge = async (id: string) => {
     setHistory(history.map(a => a.id === id ? { ...a, acknowledged: true } : a));
+    await acknowledgeAlert(id);
   };
 
-  const handleClearHistory = () => {
-    clearAlertHistory();
+  const handleClearHistory = async () => {
     setHistory([]);
+    await clearAlertHistory();
   };
 
   const handleTestWebhook = async () => {
@@ -90,12 +109,60 @@ export default function AlertsClient() {
     }
   };
 
+  const openAlerts = history.filter(a => a.status === 'firing');
+  const pastAlerts = history.filter(a => a.status === 'resolved');
+
   const severityColors = {
     info: 'bg-blue-500/20 text-blue-400 border-blue-500/40',
     warning: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/40',
     critical: 'bg-red-500/20 text-red-400 border-red-500/40',
   };
 
+  const renderAlert = (alert: Alert) => (
+    <div
+      key={alert.id}
+      className={`rounded-lg border-2 p-4 ${alert.acknowledged || alert.status === 'resolved'
+        ? 'border-border opacity-60'
+        : `border-l-4 ${severityColors[alert.severity].split(' ')[0]} border-border`
+        }`}
+    >
+      <div className="flex items-start justify-between">
+        <div className="flex-1">
+          <div className="flex items-center gap-3">
+            <h3 className="font-display">{alert.title}</h3>
+            <span className={`text-xs px-2 py-0.5 rounded border ${severityColors[alert.severity]}`}>
+              {alert.severity.toUpperCase()}
+            </span>
+            <span className={`text-xs px-2 py-0.5 rounded ${alert.status === 'firing' ? 'bg-red-500/20 text-red-400' : 'bg-green-500/20 text-green-400'}`}>
+              {alert.status.toUpperCase()}
+            </span>
+          </div>
+          <p className="text-sm text-muted-foreground mt-1">{alert.message}</p>
+          <div className="flex items-center gap-4 mt-2 text-xs text-muted-foreground">
+            <span>{mounted ? new Date(alert.timestamp).toLocaleString() : '---'}</span>
+            {alert.status === 'resolved' && alert.durationMs !== undefined && (
+              <span>Lasted {formatAlertDuration(alert.durationMs)}</span>
+            )}
+            {alert.occurrences > 1 && (
+              <span>{alert.occurrences} checks</span>
+            )}
+            {alert.nodePubkey && (
+              <span className="font-mono">{alert.nodePubkey.slice(0, 8)}...</span>
+            )}
+          </div>
+        </div>
+        {!alert.acknowledged && alert.status === 'firing' && (
+          <button
+            onClick={() => handleAcknowledge(alert.id)}
+            className="text-sm text-primary hover:text-primary/80"
+          >
+            Acknowledge
+          </button>
+        )}
+      </div>
+    </div>
+  );
+
   if (loading) {
     return (
       <DashboardPageLayout
@@ -139,7 +206,7 @@ export default function AlertsClient() {
             : 'bg-accent/20 hover:bg-accent/40'
             }`}
         >
-          History ({history.filter(a => !a.acknowledged).length})
+          History ({openAlerts.filter(a => !a.acknowledged).length})
         </button>
       </div>
 
@@ -169,6 +236,30 @@ export default function AlertsClient() {
                     <span className="text-xs text-muted-foreground">
                       Channels: {config.channels.filter(c => c.enabled).map(c => c.type).join(', ') || 'None'}
                     </span>
+                    <label className="flex items-center gap-1 text-xs text-muted-foreground">
+                      For
+                      <input
+                        type="number"
+                        min={1}
+                        value={config.consecutiveBreaches ?? DEFAULT_CONSECUTIVE_BREACHES}
+                        onChange={(e) => handleUpdateLifecycle(config.id, { consecutiveBreaches: Math.max(1, Number(e.target.value) || 1) })}
+                        onBlur={() => handleSaveLifecycle(config.id)}
+                        className="w-12 px-1 py-0.5 rounded bg-accent/20 border border-border font-mono"
+                      />
+                      ingestions
+                    </label>
+                    <label className="flex items-center gap-1 text-xs text-muted-foreground">
+                      Re-notify every
+                      <input
+                        type="number"
+                        min={0}
+                        value={config.cooldownMinutes ?? DEFAULT_ALERT_COOLDOWN_MINUTES}
+                        onChange={(e) => handleUpdateLifecycle(config.id, { cooldownMinutes: Math.max(0, Number(e.target.value) || 0) })}
+                        onBlur={() => handleSaveLifecycle(config.id)}
+                        className="w-14 px-1 py-0.5 rounded bg-accent/20 border border-border font-mono"
+                      />
+                      min
+                    </label>
                     {config.lastTriggered && (
                       <span className="text-xs text-muted-foreground">
                         Last triggered: {mounted ? new Date(config.lastTriggered).toLocaleDateString() : '---'}
@@ -203,12 +294,13 @@ export default function AlertsClient() {
               <div className="flex gap-2">
                 <select
                   value={webhookType}
-                  onChange={(e) => setWebhookType(e.target.value as 'discord' | 'slack' | 'telegram')}
+                  onChange={(e) => setWebhookType(e.target.value as 'discord' | 'slack' | 'telegram' | 'webhook')}
                   className="px-3 py-2 rounded-lg bg-accent/20 border border-border text-sm"
                 >
                   <option value="discord">Discord</option>
                   <option value="slack">Slack</option>
                   <option value="telegram">Telegram</option>
+                  <option value="webhook">Generic JSON</option>
                 </select>
                 <input
                   type="url"
@@ -272,41 +364,25 @@ export default function AlertsClient() {
               </p>
             </div>
           ) : (
-            history.map((alert) => (
-              <div
-                key={alert.id}
-                className={`rounded-lg border-2 p-4 ${alert.acknowledged
-                  ? 'border-border opacity-60'
-                  : `border-l-4 ${severityColors[alert.severity].split(' ')[0]} border-border`
-                  }`}
-              >
-                <div className="flex items-start justify-between">
-                  <div className="flex-1">
-                    <div className="flex items-center gap-3">
-                      <h3 className="font-display">{alert.title}</h3>
-                      <span className={`text-xs px-2 py-0.5 rounded border ${severityColors[alert.severity]}`}>
-                        {alert.severity.toUpperCase()}
-                      </span>
-                    </div>
-                    <p className="text-sm text-muted-foreground mt-1">{alert.message}</p>
-                    <div className="flex items-center gap-4 mt-2 text-xs text-muted-foreground">
-                      <span>{mounted ? new Date(alert.timestamp).toLocaleString() : '---'}</span>
-                      {alert.nodePubkey && (
-                        <span className="font-mono">{alert.nodePubkey.slice(0, 8)}...</span>
-                      )}
-                    </div>
-                  </div>
-                  {!alert.acknowledged && (
-                    <button
-                      onClick={() => handleAcknowledge(alert.id)}
-                      className="text-sm text-primary hover:text-primary/80"
-                    >
-                      Acknowledge
-                    </button>
-                  )}
-                </div>
-              </div>
-            ))
+            <>
+              <h3 className="text-sm font-display text-muted-foreground uppercase">
+                Open Incidents ({openAlerts.length})
+              </h3>
+              {openAlerts.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No open incidents</p>
+              ) : (
+                openAlerts.map(renderAlert)
+              )}
+
+              {pastAlerts.length > 0 && (
+                <>
+                  <h3 className="text-sm font-display text-muted-foreground uppercase pt-4">
+                    Past Incidents ({pastAlerts.length})
+                  </h3>
+                  {pastAlerts.map(renderAlert)}
+                </>
+              )}
+            </>
           )}
         </div>
       )}
@@ -3,13 +3,14 @@
 import { useState, useEffect } from 'react';
 import DashboardPageLayout from "@/components/dashboard/layout";
 import ChartIcon from "@/components/icons/chart";
-import { usePNodes, useNetworkStats, usePerformanceHistory, useTrendData } from "@/hooks/use-pnode-data-query";
-import type { PerformanceHistory } from "@/types/pnode";
+import { usePNodes, useNetworkStats, usePerformanceHistory, useTrendData, useGrowthForecasts } from "@/hooks/use-pnode-data-query";
+import type { PerformanceHistory, MetricForecast, ForecastMetric, ForecastPoint } from "@/types/pnode";
 import StatBlock from "@/components/dashboard/stat-block";
 import { NetworkChart } from "@/components/dashboard/network-chart";
 import { ExportButton } from "@/components/dashboard/export-button";
 import { InfoTooltip } from "@/components/dashboard/info-tooltip";
 import { exportPerformanceHistory, type ExportFormat } from "@/lib/export-utils";
+import { DateRangePicker, useURLDateRange, formatRangeTick } from "@/components/dashboard/date-range-picker";
 import { Skeleton } from "@/components/ui/skeleton";
 import {
   ResponsiveContainer,
@@ -32,6 +33,74 @@ function LoadingState() {
   );
 }
 
+const PROJECTION_HORIZONS = [
+  { days: 30, label: '30 Day' },
+  { days: 90, label: '90 Day' },
+  { days: 182, label: '6 Month' },
+  { days: 365, label: '1 Year' },
+];
+
+const FORECAST_LABELS: Record<ForecastMetric, { label: string; unit: string }> = {
+  nodes: { label: 'Nodes', unit: '' },
+  storage_committed: { label: 'Storage Committed', unit: 'TB' },
+  storage_used: { label: 'Storage Used', unit: 'TB' },
+};
+
+// Best model's forecast point closest to `days` from now
+function forecastAt(forecast: MetricForecast | undefined, days: number): ForecastPoint | null {
+  const model = forecast?.models.find(m => m.model === forecast.bestModel);
+  if (!model || model.points.length === 0) return null;
+
+  const target = Date.now() + days * 24 * 60 * 60 * 1000;
+  return model.points.reduce((closest, p) =>
+    Math.abs(new Date(p.timestamp).getTime() - target) < Math.abs(new Date(closest.timestamp).getTime() - target) ? p : closest
+  );
+}
+
+function formatForecastValue(value: number, metric: ForecastMetric): string {
+  return metric === 'nodes' ? Math.round(value).toLocaleString() : `${value.toFixed(1)}${FORECAST_LABELS[metric].unit}`;
+}
+
+function ForecastRow({ forecast }: { forecast: MetricForecast }) {
+  const { label } = FORECAST_LABELS[forecast.metric];
+  const best = forecast.models.find(m => m.model === forecast.bestModel);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-muted-foreground uppercase tracking-wider">{label}</span>
+        <span className="text-muted-foreground">
+          {best
+            ? `${best.model} • RMSE ${formatForecastValue(best.rmse, forecast.metric)}${best.mape !== null ? ` • MAPE ${best.mape.toFixed(1)}%` : ''}`
+            : 'Not enough history to fit a model'}
+        </span>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        <div className="p-3 bg-accent/20 rounded-lg text-center">
+          <div className="text-2xl font-display text-primary">
+            {forecast.current !== null ? formatForecastValue(forecast.current, forecast.metric) : '—'}
+          </div>
+          <div className="text-xs text-muted-foreground">Current</div>
+        </div>
+        {PROJECTION_HORIZONS.map(({ days, label: horizonLabel }) => {
+          const point = forecastAt(forecast, days);
+          return (
+            <div key={days} className="p-3 bg-accent/20 rounded-lg text-center">
+              <div className="text-2xl font-display">{point ? formatForecastValue(point.value, forecast.metric) : '—'}</div>
+              {point && (
+                <div className="text-[10px] text-muted-foreground">
+                  {formatForecastValue(point.lower, forecast.metric)} – {formatForecastValue(point.upper, forecast.metric)}
+                </div>
+              )}
+              <div className="text-xs text-muted-foreground">{horizonLabel}</div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
 export default function AnalyticsPage({
   initialNodes,
   initialStats,
@@ -41,10 +110,11 @@ export default function AnalyticsPage({
   initialStats: any | null;
   initialHistory: any[] | null;
 }) {
-  const [period, setPeriod] = useState<'24h' | '7d' | '30d'>('24h');
+  const [range, setRange] = useURLDateRange('24h');
   const { data: nodes, isLoading: nodesLoading, dataUpdatedAt } = usePNodes(initialNodes);
   const { data: stats, isLoading: statsLoading } = useNetworkStats(initialStats);
-  const { data: history, isLoading: historyLoading } = usePerformanceHistory();
+  // Server-rendered history only covers the default 24h range
+  const { data: history, isLoading: historyLoading } = usePerformanceHistory(range, range.preset === '24h' ? initialHistory : undefined);
 
   const [mounted, setMounted] = useState(false);
   useEffect(() => {
@@ -56,6 +126,7 @@ export default function AnalyticsPage({
   const { data: trend24h } = useTrendData('nodes', '24h');
   const { data: trend7d } = useTrendData('storage', '7d');
   const { data: trend30d } = useTrendData('nodes', '30d');
+  const { data: forecasts } = useGrowthForecasts('1y');
 
   const isLoading = nodesLoading || statsLoading || historyLoading;
 
@@ -67,8 +138,12 @@ export default function AnalyticsPage({
     );
   }
 
-  const storageChartData = history?.map((h: PerformanceHistory, i: number) => ({
-    time: new Date(h.timestamp).getHours() + ':00',
+  const rangeLabel = range.preset === 'custom'
+    ? `${range.from.toLocaleDateString()} - ${range.to.toLocaleDateString()}`
+    : range.preset;
+
+  const storageChartData = history?.map((h: PerformanceHistory) => ({
+    time: mounted ? formatRangeTick(h.timestamp, range) : '',
     storage: h.storageUsedTB,
     gossip: h.gossipMessages / 1000,
   })) || [];
@@ -76,15 +151,12 @@ export default function AnalyticsPage({
   // Use real history for node growth, fallback to current if empty
   const nodeGrowthData = history && history.length > 0
     ? history.map((h: PerformanceHistory) => ({
-      period: new Date(h.timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric' }),
+      period: mounted ? formatRangeTick(h.timestamp, range) : '',
       nodes: h.onlineNodes
     }))
     : [{ period: 'Today', nodes: nodes?.length || 0 }];
 
-  // Calculate standard deviation of growth for projection (simple linear extrapolation for now)
-  const currentNodes = nodes?.length || 0;
-  const growthRate30d = trend30d?.changePercent ? (trend30d.changePercent / 100) : 0;
-  const projectedNodes = Math.floor(currentNodes * (1 + growthRate30d)); // Simple projection
+  const nodeForecast30d = forecastAt(forecasts?.find(f => f.metric === 'nodes'), 30);
 
   return (
     <DashboardPageLayout
@@ -116,27 +188,19 @@ export default function AnalyticsPage({
         />
         <StatBlock
           label="Projection"
-          value={projectedNodes}
-          description="nodes by 30d"
+          value={nodeForecast30d ? Math.round(nodeForecast30d.value) : '—'}
+          description={nodeForecast30d
+            ? `nodes by 30d (${Math.round(nodeForecast30d.lower)}–${Math.round(nodeForecast30d.upper)})`
+            : 'nodes by 30d'}
         />
       </div>
 
       <div className="flex items-center justify-between gap-4 mb-2">
-        <div className="flex gap-2">
-          {(['24h', '7d', '30d'] as const).map(p => (
-            <button
-              key={p}
-              onClick={() => setPeriod(p)}
-              className={`px-3 py-1 text-xs rounded ${period === p ? 'bg-primary text-primary-foreground' : 'bg-accent hover:bg-accent/80'}`}
-            >
-              {p}
-            </button>
-          ))}
-        </div>
+        <DateRangePicker value={range} onChange={setRange} />
         <ExportButton
           onExport={(format: ExportFormat) => {
             if (history) {
-              exportPerformanceHistory(history, format, `xandeum-analytics-${period}`);
+              exportPerformanceHistory(history, format, `xandeum-analytics-${range.preset}`);
             }
           }}
           disabled={!history || history.length === 0}
@@ -147,12 +211,12 @@ export default function AnalyticsPage({
       <div className="rounded-lg border-2 border-border overflow-hidden">
         <div className="px-4 py-2 border-b border-border bg-accent/20 flex items-center justify-between">
           <span className="text-xs text-muted-foreground uppercase tracking-wider flex items-center gap-2">
-            Network Metrics ({period})
+            Network Metrics ({rangeLabel})
             <InfoTooltip content="Historical network performance data showing response times, node counts, storage usage, and gossip activity over the selected time period." />
           </span>
         </div>
         <div className="p-4">
-          {history && <NetworkChart data={history} />}
+          {history && <NetworkChart data={history} range={range} />}
         </div>
       </div>
 
@@ -161,7 +225,7 @@ export default function AnalyticsPage({
         <div className="rounded-lg border-2 border-border overflow-hidden">
           <div className="px-4 py-2 border-b border-border bg-accent/20">
             <span className="text-xs text-muted-foreground uppercase tracking-wider">
-              Storage Growth Trend
+              Storage Growth Trend ({rangeLabel})
             </span>
           </div>
           <div className="p-4 h-[250px]" style={{ height: 250 }}>
@@ -202,7 +266,7 @@ export default function AnalyticsPage({
         <div className="rounded-lg border-2 border-border overflow-hidden">
           <div className="px-4 py-2 border-b border-border bg-accent/20">
             <span className="text-xs text-muted-foreground uppercase tracking-wider">
-              Node Growth History
+              Node Growth History ({rangeLabel})
             </span>
           </div>
           <div className="p-4 h-[250px]" style={{ height: 250 }}>
@@ -245,30 +309,11 @@ export default function AnalyticsPage({
         <div className="text-xs text-muted-foreground uppercase tracking-wider mb-4">
           Network Growth Projection
         </div>
-        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
-          <div className="p-3 bg-accent/20 rounded-lg text-center">
-            <div className="text-2xl font-display text-primary">{nodes?.length || 0}</div>
-            <div className="text-xs text-muted-foreground">Current</div>
-          </div>
-          <div className="p-3 bg-accent/20 rounded-lg text-center">
-            <div className="text-2xl font-display">{Math.floor((nodes?.length || 0) * 1.25)}</div>
-            <div className="text-xs text-muted-foreground">30 Day</div>
-          </div>
-          <div className="p-3 bg-accent/20 rounded-lg text-center">
-            <div className="text-2xl font-display">{Math.floor((nodes?.length || 0) * 1.8)}</div>
-            <div className="text-xs text-muted-foreground">90 Day</div>
-          </div>
-          <div className="p-3 bg-accent/20 rounded-lg text-center">
-            <div className="text-2xl font-display">{Math.floor((nodes?.length || 0) * 3)}</div>
-            <div className="text-xs text-muted-foreground">6 Month</div>
-          </div>
-          <div className="p-3 bg-accent/20 rounded-lg text-center">
-            <div className="text-2xl font-display">{Math.floor((nodes?.length || 0) * 5)}</div>
-            <div className="text-xs text-muted-foreground">1 Year</div>
-          </div>
+        <div className="space-y-6">
+          {forecasts?.map(forecast => <ForecastRow key={forecast.metric} forecast={forecast} />)}
         </div>
         <div className="text-xs text-muted-foreground text-center mt-4">
-          Projections based on current growth trends
+          Best-fitting of linear, exponential and Holt-Winters models on network history • ranges are 95% intervals
         </div>
       </div>
 
@@ -0,0 +1,24 @@
+import DashboardPageLayout from "@/components/dashboard/layout";
+import { Skeleton } from "@/components/ui/skeleton";
+import ChartIcon from "@/components/icons/chart";
+
+export default function Loading() {
+    return (
+        <DashboardPageLayout
+            header={{
+                title: "Analytics",
+                description: "Loading...",
+                icon: ChartIcon,
+            }}
+        >
+            <div className="space-y-6">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    {[...Array(4)].map((_, i) => (
+                        <Skeleton key={i} className="h-28 rounded-lg" />
+                    ))}
+                </div>
+                <Skeleton className="h-[300px] rounded-lg" />
+            </div>
+        </DashboardPageLayout>
+    );
+}
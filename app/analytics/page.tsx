@@ -1,7 +1,8 @@
-
+import { Suspense } from "react";
 import { getClusterNodes } from "@/server/api/pnodes";
 import { getNetworkStats, getPerformanceHistory } from "@/server/api/network";
 import AnalyticsPage from "./analytics-client";
+import Loading from "./loading";
 
 // ISR: Revalidate every 60 seconds
 export const revalidate = 60;
@@ -14,11 +15,14 @@ export default async function Page() {
         getPerformanceHistory('24h')
     ]);
 
+    // The selected date range lives in the URL (useSearchParams), so the client renders under Suspense
     return (
-        <AnalyticsPage
-            initialNodes={nodes}
-            initialStats={stats}
-            initialHistory={history}
-        />
+        <Suspense fallback={<Loading />}>
+            <AnalyticsPage
+                initialNodes={nodes}
+                initialStats={stats}
+                initialHistory={history}
+            />
+        </Suspense>
     );
 }
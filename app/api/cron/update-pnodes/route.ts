@@ -1,25 +1,34 @@
-
 import { NextResponse } from 'next/server';
-import { getClusterNodes } from '@/server/api/pnodes';
+import { runIngestion } from '@/server/api/pnodes';
+import { runRetention } from '@/server/api/retention';
+import { RETENTION_ENABLED } from '@/server/api/config';
 
 export const dynamic = 'force-dynamic';
 
 export async function GET() {
     try {
         console.log('[CRON] Starting pNode cache update...');
-        // getClusterNodes has built-in caching logic.
-        // However, we want to FORCE an update if this is a cron job?
-        // Or just relying on its staleness check is enough?
-        // If we call getClusterNodes(), it checks if stale.
-        // If we want to forcably update even if not stale (unlikely for 5 min cron),
-        // we might need a flag. But for now, relying on the 5min check is fine.
-        // Actually, if we want to ensure it updates, we might want to bypass the check?
-        // But getClusterNodes wraps the fetch.
-        // Let's just call it. If it's stale (likely if cron runs every 5m), it updates.
+        // Always refresh on the schedule; the ingestion lock keeps this from
+        // overlapping with a refresh started by a page request.
+        const { skipped, run } = await runIngestion('cron');
+
+        // The run holding the lock is still writing rows; retention waits for the next tick
+        if (skipped) {
+            return NextResponse.json({ success: true, skipped: true, timestamp: new Date().toISOString() });
+        }
 
-        const nodes = await getClusterNodes();
+        // Rollups are incremental, so running them on every tick only touches new buckets
+        const retention = RETENTION_ENABLED ? await runRetention() : undefined;
 
-        return NextResponse.json({ success: true, count: nodes.length, timestamp: new Date().toISOString() });
+        return NextResponse.json({
+            success: run?.status === 'success',
+            runId: run?.id,
+            count: run?.nodeCount ?? 0,
+            durationMs: run?.durationMs,
+            errors: run?.errors,
+            retention,
+            timestamp: new Date().toISOString(),
+        }, { status: run?.status === 'success' ? 200 : 500 });
     } catch (error) {
         console.error('[CRON] Update failed:', error);
         return NextResponse.json({ success: false, error: 'Update failed' }, { status: 500 });
@@ -1,9 +1,9 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { getHealthScoreBreakdown } from '@/server/api/decentralization';
 
-export async function GET() {
+export async function GET(request: NextRequest) {
     try {
-        const data = await getHealthScoreBreakdown();
+        const data = await getHealthScoreBreakdown(request.nextUrl.searchParams.get('profile') || undefined);
         return NextResponse.json(data);
     } catch (error) {
         console.error('Health score error:', error);
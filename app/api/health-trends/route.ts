@@ -1,28 +1,15 @@
 import { NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabase';
+import { getNetworkStatsBuckets, resolveTimeRange } from '@/server/api/timeseries';
 
 export async function GET(request: Request) {
     try {
         const { searchParams } = new URL(request.url);
-        const period = searchParams.get('period') || '24h';
+        const range = resolveTimeRange(searchParams.get('period'), searchParams.get('from'), searchParams.get('to'));
 
-        // Determine how many records to fetch based on period
-        let limit = 24;
-        if (period === '7d') limit = 168; // 24 * 7
-        if (period === '30d') limit = 720; // 24 * 30
+        // Network health per time bucket over the whole range
+        const buckets = (await getNetworkStatsBuckets(range)).filter(b => b.metrics.network_health);
 
-        // Fetch historical network stats
-        const { data, error } = await supabase
-            .from('network_stats')
-            .select('network_health, updated_at')
-            .order('updated_at', { ascending: false })
-            .limit(limit);
-
-        if (error) {
-            throw error;
-        }
-
-        if (!data || data.length === 0) {
+        if (buckets.length === 0) {
             return NextResponse.json({
                 current: 0,
                 previous: 0,
@@ -34,20 +21,23 @@ export async function GET(request: Request) {
             });
         }
 
-        // Process the data
-        const healthScores = data.map(d => d.network_health || 0);
-        const current = healthScores[0];
-        const previous = healthScores.length > 1 ? healthScores[1] : current;
+        // Process the data (buckets are oldest first)
+        const healthScores = buckets.map(b => b.metrics.network_health!.avg);
+        const current = healthScores[healthScores.length - 1];
+        const previous = healthScores.length > 1 ? healthScores[healthScores.length - 2] : current;
         const trend = current - previous;
         const trendPercent = previous > 0 ? ((current - previous) / previous) * 100 : 0;
 
-        const allTimeHigh = Math.max(...healthScores);
-        const allTimeLow = Math.min(...healthScores.filter(h => h > 0)); // Exclude zeros
+        const allTimeHigh = Math.max(...buckets.map(b => b.metrics.network_health!.max));
+        const allTimeLow = Math.min(...buckets.map(b => b.metrics.network_health!.min).filter(h => h > 0)); // Exclude zeros
 
         // Format history for charting
-        const history = data.reverse().map(d => ({
-            timestamp: d.updated_at,
-            value: d.network_health || 0
+        const history = buckets.map(b => ({
+            timestamp: b.timestamp,
+            value: b.metrics.network_health!.avg,
+            min: b.metrics.network_health!.min,
+            max: b.metrics.network_health!.max,
+            p95: b.metrics.network_health!.p95,
         }));
 
         return NextResponse.json({
@@ -56,7 +46,7 @@ export async function GET(request: Request) {
             trend,
             trendPercent,
             allTimeHigh: allTimeHigh || current,
-            allTimeLow: allTimeLow || current,
+            allTimeLow: isFinite(allTimeLow) ? allTimeLow : current,
             history
         });
     } catch (error) {
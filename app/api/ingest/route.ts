@@ -1,13 +1,21 @@
-
 import { NextResponse } from 'next/server';
-import { ingestNodeData } from '@/server/api/pnodes';
+import { runIngestion } from '@/server/api/pnodes';
 
 export const dynamic = 'force-dynamic';
 
 export async function GET() {
     try {
-        await ingestNodeData();
-        return NextResponse.json({ success: true, timestamp: new Date().toISOString() });
+        const { skipped, run } = await runIngestion('manual');
+        if (skipped) {
+            return NextResponse.json(
+                { success: false, error: 'Ingestion already in progress' },
+                { status: 409 }
+            );
+        }
+        if (run?.status !== 'success') {
+            return NextResponse.json({ success: false, runId: run?.id, errors: run?.errors }, { status: 500 });
+        }
+        return NextResponse.json({ success: true, runId: run.id, count: run.nodeCount, timestamp: new Date().toISOString() });
     } catch (error) {
         return NextResponse.json({ success: false, error: String(error) }, { status: 500 });
     }
@@ -1,8 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { ForecastTimeframe } from '@/types/pnode';
 import * as decentralization from '@/server/api/decentralization';
 import * as network from '@/server/api/network';
 import * as economics from '@/server/api/economics';
+import * as forecasting from '@/server/api/forecasting';
 import * as pnodes from '@/server/api/pnodes';
+import * as history from '@/server/api/history';
+import * as gossip from '@/server/api/gossip';
+import * as ingestion from '@/server/api/ingestion';
+import * as credits from '@/server/api/credits';
+import * as staking from '@/server/api/staking';
+import * as timeseries from '@/server/api/timeseries';
+import * as seedPool from '@/infrastructure/xandeum/seed-pool';
+import * as scoring from '@/lib/scoring';
+
+const NODE_HISTORY_PERIODS = ['24h', '7d', '30d'] as const;
 
 /**
  * Unified API endpoint for pNode data
@@ -10,10 +22,20 @@ import * as pnodes from '@/server/api/pnodes';
  */
 export async function GET(request: NextRequest) {
     const type = request.nextUrl.searchParams.get('type');
-    const period = request.nextUrl.searchParams.get('period') as '24h' | '7d' | '30d' || '24h';
+    // Node-level history only supports these; anything else falls back to 24h
+    const periodParam = request.nextUrl.searchParams.get('period');
+    const period = NODE_HISTORY_PERIODS.find(p => p === periodParam) ?? '24h';
     const metric = request.nextUrl.searchParams.get('metric') || 'nodes';
     const nodeId = request.nextUrl.searchParams.get('nodeId') || undefined;
-    const timeframe = request.nextUrl.searchParams.get('timeframe') as '1m' | '3m' | '6m' | '1y' | '2y' || '1y';
+    const grouping = request.nextUrl.searchParams.get('grouping') === 'entity' ? 'entity' : 'pubkey';
+    const profile = request.nextUrl.searchParams.get('profile') || scoring.DEFAULT_SCORING_PROFILE_ID;
+    // Custom from/to (ISO) take precedence over period for history-backed types
+    const range = timeseries.resolveTimeRange(
+        request.nextUrl.searchParams.get('period'),
+        request.nextUrl.searchParams.get('from'),
+        request.nextUrl.searchParams.get('to')
+    );
+    const timeframe = request.nextUrl.searchParams.get('timeframe') as ForecastTimeframe || '1y';
     const customNodeCount = request.nextUrl.searchParams.get('customNodeCount')
         ? parseInt(request.nextUrl.searchParams.get('customNodeCount')!, 10)
         : undefined;
@@ -31,38 +53,44 @@ export async function GET(request: NextRequest) {
                 return NextResponse.json(await network.calculateNetworkTPS());
 
             case 'performance-history':
-                return NextResponse.json(await network.getPerformanceHistory(period));
+                return NextResponse.json(await network.getPerformanceHistory(range));
 
             case 'gossip-health':
                 return NextResponse.json(await network.getGossipHealth());
 
+            case 'gossip-divergence':
+                return NextResponse.json(await gossip.getLatestGossipDivergence());
+
             case 'storage-distribution':
                 return NextResponse.json(await network.getStorageDistribution());
 
             // Decentralization data
             case 'decentralization-metrics':
-                return NextResponse.json(await decentralization.getDecentralizationMetrics());
+                return NextResponse.json(await decentralization.getDecentralizationMetrics(grouping));
 
             case 'version-distribution':
                 return NextResponse.json(await decentralization.getVersionDistribution());
 
             case 'health-score-breakdown':
-                return NextResponse.json(await decentralization.getHealthScoreBreakdown());
+                return NextResponse.json(await decentralization.getHealthScoreBreakdown(profile));
 
             case 'peer-rankings':
                 return NextResponse.json(await decentralization.getPeerRankings());
 
             case 'superminority-info':
-                return NextResponse.json(await decentralization.getSuperminorityInfo());
+                return NextResponse.json(await decentralization.getSuperminorityInfo(grouping));
 
             case 'censorship-resistance':
                 return NextResponse.json(await decentralization.getCensorshipResistanceScore());
 
             case 'x-score':
-                return NextResponse.json(await decentralization.getXScore(nodeId));
+                return NextResponse.json(await decentralization.getXScore(nodeId, profile));
+
+            case 'scoring-profiles':
+                return NextResponse.json(await scoring.getScoringProfiles());
 
             case 'trend-data':
-                return NextResponse.json(await decentralization.getTrendData(metric, period));
+                return NextResponse.json(await decentralization.getTrendData(metric, range));
 
             // Economics data
             case 'epoch-info':
@@ -77,11 +105,14 @@ export async function GET(request: NextRequest) {
             case 'exabyte-projection':
                 return NextResponse.json(await economics.getExabyteProjection(timeframe, customNodeCount));
 
+            case 'growth-forecast':
+                return NextResponse.json(await forecasting.getGrowthForecasts(timeframe));
+
             case 'commission-history':
                 if (!nodeId) {
                     return NextResponse.json({ error: 'nodeId required' }, { status: 400 });
                 }
-                return NextResponse.json(await economics.getCommissionHistory(nodeId));
+                return NextResponse.json(await staking.getCommissionHistory(nodeId));
 
             case 'slashing-events':
                 return NextResponse.json(await economics.getSlashingEvents());
@@ -90,9 +121,30 @@ export async function GET(request: NextRequest) {
             case 'cluster-nodes':
                 return NextResponse.json(await pnodes.getClusterNodes());
 
+            case 'ingestion-runs':
+                return NextResponse.json(await ingestion.getIngestionRuns());
+
+            case 'seed-health':
+                return NextResponse.json(await seedPool.getSeedHealth());
+
+            case 'node-history':
+                if (!nodeId) {
+                    return NextResponse.json({ error: 'nodeId required' }, { status: 400 });
+                }
+                return NextResponse.json(await history.getNodeHistory(nodeId, period));
+
+            case 'credits-accrual':
+                if (!nodeId) {
+                    return NextResponse.json({ error: 'nodeId required' }, { status: 400 });
+                }
+                return NextResponse.json(await credits.getCreditsAccrual(nodeId, period));
+
+            case 'credits-stalls':
+                return NextResponse.json(await credits.getCreditsStalls());
+
             default:
                 return NextResponse.json(
-                    { error: `Unknown type: ${type}. Available: network-stats, network-events, performance-history, gossip-health, storage-distribution, decentralization-metrics, version-distribution, health-score-breakdown, peer-rankings, superminority-info, censorship-resistance, x-score, trend-data, epoch-info, epoch-history, staking-stats, exabyte-projection, commission-history, slashing-events, cluster-nodes` },
+                    { error: `Unknown type: ${type}. Available: network-stats, network-events, network-tps, performance-history, gossip-health, gossip-divergence, storage-distribution, decentralization-metrics, version-distribution, health-score-breakdown, peer-rankings, superminority-info, censorship-resistance, x-score, scoring-profiles, trend-data, epoch-info, epoch-history, staking-stats, exabyte-projection, growth-forecast, commission-history, slashing-events, cluster-nodes, node-history, credits-accrual, credits-stalls, ingestion-runs, seed-health` },
                     { status: 400 }
                 );
         }
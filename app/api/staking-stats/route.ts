@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { getClusterNodes } from '@/server/api/pnodes';
+import { isActiveNode } from '@/lib/pnode-utils-client';
 
 export async function GET() {
     try {
@@ -14,7 +15,7 @@ export async function GET() {
             const stake = node.staking?.activatedStake || 0;
             totalStake += stake;
 
-            if (node.status === 'online') {
+            if (isActiveNode(node)) {
                 activeStake += stake;
             }
 
@@ -22,15 +23,17 @@ export async function GET() {
             delegatorCount += node.staking?.delegatedStake || 0;
         });
 
-        const onlineNodes = nodes.filter(n => n.status === 'online').length;
-        const avgStakePerNode = nodes.length > 0 ? totalStake / nodes.length : 0;
+        // Only nodes matched to a vote account count as validators
+        const validators = nodes.filter(n => n.staking);
+        const activeValidators = validators.filter(isActiveNode).length;
+        const avgStakePerNode = validators.length > 0 ? totalStake / validators.length : 0;
 
         return NextResponse.json({
             totalStake,
             activeStake,
             delegatorCount,
-            validatorCount: nodes.length,
-            activeValidators: onlineNodes,
+            validatorCount: validators.length,
+            activeValidators,
             avgStakePerNode,
             stakeUtilization: totalStake > 0 ? (activeStake / totalStake) * 100 : 0
         });
@@ -1,19 +1,15 @@
 import { NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabase';
+import { getNetworkStatsBuckets, resolveTimeRange, bucketSizeFor, NetworkStatsMetric } from '@/server/api/timeseries';
 
 export async function GET(request: Request) {
     try {
         const { searchParams } = new URL(request.url);
         const metric = searchParams.get('metric') || 'network_health';
-        const period = searchParams.get('period') || '24h';
-
-        // Determine how many records to fetch based on period
-        let limit = 24;
-        if (period === '7d') limit = 168;
-        if (period === '30d') limit = 720;
+        const range = resolveTimeRange(searchParams.get('period'), searchParams.get('from'), searchParams.get('to'));
+        const bucket = bucketSizeFor(range);
 
         // Map metric name to column name
-        const columnMap: Record<string, string> = {
+        const columnMap: Record<string, NetworkStatsMetric> = {
             'network_health': 'network_health',
             'response_time': 'avg_response_time',
             'online_nodes': 'online_nodes',
@@ -23,28 +19,22 @@ export async function GET(request: Request) {
 
         const column = columnMap[metric] || 'network_health';
 
-        // Fetch historical data
-        const { data, error } = await supabase
-            .from('network_stats')
-            .select(`${column}, updated_at`)
-            .order('updated_at', { ascending: false })
-            .limit(limit);
-
-        if (error) throw error;
-
-        if (!data || data.length === 0) {
-            return NextResponse.json([]);
-        }
+        // Fetch historical data, one point per time bucket
+        const buckets = await getNetworkStatsBuckets(range, bucket);
 
         // Format data for charting
-        const trendData = data.reverse().map((row: any) => ({
-            timestamp: row.updated_at,
-            value: row[column] || 0,
-            label: new Date(row.updated_at).toLocaleTimeString([], {
-                hour: '2-digit',
-                minute: '2-digit'
-            })
-        }));
+        const trendData = buckets
+            .filter(b => b.metrics[column])
+            .map(b => ({
+                timestamp: b.timestamp,
+                value: b.metrics[column]!.avg,
+                min: b.metrics[column]!.min,
+                max: b.metrics[column]!.max,
+                p95: b.metrics[column]!.p95,
+                label: bucket === '1d'
+                    ? new Date(b.timestamp).toLocaleDateString([], { month: 'short', day: 'numeric' })
+                    : new Date(b.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+            }));
 
         return NextResponse.json(trendData);
     } catch (error) {
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+    assertPublicWebhookTarget, createTestAlert, deliverAndLog, WebhookChannelType, WebhookTarget,
+} from '@/server/api/webhooks';
+import { ADMIN_PASSWORD } from '@/server/api/config';
+
+export const dynamic = 'force-dynamic';
+
+const SUPPORTED_TYPES: WebhookChannelType[] = ['webhook', 'discord', 'slack', 'telegram'];
+
+/**
+ * Send a test alert to a webhook target, once and without retries.
+ * Telegram accepts either an explicit chatId or "<bot token>:<chat id>" in webhookUrl.
+ * Admin auth is enforced by proxy.ts; without ADMIN_PASSWORD test sends are refused.
+ */
+export async function POST(request: NextRequest) {
+    if (!ADMIN_PASSWORD) {
+        return NextResponse.json(
+            { success: false, message: 'Webhook tests are disabled until ADMIN_PASSWORD is set' },
+            { status: 403 }
+        );
+    }
+
+    try {
+        const body = await request.json().catch(() => null);
+        const type = body?.type as WebhookChannelType;
+        let webhookUrl = typeof body?.webhookUrl === 'string' ? body.webhookUrl.trim() : '';
+        let chatId = typeof body?.chatId === 'string' ? body.chatId.trim() : undefined;
+
+        if (!SUPPORTED_TYPES.includes(type)) {
+            return NextResponse.json(
+                { success: false, message: `Unsupported webhook type: ${type}. Available: ${SUPPORTED_TYPES.join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        if (!webhookUrl) {
+            return NextResponse.json({ success: false, message: 'webhookUrl required' }, { status: 400 });
+        }
+
+        if (type === 'telegram' && !chatId) {
+            // Bot tokens contain a colon themselves, so the chat ID is after the last one
+            const separator = webhookUrl.lastIndexOf(':');
+            if (separator <= 0 || /^https?:\/\//.test(webhookUrl)) {
+                return NextResponse.json(
+                    { success: false, message: 'Telegram requires "<bot token>:<chat id>" or a chatId' },
+                    { status: 400 }
+                );
+            }
+            chatId = webhookUrl.slice(separator + 1);
+            webhookUrl = webhookUrl.slice(0, separator);
+        }
+
+        if (type !== 'telegram' && !/^https?:\/\//.test(webhookUrl)) {
+            return NextResponse.json({ success: false, message: 'webhookUrl must be an http(s) URL' }, { status: 400 });
+        }
+
+        const target: WebhookTarget = { type, webhookUrl, chatId };
+        try {
+            await assertPublicWebhookTarget(target);
+        } catch (error) {
+            return NextResponse.json(
+                { success: false, message: error instanceof Error ? error.message : String(error) },
+                { status: 400 }
+            );
+        }
+
+        const result = await deliverAndLog(target, createTestAlert(), { maxAttempts: 1 });
+
+        return NextResponse.json({
+            success: result.success,
+            message: result.success
+                ? `Test alert delivered to ${type}.`
+                : `Delivery failed: ${result.error}`,
+            attempts: result.attempts,
+            statusCode: result.statusCode,
+        });
+    } catch (error) {
+        console.error('Webhook test error:', error);
+        return NextResponse.json({ success: false, message: String(error) }, { status: 500 });
+    }
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { Suspense, lazy, useState, useEffect } from 'react';
+import { Suspense, lazy, useState, useEffect, useMemo } from 'react';
 import DashboardPageLayout from "@/components/dashboard/layout";
 import { Bullet } from "@/components/ui/bullet";
 import BracketsIcon from "@/components/icons/brackets";
@@ -15,6 +15,7 @@ import { usePNodes, useNetworkStats, usePerformanceHistory, useGossipEvents, use
 import DashboardStat from "@/components/dashboard/stat";
 import { StatCard } from "@/components/dashboard/stat-card";
 import { NetworkChart } from "@/components/dashboard/network-chart";
+import { getDefaultDateRange } from "@/components/dashboard/date-range-picker";
 import { InfoTooltip } from "@/components/dashboard/info-tooltip";
 import { Skeleton } from "@/components/ui/skeleton";
 
@@ -45,7 +46,9 @@ export default function DashboardOverview({
 }) {
   const { data: nodes, isLoading: nodesLoading, dataUpdatedAt } = usePNodes(initialNodes);
   const { data: stats, isLoading: statsLoading } = useNetworkStats(initialStats);
-  const { data: history, isLoading: historyLoading } = usePerformanceHistory();
+  // The overview always shows the last 24h; Analytics has the range picker
+  const historyRange = useMemo(() => getDefaultDateRange('24h'), []);
+  const { data: history, isLoading: historyLoading } = usePerformanceHistory(historyRange);
   const { data: gossipEvents } = useGossipEvents();
   const { data: xScore } = useXScore();
 
@@ -136,7 +139,7 @@ export default function DashboardOverview({
           />
           <StatCard
             label="GOSSIP HEALTH"
-            value={xScore.gossipHealth.toFixed(1)}
+            value={xScore.gossipHealth?.toFixed(1) ?? 'N/A'}
             description="PROTOCOL SYNC"
             icon={GlobeIcon}
             intent="positive"
@@ -162,7 +165,7 @@ export default function DashboardOverview({
         className="mb-6"
       >
         <div className="p-0 md:mt-4">
-          {history && <NetworkChart data={history} />}
+          {history && <NetworkChart data={history} range={historyRange} />}
         </div>
       </StatCard>
 
@@ -1,11 +1,13 @@
 'use client';
 
+import { useState } from 'react';
 import DashboardPageLayout from "@/components/dashboard/layout";
-import { useDecentralizationMetrics, usePNodes, useSuperminorityInfo, useCensorshipResistanceScore } from "@/hooks/use-pnode-data-query";
+import { useDecentralizationMetrics, usePNodes, useSuperminorityInfo, useCensorshipResistanceScore, useTrendData } from "@/hooks/use-pnode-data-query";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Bullet } from "@/components/ui/bullet";
 import { cn } from '@/lib/utils';
+import type { ConcentrationIndex, EntityGrouping } from '@/types/pnode';
 import NumberFlow from "@number-flow/react";
 import {
   ResponsiveContainer,
@@ -14,6 +16,8 @@ import {
   Cell,
   BarChart,
   Bar,
+  LineChart,
+  Line,
   XAxis,
   YAxis,
   CartesianGrid,
@@ -74,15 +78,67 @@ function LoadingState() {
   );
 }
 
+const DIMENSION_LABELS: Record<ConcentrationIndex['dimension'], string> = {
+  country: 'Country',
+  asn: 'ASN',
+  datacenter: 'Datacenter / Org',
+  credits: 'Credits Share',
+};
+
+const TREND_METRICS = [
+  { metric: 'nakamoto', label: 'Nakamoto (Weakest)', format: (v: number) => v.toFixed(0), higherIsBetter: true },
+  { metric: 'gini', label: 'Gini', format: (v: number) => v.toFixed(3), higherIsBetter: false },
+  { metric: 'superminority_count', label: 'Superminority', format: (v: number) => v.toFixed(0), higherIsBetter: true },
+  { metric: 'censorship_score', label: 'Censorship Resistance', format: (v: number) => v.toFixed(1), higherIsBetter: true },
+  { metric: 'country_count', label: 'Countries', format: (v: number) => v.toFixed(0), higherIsBetter: true },
+] as const;
+
+function DecentralizationTrend({ metric, label, format, higherIsBetter, period }: (typeof TREND_METRICS)[number] & { period: '24h' | '7d' | '30d' }) {
+  const { data: trend } = useTrendData(metric, period);
+  const points = trend?.dataPoints || [];
+  const latest = points[points.length - 1]?.value;
+  const improving = (trend?.change || 0) === 0 ? null : ((trend?.change || 0) > 0) === higherIsBetter;
+
+  return (
+    <div className="p-3 bg-card/30 rounded border border-border/20">
+      <div className="flex items-baseline justify-between mb-2">
+        <span className="text-[10px] text-muted-foreground uppercase font-bold tracking-widest">{label}</span>
+        <span className="font-display text-lg">{latest !== undefined ? format(latest) : '---'}</span>
+      </div>
+      <div className="h-16">
+        {points.length > 1 ? (
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={points}>
+              <Line type="monotone" dataKey="value" stroke="#00ff88" strokeWidth={2} dot={false} isAnimationActive={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        ) : (
+          <div className="h-full flex items-center justify-center text-[10px] text-muted-foreground uppercase">
+            Not enough snapshots
+          </div>
+        )}
+      </div>
+      <div className={cn(
+        "text-[10px] font-mono mt-1",
+        improving === null ? "text-muted-foreground" : improving ? "text-success" : "text-destructive"
+      )}>
+        {trend && points.length > 1 ? `${trend.change >= 0 ? '+' : ''}${format(trend.change)} over ${period}` : '—'}
+      </div>
+    </div>
+  );
+}
+
 const COLORS = ['#00ff88', '#22c55e', '#3b82f6', '#8b5cf6', '#f59e0b', '#ef4444', '#ec4899', '#06b6d4'];
 
 import { StatCard } from "@/components/dashboard/stat-card";
 
 export default function DecentralizationClient() {
-  const { data: metrics, isLoading: metricsLoading } = useDecentralizationMetrics();
+  const [grouping, setGrouping] = useState<EntityGrouping>('pubkey');
+  const { data: metrics, isLoading: metricsLoading } = useDecentralizationMetrics(grouping);
   const { data: nodes, isLoading: nodesLoading } = usePNodes();
-  const { data: superminority } = useSuperminorityInfo();
+  const { data: superminority } = useSuperminorityInfo(grouping);
   const { data: censorshipScore } = useCensorshipResistanceScore();
+  const [trendPeriod, setTrendPeriod] = useState<'24h' | '7d' | '30d'>('7d');
 
   const isLoading = metricsLoading || nodesLoading;
 
@@ -114,6 +170,9 @@ export default function DecentralizationClient() {
 
   const nakamotoScore = metrics?.nakamotoCoefficient || 0;
   const giniScore = metrics?.giniCoefficient || 0;
+  const weakest = metrics?.weakestDimension;
+  const dimensions = metrics?.dimensions || [];
+  const thresholds = dimensions[0]?.coefficients.map(c => c.threshold) || [];
 
   return (
     <DashboardPageLayout
@@ -123,19 +182,41 @@ export default function DecentralizationClient() {
         icon: NetworkIcon,
       }}
     >
+      {/* Stakeholder grouping for credits-based metrics */}
+      <div className="flex items-center gap-2 mb-4">
+        <span className="text-xs text-muted-foreground uppercase tracking-wide">Count stake by</span>
+        {([
+          { value: 'pubkey', label: 'Pubkeys' },
+          { value: 'entity', label: 'Operator Entities' },
+        ] as const).map(option => (
+          <button
+            key={option.value}
+            onClick={() => setGrouping(option.value)}
+            className={`px-3 py-1 text-xs rounded ${grouping === option.value ? 'bg-primary text-primary-foreground' : 'bg-accent hover:bg-accent/80'}`}
+          >
+            {option.label}
+          </button>
+        ))}
+        {grouping === 'entity' && metrics && (
+          <span className="text-xs text-muted-foreground">
+            {metrics.entityCount} entities from {nodes?.length || 0} nodes (grouped by shared /24 subnet, ASN + city, operator wallet or registry)
+          </span>
+        )}
+      </div>
+
       {/* Top Stats - exactly like dashboard */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-6">
         <StatCard
           label="NAKAMOTO COEFFICIENT"
           value={nakamotoScore}
-          description="ENTITIES TO CONTROL 51%"
+          description={weakest ? `51% · WEAKEST AXIS: ${DIMENSION_LABELS[weakest].toUpperCase()}` : "ENTITIES TO CONTROL 51%"}
           icon={ShieldIcon}
           intent={nakamotoScore >= 10 ? "positive" : nakamotoScore >= 5 ? "neutral" : "negative"}
         />
         <StatCard
           label="GINI COEFFICIENT"
           value={giniScore.toFixed(3)}
-          description="STAKE DISTRIBUTION"
+          description={grouping === 'entity' ? "STAKE DISTRIBUTION PER ENTITY" : "STAKE DISTRIBUTION"}
           icon={ChartIcon}
           intent={giniScore < 0.4 ? "positive" : giniScore < 0.6 ? "neutral" : "negative"}
         />
@@ -156,6 +237,76 @@ export default function DecentralizationClient() {
       </div>
 
 
+      {/* Per-dimension concentration */}
+      {dimensions.length > 0 && (
+        <StatCard label="CONCENTRATION BY DIMENSION" icon={ShieldIcon} description="NAKAMOTO, HHI AND ENTROPY" className="mb-6">
+          <div className="overflow-x-auto md:mt-4">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-muted-foreground uppercase tracking-wide text-left">
+                  <th className="py-2 pr-4">Dimension</th>
+                  <th className="py-2 pr-4 text-right">Entities</th>
+                  {thresholds.map(t => (
+                    <th key={t} className="py-2 pr-4 text-right">Nakamoto {t}%</th>
+                  ))}
+                  <th className="py-2 pr-4 text-right">HHI</th>
+                  <th className="py-2 pr-4 text-right">Entropy</th>
+                  <th className="py-2 text-right">Top Share</th>
+                </tr>
+              </thead>
+              <tbody>
+                {dimensions.map(d => (
+                  <tr
+                    key={d.dimension}
+                    className={cn("border-t border-border/40", d.dimension === weakest && "bg-destructive/10")}
+                  >
+                    <td className="py-2 pr-4 font-semibold uppercase">
+                      {DIMENSION_LABELS[d.dimension]}
+                      {d.dimension === weakest && <span className="ml-2 text-destructive">Weakest</span>}
+                    </td>
+                    <td className="py-2 pr-4 text-right font-mono">{d.entities}</td>
+                    {d.coefficients.map(c => (
+                      <td key={c.threshold} className="py-2 pr-4 text-right font-mono">{c.value}</td>
+                    ))}
+                    {/* DOJ guideline bands: < 1500 unconcentrated, > 2500 highly concentrated */}
+                    <td className={cn(
+                      "py-2 pr-4 text-right font-mono",
+                      d.hhi > 2500 ? "text-destructive" : d.hhi > 1500 ? "text-warning" : "text-success"
+                    )}>
+                      {d.hhi.toLocaleString()}
+                    </td>
+                    <td className="py-2 pr-4 text-right font-mono" title={`${d.entropy.toFixed(2)} bits`}>
+                      {(d.normalizedEntropy * 100).toFixed(0)}%
+                    </td>
+                    <td className="py-2 text-right font-mono">{d.topSharePercent.toFixed(1)}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </StatCard>
+      )}
+
+      {/* Decentralization over time */}
+      <StatCard label="DECENTRALIZATION TRENDS" icon={ChartIcon} description="FROM RECORDED SNAPSHOTS" className="mb-6">
+        <div className="flex gap-2 mb-4 md:mt-4">
+          {(['24h', '7d', '30d'] as const).map(p => (
+            <button
+              key={p}
+              onClick={() => setTrendPeriod(p)}
+              className={`px-3 py-1 text-xs rounded ${trendPeriod === p ? 'bg-primary text-primary-foreground' : 'bg-accent hover:bg-accent/80'}`}
+            >
+              {p}
+            </button>
+          ))}
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
+          {TREND_METRICS.map(m => (
+            <DecentralizationTrend key={m.metric} {...m} period={trendPeriod} />
+          ))}
+        </div>
+      </StatCard>
+
       {/* Charts - using StatCard wrapper */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
         <StatCard label="GEOGRAPHIC DISTRIBUTION" icon={GlobeIcon}>
@@ -291,6 +442,62 @@ export default function DecentralizationClient() {
         </StatCard>
       </div>
 
+      {/* Censorship resistance */}
+      {censorshipScore && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+          <StatCard
+            label="CENSORSHIP RESISTANCE"
+            icon={ShieldIcon}
+            description={`GRADE ${censorshipScore.grade} · ${censorshipScore.overall.toFixed(0)}/100`}
+            className="lg:col-span-2"
+          >
+            <div className="space-y-4 md:mt-4">
+              {censorshipScore.factors.map(factor => (
+                <div key={factor.id}>
+                  <div className="flex justify-between text-xs mb-1 uppercase tracking-wide">
+                    <span className="font-semibold">{factor.name}</span>
+                    <span className="text-muted-foreground">
+                      {factor.score.toFixed(0)} · {(factor.weight * 100).toFixed(0)}% weight
+                    </span>
+                  </div>
+                  <div className="h-2 bg-card rounded-full overflow-hidden">
+                    <div
+                      className={cn(
+                        "h-full rounded-full",
+                        factor.score >= 70 ? "bg-success" : factor.score >= 40 ? "bg-warning" : "bg-destructive"
+                      )}
+                      style={{ width: `${factor.score}%` }}
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">{factor.description}</p>
+                </div>
+              ))}
+            </div>
+          </StatCard>
+
+          <StatCard label="JURISDICTION & HOSTING" icon={GlobeIcon}>
+            <div className="space-y-3 md:mt-4">
+              {censorshipScore.blocs.map(bloc => (
+                <div key={bloc.id} className="flex items-center justify-between text-xs" title={bloc.description}>
+                  <span className="uppercase tracking-wide text-muted-foreground">{bloc.name}</span>
+                  <span className={cn("font-mono", bloc.id === 'sanctioned' && bloc.nodeCount > 0 && "text-destructive")}>
+                    {bloc.percentage.toFixed(1)}%
+                  </span>
+                </div>
+              ))}
+              <div className="border-t border-border/20 pt-3 space-y-3">
+                {censorshipScore.hosting.map(h => (
+                  <div key={h.kind} className="flex items-center justify-between text-xs">
+                    <span className="uppercase tracking-wide text-muted-foreground">{h.label}</span>
+                    <span className="font-mono">{h.nodeCount} ({h.percentage.toFixed(1)}%)</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </StatCard>
+        </div>
+      )}
+
       {/* Risk and Details */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
         <StatCard label="RISK ASSESSMENT" icon={ShieldIcon}>
@@ -325,7 +532,14 @@ export default function DecentralizationClient() {
               {superminority.nodes.slice(0, 5).map((node: any, i: number) => (
                 <div key={node.pubkey} className="flex items-center gap-3 text-xs p-2 bg-card/30 rounded border border-border/20">
                   <span className="font-display text-primary w-8">#{i + 1}</span>
-                  <span className="font-mono flex-1 text-muted-foreground">{node.pubkey.slice(0, 24)}...</span>
+                  {node.label ? (
+                    <span className="flex-1 text-muted-foreground truncate" title={node.label}>
+                      {node.label.length > 32 ? `${node.label.slice(0, 24)}...` : node.label}
+                      {node.nodeCount > 1 && <span className="ml-2 font-mono">{node.nodeCount} nodes</span>}
+                    </span>
+                  ) : (
+                    <span className="font-mono flex-1 text-muted-foreground">{node.pubkey.slice(0, 24)}...</span>
+                  )}
                   <span className="font-semibold text-primary">{node.percentage.toFixed(2)}%</span>
                 </div>
               ))}
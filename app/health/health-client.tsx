@@ -1,8 +1,11 @@
 'use client';
 
-import React, { useMemo } from "react";
+import React, { useMemo, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import DashboardPageLayout from "@/components/dashboard/layout";
-import { useHealthScoreBreakdown, usePNodes, useNetworkStats, useSlashingEvents, usePeerRankings, useHealthTrends } from "@/hooks/use-pnode-data-query";
+import { useHealthScoreBreakdown, usePNodes, useNetworkStats, useSlashingEvents, usePeerRankings, useHealthTrends, useXScore, useScoringProfiles } from "@/hooks/use-pnode-data-query";
+import { ScoringProfileEditor } from "@/components/dashboard/scoring-profiles";
+import { DEFAULT_SCORING_PROFILE_ID, getHealthGrade } from "@/lib/scoring";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Bullet } from "@/components/ui/bullet";
@@ -65,7 +68,11 @@ function LoadingState() {
 import { StatCard } from "@/components/dashboard/stat-card";
 
 export default function HealthClient() {
-  const { data: healthBreakdown, isLoading: healthLoading } = useHealthScoreBreakdown();
+  const queryClient = useQueryClient();
+  const [profileId, setProfileId] = useState(DEFAULT_SCORING_PROFILE_ID);
+  const { data: healthBreakdown, isLoading: healthLoading } = useHealthScoreBreakdown(profileId);
+  const { data: xScore } = useXScore(undefined, profileId);
+  const { data: scoringProfiles } = useScoringProfiles();
   const { data: nodes, isLoading: nodesLoading } = usePNodes();
   const { data: stats, isLoading: statsLoading } = useNetworkStats();
   const { data: slashingEvents } = useSlashingEvents();
@@ -76,7 +83,7 @@ export default function HealthClient() {
   const isLoading = healthLoading || nodesLoading || statsLoading;
 
   const overallScore = healthBreakdown?.overall || 0;
-  const scoreGrade = overallScore >= 90 ? 'A+' : overallScore >= 80 ? 'A' : overallScore >= 70 ? 'B' : overallScore >= 60 ? 'C' : 'D';
+  const scoreGrade = getHealthGrade(overallScore);
   const scoreIntent = overallScore >= 80 ? 'positive' : overallScore >= 60 ? 'neutral' : 'negative';
 
   const radarData = useMemo(() => healthBreakdown?.factors.map((f: any) => ({
@@ -222,6 +229,23 @@ export default function HealthClient() {
         </StatCard>
       </div>
 
+      {scoringProfiles && scoringProfiles.length > 0 && (
+        <ScoringProfileEditor
+          profiles={scoringProfiles}
+          selectedId={profileId}
+          onSelect={setProfileId}
+          onSaved={(profile) => {
+            // Saved scores are computed server-side, so refetch everything scored with this profile
+            queryClient.invalidateQueries({ queryKey: ['scoring-profiles'] });
+            queryClient.invalidateQueries({ queryKey: ['health-score-breakdown', profile.id] });
+            queryClient.invalidateQueries({ queryKey: ['x-score'] });
+            setProfileId(profile.id);
+          }}
+          breakdown={healthBreakdown}
+          xScore={xScore}
+        />
+      )}
+
       <StatCard label="SCORING METHODOLOGY" icon={ShieldIcon} description="SIMILAR TO STAKEWIZ WIZ SCORE" className="mb-6">
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 md:mt-4">
           {healthBreakdown?.factors.map((factor: any) => (
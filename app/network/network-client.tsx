@@ -4,14 +4,15 @@ import { useState, useEffect } from 'react';
 import DashboardPageLayout from "@/components/dashboard/layout";
 
 import GlobeIcon from "@/components/icons/globe";
-import { usePNodes, useGossipHealth, useStorageDistribution } from "@/hooks/use-pnode-data-query";
+import { usePNodes, useGossipHealth, useGossipDivergence, useStorageDistribution } from "@/hooks/use-pnode-data-query";
 import type { PNode } from "@/types/pnode";
 import { LeafletMap } from "@/components/dashboard/leaflet-map";
-import { GossipHealthPanel, StorageDistributionPanel } from "@/components/dashboard/gossip-health";
+import { GossipHealthPanel, GossipDivergencePanel, StorageDistributionPanel } from "@/components/dashboard/gossip-health";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Bullet } from "@/components/ui/bullet";
 import { cn } from "@/lib/utils";
+import { isActiveNode } from "@/lib/pnode-utils-client";
 import NumberFlow from "@number-flow/react";
 
 // Icons
@@ -41,6 +42,7 @@ import { StatCard } from "@/components/dashboard/stat-card";
 export default function NetworkClient() {
   const { data: nodes, isLoading: nodesLoading, dataUpdatedAt } = usePNodes();
   const { data: gossipHealth, isLoading: gossipLoading } = useGossipHealth();
+  const { data: divergence, isLoading: divergenceLoading } = useGossipDivergence();
   const { data: distribution, isLoading: distLoading } = useStorageDistribution();
 
   const [mounted, setMounted] = useState(false);
@@ -117,7 +119,10 @@ export default function NetworkClient() {
       </StatCard>
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
-        {gossipHealth && <GossipHealthPanel health={gossipHealth} />}
+        <div className="space-y-6">
+          {gossipHealth && <GossipHealthPanel health={gossipHealth} />}
+          {!divergenceLoading && <GossipDivergencePanel divergence={divergence ?? null} />}
+        </div>
         {distribution && <StorageDistributionPanel distribution={distribution} />}
       </div>
 
@@ -130,9 +135,9 @@ export default function NetworkClient() {
               { label: '15-30 PEERS', min: 15, max: 30, color: 'bg-yellow-500' },
               { label: '< 15 PEERS', min: 0, max: 15, color: 'bg-red-500' },
             ].map(({ label, min, max, color }) => {
-              const onlineNodes = nodes?.filter((n: PNode) => n.status === 'online') || [];
+              const onlineNodes = nodes?.filter(isActiveNode) || [];
               const count = onlineNodes.filter((n: PNode) =>
-                n.gossip.peersConnected >= min && n.gossip.peersConnected < max
+                n.gossip.peersConnected != null && n.gossip.peersConnected >= min && n.gossip.peersConnected < max
               ).length;
               const percentage = onlineNodes.length > 0 ? (count / onlineNodes.length) * 100 : 0;
 
@@ -1,7 +1,8 @@
-
+import { Suspense } from "react";
 import { getClusterNodes } from "@/server/api/pnodes";
 import { getPerformanceHistory } from "@/server/api/network";
 import PerformanceClient from "./performance-client";
+import Loading from "./loading";
 
 // ISR: Revalidate every 60 seconds
 export const revalidate = 60;
@@ -13,5 +14,10 @@ export default async function Page() {
     getPerformanceHistory('24h'),
   ]);
 
-  return <PerformanceClient initialNodes={nodes} initialHistory={history} />;
+  // The selected date range lives in the URL (useSearchParams), so the client renders under Suspense
+  return (
+    <Suspense fallback={<Loading />}>
+      <PerformanceClient initialNodes={nodes} initialHistory={history} />
+    </Suspense>
+  );
 }
@@ -6,9 +6,12 @@ import { usePNodes, usePerformanceHistory } from "@/hooks/use-pnode-data-query";
 import type { PNode, PerformanceHistory } from "@/types/pnode";
 import { Skeleton } from "@/components/ui/skeleton";
 import { cn } from "@/lib/utils";
+import { isActiveNode } from "@/lib/pnode-utils-client";
 import {
     AreaChart,
     Area,
+    LineChart,
+    Line,
     XAxis,
     YAxis,
     CartesianGrid,
@@ -19,8 +22,8 @@ import {
     ChartTooltip,
     ChartTooltipContent,
 } from "@/components/ui/chart";
-import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Bullet } from "@/components/ui/bullet";
+import { DateRangePicker, useURLDateRange, formatRangeTick } from "@/components/dashboard/date-range-picker";
 
 // Icons
 import TrophyIcon from "@/components/icons/trophy";
@@ -52,8 +55,6 @@ function LoadingState() {
     );
 }
 
-type TimePeriod = "1h" | "6h" | "24h";
-
 const chartConfig = {
     latency: {
         label: "Latency",
@@ -61,6 +62,17 @@ const chartConfig = {
     },
 } satisfies ChartConfig;
 
+const throughputChartConfig = {
+    tps: {
+        label: "TPS",
+        color: "var(--chart-2)",
+    },
+    skipRate: {
+        label: "Skip Rate %",
+        color: "var(--chart-3)",
+    },
+} satisfies ChartConfig;
+
 import { StatCard } from "@/components/dashboard/stat-card";
 
 interface PerformanceClientProps {
@@ -75,22 +87,25 @@ export default function PerformanceClient({ initialNodes, initialHistory }: Perf
     }, []);
 
     const { data: nodes, isLoading, dataUpdatedAt } = usePNodes(initialNodes);
-    const { data: history } = usePerformanceHistory('24h', initialHistory);
-    const [activeTab, setActiveTab] = useState<TimePeriod>("24h");
+    const [range, setRange] = useURLDateRange('24h');
+    // Server-rendered history only covers the default 24h range
+    const { data: history } = usePerformanceHistory(range, range.preset === '24h' ? initialHistory : undefined);
 
-    // Filter data based on time period
-    const filteredData = useMemo(() => {
+    // One point per time bucket of the selected range
+    const chartData = useMemo(() => {
         if (!history) return [];
-        const hours = activeTab === "1h" ? 1 : activeTab === "6h" ? 6 : 24;
-        const cutoff = Date.now() - hours * 60 * 60 * 1000;
 
-        return history
-            .filter((item: PerformanceHistory) => new Date(item.timestamp).getTime() > cutoff)
-            .map((item: PerformanceHistory) => ({
-                date: mounted ? new Date(item.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : '',
-                latency: item.avgResponseTime,
-            }));
-    }, [history, activeTab, mounted]);
+        return history.map((item: PerformanceHistory) => ({
+            date: mounted ? formatRangeTick(item.timestamp, range) : '',
+            latency: item.avgResponseTime,
+            tps: item.tps,
+            skipRate: item.skipRate,
+        }));
+    }, [history, mounted, range]);
+
+    const latestThroughput = useMemo(() =>
+        [...(history || [])].reverse().find((item: PerformanceHistory) => item.tps !== null || item.skipRate !== null),
+    [history]);
 
     const topNodes = useMemo(() => {
         if (!nodes) return [];
@@ -99,15 +114,9 @@ export default function PerformanceClient({ initialNodes, initialHistory }: Perf
             .slice(0, 10);
     }, [nodes]);
 
-    const handleTabChange = (value: string) => {
-        if (value === "1h" || value === "6h" || value === "24h") {
-            setActiveTab(value as TimePeriod);
-        }
-    };
-
     const isActuallyLoading = isLoading && !nodes;
 
-    const onlineNodes = nodes?.filter((n: PNode) => n.status === 'online') || [];
+    const onlineNodes = nodes?.filter(isActiveNode) || [];
     const excellentCount = onlineNodes.filter((n: PNode) => n.performance?.tier === 'excellent').length;
     const goodCount = onlineNodes.filter((n: PNode) => n.performance?.tier === 'good').length;
     const fairCount = onlineNodes.filter((n: PNode) => n.performance?.tier === 'fair').length;
@@ -213,87 +222,146 @@ export default function PerformanceClient({ initialNodes, initialHistory }: Perf
 
                 {/* Latency Trends */}
                 <StatCard label="LATENCY TRENDS" icon={TimerIcon}>
-                    <Tabs
-                        value={activeTab}
-                        onValueChange={handleTabChange}
-                        className="max-md:gap-4 md:mt-4"
-                    >
-                        <div className="flex items-center justify-between mb-4 max-md:contents">
-                            <TabsList className="max-md:w-full">
-                                <TabsTrigger value="1h">1H</TabsTrigger>
-                                <TabsTrigger value="6h">6H</TabsTrigger>
-                                <TabsTrigger value="24h">24H</TabsTrigger>
-                            </TabsList>
-                            <div className="flex items-center gap-6 max-md:order-1">
-                                <div className="flex items-center gap-2 uppercase">
-                                    <Bullet style={{ backgroundColor: 'var(--chart-1)' }} className="rotate-45" />
-                                    <span className="text-sm font-medium text-muted-foreground">Latency</span>
-                                </div>
-                            </div>
+                    <div className="flex items-center justify-between gap-4 mb-4 md:mt-4 max-md:flex-col max-md:items-start">
+                        <DateRangePicker value={range} onChange={setRange} />
+                        <div className="flex items-center gap-2 uppercase">
+                            <Bullet style={{ backgroundColor: 'var(--chart-1)' }} className="rotate-45" />
+                            <span className="text-sm font-medium text-muted-foreground">Latency</span>
                         </div>
-                        {(['1h', '6h', '24h'] as const).map((period) => (
-                            <TabsContent key={period} value={period} className="space-y-4">
-                                <div className="bg-accent rounded-lg p-3" style={{ height: '400px' }}>
-                                    {mounted ? (
-                                        <ChartContainer className="h-full w-full" config={chartConfig}>
-                                            <AreaChart
-                                                accessibilityLayer
-                                                data={filteredData}
-                                                margin={{ left: -12, right: 12, top: 12, bottom: 12 }}
-                                            >
-                                                <defs>
-                                                    <linearGradient id={`fillLatency-${period}`} x1="0" y1="0" x2="0" y2="1">
-                                                        <stop offset="5%" stopColor="var(--color-latency)" stopOpacity={0.8} />
-                                                        <stop offset="95%" stopColor="var(--color-latency)" stopOpacity={0.1} />
-                                                    </linearGradient>
-                                                </defs>
-                                                <CartesianGrid
-                                                    horizontal={false}
-                                                    strokeDasharray="8 8"
-                                                    strokeWidth={2}
-                                                    stroke="var(--muted-foreground)"
-                                                    opacity={0.3}
-                                                />
-                                                <XAxis
-                                                    dataKey="date"
-                                                    tickLine={false}
-                                                    tickMargin={12}
-                                                    strokeWidth={1.5}
-                                                    tick={{ fill: 'var(--muted-foreground)', fontSize: 12 }}
-                                                    className="uppercase text-sm"
-                                                />
-                                                <YAxis
-                                                    tickLine={false}
-                                                    axisLine={false}
-                                                    tickMargin={0}
-                                                    tickCount={6}
-                                                    tick={{ fill: 'var(--muted-foreground)', fontSize: 12 }}
-                                                    className="text-sm"
-                                                    domain={[0, "dataMax"]}
-                                                />
-                                                <ChartTooltip
-                                                    cursor={false}
-                                                    content={<ChartTooltipContent indicator="dot" className="min-w-[200px] px-4 py-3" />}
-                                                />
-                                                <Area
-                                                    dataKey="latency"
-                                                    type="linear"
-                                                    fill={`url(#fillLatency-${period})`}
-                                                    stroke="var(--color-latency)"
-                                                    strokeWidth={2}
-                                                    dot={false}
-                                                    activeDot={{ r: 4 }}
-                                                />
-                                            </AreaChart>
-                                        </ChartContainer>
-                                    ) : <Skeleton className="h-full w-full rounded-lg" />}
-                                </div>
-                            </TabsContent>
-                        ))}
-                    </Tabs>
+                    </div>
+                    <div className="bg-accent rounded-lg p-3" style={{ height: '400px' }}>
+                        {mounted ? (
+                            <ChartContainer className="h-full w-full" config={chartConfig}>
+                                <AreaChart
+                                    accessibilityLayer
+                                    data={chartData}
+                                    margin={{ left: -12, right: 12, top: 12, bottom: 12 }}
+                                >
+                                    <defs>
+                                        <linearGradient id="fillLatency" x1="0" y1="0" x2="0" y2="1">
+                                            <stop offset="5%" stopColor="var(--color-latency)" stopOpacity={0.8} />
+                                            <stop offset="95%" stopColor="var(--color-latency)" stopOpacity={0.1} />
+                                        </linearGradient>
+                                    </defs>
+                                    <CartesianGrid
+                                        horizontal={false}
+                                        strokeDasharray="8 8"
+                                        strokeWidth={2}
+                                        stroke="var(--muted-foreground)"
+                                        opacity={0.3}
+                                    />
+                                    <XAxis
+                                        dataKey="date"
+                                        tickLine={false}
+                                        tickMargin={12}
+                                        strokeWidth={1.5}
+                                        tick={{ fill: 'var(--muted-foreground)', fontSize: 12 }}
+                                        className="uppercase text-sm"
+                                    />
+                                    <YAxis
+                                        tickLine={false}
+                                        axisLine={false}
+                                        tickMargin={0}
+                                        tickCount={6}
+                                        tick={{ fill: 'var(--muted-foreground)', fontSize: 12 }}
+                                        className="text-sm"
+                                        domain={[0, "dataMax"]}
+                                    />
+                                    <ChartTooltip
+                                        cursor={false}
+                                        content={<ChartTooltipContent indicator="dot" className="min-w-[200px] px-4 py-3" />}
+                                    />
+                                    <Area
+                                        dataKey="latency"
+                                        type="linear"
+                                        fill="url(#fillLatency)"
+                                        stroke="var(--color-latency)"
+                                        strokeWidth={2}
+                                        dot={false}
+                                        activeDot={{ r: 4 }}
+                                    />
+                                </AreaChart>
+                            </ChartContainer>
+                        ) : <Skeleton className="h-full w-full rounded-lg" />}
+                    </div>
                 </StatCard>
             </div>
 
+            {/* Chain Throughput */}
+            <StatCard
+                label="THROUGHPUT & SKIP RATE"
+                icon={ZapIcon}
+                className="mb-6"
+                description={latestThroughput
+                    ? `${latestThroughput.tps?.toFixed(1) ?? '---'} TPS • ${latestThroughput.skipRate?.toFixed(2) ?? '---'}% SKIPPED`
+                    : 'NO RPC SAMPLES RECORDED YET'}
+            >
+                <div className="bg-accent rounded-lg p-3 md:mt-4" style={{ height: '300px' }}>
+                    {mounted ? (
+                        <ChartContainer className="h-full w-full" config={throughputChartConfig}>
+                            <LineChart
+                                accessibilityLayer
+                                data={chartData}
+                                margin={{ left: -12, right: 12, top: 12, bottom: 12 }}
+                            >
+                                <CartesianGrid
+                                    horizontal={false}
+                                    strokeDasharray="8 8"
+                                    strokeWidth={2}
+                                    stroke="var(--muted-foreground)"
+                                    opacity={0.3}
+                                />
+                                <XAxis
+                                    dataKey="date"
+                                    tickLine={false}
+                                    tickMargin={12}
+                                    strokeWidth={1.5}
+                                    tick={{ fill: 'var(--muted-foreground)', fontSize: 12 }}
+                                    className="uppercase text-sm"
+                                />
+                                <YAxis
+                                    yAxisId="tps"
+                                    tickLine={false}
+                                    axisLine={false}
+                                    tick={{ fill: 'var(--muted-foreground)', fontSize: 12 }}
+                                    domain={[0, "dataMax"]}
+                                />
+                                <YAxis
+                                    yAxisId="skipRate"
+                                    orientation="right"
+                                    tickLine={false}
+                                    axisLine={false}
+                                    tick={{ fill: 'var(--muted-foreground)', fontSize: 12 }}
+                                    domain={[0, "dataMax"]}
+                                />
+                                <ChartTooltip
+                                    cursor={false}
+                                    content={<ChartTooltipContent indicator="dot" className="min-w-[200px] px-4 py-3" />}
+                                />
+                                <Line
+                                    yAxisId="tps"
+                                    dataKey="tps"
+                                    type="linear"
+                                    stroke="var(--color-tps)"
+                                    strokeWidth={2}
+                                    dot={false}
+                                    connectNulls
+                                />
+                                <Line
+                                    yAxisId="skipRate"
+                                    dataKey="skipRate"
+                                    type="linear"
+                                    stroke="var(--color-skipRate)"
+                                    strokeWidth={2}
+                                    dot={false}
+                                    connectNulls
+                                />
+                            </LineChart>
+                        </ChartContainer>
+                    ) : <Skeleton className="h-full w-full rounded-lg" />}
+                </div>
+            </StatCard>
+
             {/* Distribution Sections */}
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
                 <StatCard label="PERFORMANCE TIER DISTRIBUTION" icon={ZapIcon}>
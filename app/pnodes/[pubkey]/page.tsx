@@ -4,7 +4,7 @@ import { use, useMemo, useState, useEffect } from 'react';
 import Link from 'next/link';
 import DashboardPageLayout from "@/components/dashboard/layout";
 import ServerIcon from "@/components/icons/server";
-import { usePNodes, useCommissionHistory } from "@/hooks/use-pnode-data-query";
+import { usePNodes, useCommissionHistory, useNodeHistory, useCreditsAccrual } from "@/hooks/use-pnode-data-query";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Button } from "@/components/ui/button";
 import { ExportButton } from "@/components/dashboard/export-button";
@@ -33,6 +33,8 @@ import {
     ResponsiveContainer,
     AreaChart,
     Area,
+    ComposedChart,
+    Bar,
     CartesianGrid,
     XAxis,
     YAxis,
@@ -113,6 +115,10 @@ export default function NodeDetailPage({ params }: PageProps) {
         return nodes.find((n: PNode) => n.pubkey === pubkey);
     }, [nodes, pubkey]);
 
+    const { data: nodeHistory } = useNodeHistory(node?.id, '30d');
+    const { data: creditsAccrual } = useCreditsAccrual(node?.id, '7d');
+    const { data: commissionHistory } = useCommissionHistory(node?.staking ? node.id : undefined);
+
     const [mounted, setMounted] = useState(false);
     useEffect(() => {
         setMounted(true);
@@ -143,12 +149,21 @@ export default function NodeDetailPage({ params }: PageProps) {
 
 
     const latencyChartData = useMemo(() => {
-        if (!node?.history?.latencyHistory) return [];
-        return node.history.latencyHistory.map((value: number, i: number) => ({
-            time: `${i + 1}d`,
-            latency: value,
+        if (!nodeHistory?.dataPoints) return [];
+        return nodeHistory.dataPoints.map((point) => ({
+            time: new Date(point.timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric' }),
+            latency: point.latencyMs,
+        }));
+    }, [nodeHistory]);
+
+    const creditsChartData = useMemo(() => {
+        if (!creditsAccrual?.deltas) return [];
+        return creditsAccrual.deltas.map((point) => ({
+            time: new Date(point.timestamp).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit' }),
+            credits: point.credits,
+            delta: point.delta,
         }));
-    }, [node]);
+    }, [creditsAccrual]);
 
     if (isLoading && !nodes) {
         return (
@@ -242,6 +257,13 @@ export default function NodeDetailPage({ params }: PageProps) {
                         <div className="font-mono text-xs break-all text-muted-foreground opacity-80">
                             {node.pubkey}
                         </div>
+                        {node.status === 'degraded' && node.statusReasons && node.statusReasons.length > 0 && (
+                            <ul className="text-xs text-yellow-400 space-y-0.5">
+                                {node.statusReasons.map((reason: string) => (
+                                    <li key={reason}>• {reason}</li>
+                                ))}
+                            </ul>
+                        )}
                     </div>
                     <div className="flex items-center gap-6">
                         <div className="text-center">
@@ -270,7 +292,7 @@ export default function NodeDetailPage({ params }: PageProps) {
                 />
                 <StatCard
                     label="PEERS"
-                    value={node.gossip.peersConnected}
+                    value={node.gossip.peersConnected ?? 'N/A'}
                     icon={Users}
                     intent="neutral"
                 />
@@ -288,19 +310,19 @@ export default function NodeDetailPage({ params }: PageProps) {
                 />
                 <StatCard
                     label="USED"
-                    value={`${(node.metrics.storageUsedGB / 1000).toFixed(2)}TB`}
+                    value={node.metrics.storageUsedGB != null ? `${(node.metrics.storageUsedGB / 1000).toFixed(2)}TB` : 'N/A'}
                     icon={HardDrive}
                     intent="neutral"
                 />
                 <StatCard
                     label="CPU"
-                    value={`${node.metrics.cpuPercent.toFixed(0)}%`}
+                    value={node.metrics.cpuPercent != null ? `${node.metrics.cpuPercent.toFixed(0)}%` : 'N/A'}
                     icon={Cpu}
                     intent="neutral"
                 />
                 <StatCard
                     label="MEMORY"
-                    value={`${node.metrics.memoryPercent.toFixed(0)}%`}
+                    value={node.metrics.memoryPercent != null ? `${node.metrics.memoryPercent.toFixed(0)}%` : 'N/A'}
                     icon={Gauge}
                     intent="neutral"
                 />
@@ -379,6 +401,31 @@ export default function NodeDetailPage({ params }: PageProps) {
                             <div className="text-2xl font-display">{(node.staking.activatedStake / 1e9).toFixed(1)} SOL</div>
                         </div>
                     </div>
+                    <div className="space-y-2 mt-6">
+                        {node.staking.votePubkey && (
+                            <div className="flex justify-between items-center text-xs uppercase tracking-tight">
+                                <span className="text-muted-foreground">Vote Account</span>
+                                <span className="font-mono text-[10px] font-bold opacity-80">{node.staking.votePubkey}</span>
+                            </div>
+                        )}
+                        <div className="flex justify-between items-center text-xs uppercase tracking-tight">
+                            <span className="text-muted-foreground">Last Vote / Root Slot</span>
+                            <span className="font-mono font-bold">{node.staking.lastVote} / {node.staking.rootSlot}</span>
+                        </div>
+                        {commissionHistory && commissionHistory.history.some(h => h.change !== 0) && (
+                            <div className="pt-2 space-y-1">
+                                <p className="text-[10px] text-muted-foreground uppercase font-bold tracking-widest">Commission Changes</p>
+                                {commissionHistory.history.filter(h => h.change !== 0).map((h) => (
+                                    <div key={h.timestamp} className="flex justify-between items-center text-xs uppercase tracking-tight">
+                                        <span className="text-muted-foreground">{mounted ? new Date(h.timestamp).toLocaleString() : '---'}</span>
+                                        <span className={`font-mono font-bold ${h.change > 0 ? 'text-red-400' : 'text-green-400'}`}>
+                                            {h.commission - h.change}% → {h.commission}%
+                                        </span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
                 </StatCard>
             )}
 
@@ -418,25 +465,98 @@ export default function NodeDetailPage({ params }: PageProps) {
                 </StatCard>
             </div>
 
+            {/* Credits Accrual */}
+            <StatCard label="CREDITS ACCRUAL (7D)" icon={TrendingUp} className="mb-6">
+                <div className="flex flex-wrap items-center gap-6 text-xs uppercase tracking-tight md:mt-4">
+                    <div>
+                        <span className="text-muted-foreground">Earning Rate </span>
+                        <span className="font-mono font-bold text-primary">
+                            {creditsAccrual ? `${creditsAccrual.earningRatePerHour.toFixed(1)}/h` : '---'}
+                        </span>
+                    </div>
+                    <div>
+                        <span className="text-muted-foreground">Last Increase </span>
+                        <span className="font-mono font-bold">
+                            {mounted && creditsAccrual?.creditsIncreasedAt ? new Date(creditsAccrual.creditsIncreasedAt).toLocaleString() : '---'}
+                        </span>
+                    </div>
+                    {creditsAccrual?.stalled && (
+                        <span className="px-3 py-1 rounded-full bg-yellow-500/20 text-yellow-400 font-bold">
+                            Credits stalled
+                        </span>
+                    )}
+                </div>
+                <div className="h-[250px] mt-4 -mx-2">
+                    <ResponsiveContainer width="100%" height="100%">
+                        <ComposedChart data={creditsChartData}>
+                            <defs>
+                                <linearGradient id="creditsGradient" x1="0" y1="0" x2="0" y2="1">
+                                    <stop offset="5%" stopColor="hsl(var(--primary))" stopOpacity={0.3} />
+                                    <stop offset="95%" stopColor="hsl(var(--primary))" stopOpacity={0} />
+                                </linearGradient>
+                            </defs>
+                            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />
+                            <XAxis dataKey="time" tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 10 }} />
+                            <YAxis yAxisId="credits" tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 10 }} />
+                            <YAxis yAxisId="delta" orientation="right" tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 10 }} />
+                            <Tooltip
+                                contentStyle={{
+                                    backgroundColor: 'hsl(var(--popover))',
+                                    border: '1px solid hsl(var(--border))',
+                                    borderRadius: '8px',
+                                    fontSize: '12px',
+                                }}
+                                formatter={(value: any, name: any) => [
+                                    Number(value).toLocaleString(),
+                                    name === 'delta' ? 'Since previous run' : 'Credits',
+                                ]}
+                            />
+                            <Area
+                                yAxisId="credits"
+                                type="monotone"
+                                dataKey="credits"
+                                stroke="hsl(var(--primary))"
+                                fill="url(#creditsGradient)"
+                                strokeWidth={2}
+                            />
+                            <Bar yAxisId="delta" dataKey="delta" fill="var(--success)" opacity={0.6} />
+                        </ComposedChart>
+                    </ResponsiveContainer>
+                </div>
+                {creditsAccrual && creditsAccrual.epochs.length > 0 && (
+                    <div className="mt-4 space-y-1">
+                        <p className="text-[10px] text-muted-foreground uppercase font-bold tracking-widest">Credits per Epoch</p>
+                        {creditsAccrual.epochs.map((epoch) => (
+                            <div key={epoch.epoch} className="flex justify-between items-center text-xs uppercase tracking-tight">
+                                <span className="text-muted-foreground">Epoch {epoch.epoch}</span>
+                                <span className="font-mono font-bold">
+                                    {epoch.creditsEarned >= 0 ? '+' : ''}{mounted ? epoch.creditsEarned.toLocaleString() : epoch.creditsEarned}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </StatCard>
+
             {/* Gossip Stats */}
             <StatCard label="GOSSIP PROTOCOL STATISTICS" icon={Activity} className="mt-6">
                 <div className="grid grid-cols-3 gap-px bg-border/20 -mx-3 -mb-3 md:-mx-6 md:-mb-6 md:mt-4 overflow-hidden rounded-b-lg">
                     <div className="bg-card/40 p-4">
                         <p className="text-[10px] text-muted-foreground uppercase font-bold tracking-widest mb-1">Messages In</p>
                         <div className="text-2xl font-display text-purple-400">
-                            {(node.gossip.messagesReceived / 1000).toFixed(1)}K
+                            {node.gossip.messagesReceived != null ? `${(node.gossip.messagesReceived / 1000).toFixed(1)}K` : 'N/A'}
                         </div>
                     </div>
                     <div className="bg-card/40 p-4">
                         <p className="text-[10px] text-muted-foreground uppercase font-bold tracking-widest mb-1">Messages Out</p>
                         <div className="text-2xl font-display text-cyan-400">
-                            {(node.gossip.messagesSent / 1000).toFixed(1)}K
+                            {node.gossip.messagesSent != null ? `${(node.gossip.messagesSent / 1000).toFixed(1)}K` : 'N/A'}
                         </div>
                     </div>
                     <div className="bg-card/40 p-4">
                         <p className="text-[10px] text-muted-foreground uppercase font-bold tracking-widest mb-1">Peers Active</p>
                         <div className="text-2xl font-display text-green-400">
-                            {node.gossip.peersConnected}
+                            {node.gossip.peersConnected ?? 'N/A'}
                         </div>
                     </div>
                 </div>
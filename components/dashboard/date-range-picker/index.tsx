@@ -1,7 +1,7 @@
 'use client';
 
-import { useState } from 'react';
-import { format, subDays, subMonths, startOfDay, endOfDay } from 'date-fns';
+import { useState, useMemo, useCallback } from 'react';
+import { format, subDays, subHours, subMonths, startOfDay, endOfDay } from 'date-fns';
 import { Calendar as CalendarIcon, ChevronDown } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Calendar } from '@/components/ui/calendar';
@@ -11,13 +11,15 @@ import {
     PopoverTrigger,
 } from '@/components/ui/popover';
 import { cn } from '@/lib/utils';
+import { useURLState } from '@/hooks/use-url-state';
+import type { HistoryPeriod } from '@/types/pnode';
 import type { DateRange } from 'react-day-picker';
 
 // ============================================================
 // TYPE DEFINITIONS
 // ============================================================
 
-export type PresetRange = '24h' | '7d' | '30d' | '90d' | 'custom';
+export type PresetRange = HistoryPeriod;
 
 export interface DateRangeValue {
     from: Date;
@@ -36,6 +38,16 @@ interface DateRangePickerProps {
 // ============================================================
 
 const presets: Array<{ label: string; value: PresetRange; getRange: () => { from: Date; to: Date } }> = [
+    {
+        label: 'Last Hour',
+        value: '1h',
+        getRange: () => ({ from: subHours(new Date(), 1), to: new Date() }),
+    },
+    {
+        label: 'Last 6 Hours',
+        value: '6h',
+        getRange: () => ({ from: subHours(new Date(), 6), to: new Date() }),
+    },
     {
         label: 'Last 24 Hours',
         value: '24h',
@@ -181,7 +193,7 @@ export function DateRangePicker({
 // ============================================================
 
 export function getDefaultDateRange(preset: PresetRange = '7d'): DateRangeValue {
-    const presetConfig = presets.find(p => p.value === preset) || presets[1];
+    const presetConfig = presets.find(p => p.value === preset) || presets.find(p => p.value === '7d')!;
     const range = presetConfig.getRange();
     return {
         from: range.from,
@@ -189,3 +201,46 @@ export function getDefaultDateRange(preset: PresetRange = '7d'): DateRangeValue
         preset: presetConfig.value,
     };
 }
+
+// ============================================================
+// HOOK: Date range persisted in the URL (?range=7d or ?range=custom&from=...&to=...)
+// ============================================================
+
+export function useURLDateRange(defaultPreset: PresetRange = '24h'): [DateRangeValue, (value: DateRangeValue) => void] {
+    // useURLState re-parses whenever its initial state changes identity
+    const initialState = useMemo(() => ({ range: defaultPreset as string, from: '', to: '' }), [defaultPreset]);
+    const [params, setParams] = useURLState(initialState);
+
+    const value = useMemo((): DateRangeValue => {
+        if (params.range === 'custom') {
+            const from = new Date(params.from);
+            const to = new Date(params.to);
+            if (!isNaN(from.getTime()) && !isNaN(to.getTime()) && from < to) {
+                return { from, to, preset: 'custom' };
+            }
+        }
+        const known = presets.some(p => p.value === params.range);
+        return getDefaultDateRange(known ? params.range as PresetRange : defaultPreset);
+    }, [params.range, params.from, params.to, defaultPreset]);
+
+    const setValue = useCallback((next: DateRangeValue) => {
+        setParams(next.preset === 'custom'
+            ? { range: 'custom', from: next.from.toISOString(), to: next.to.toISOString() }
+            : { range: next.preset, from: '', to: '' });
+    }, [setParams]);
+
+    return [value, setValue];
+}
+
+// ============================================================
+// HELPER: Axis label for a history point, coarser for longer ranges
+// ============================================================
+
+export function formatRangeTick(timestamp: string, range: DateRangeValue): string {
+    const spanMs = range.to.getTime() - range.from.getTime();
+    const date = new Date(timestamp);
+
+    if (spanMs <= 24 * 60 * 60 * 1000) return format(date, 'HH:mm');
+    if (spanMs <= 7 * 24 * 60 * 60 * 1000) return format(date, 'MMM d HH:mm');
+    return format(date, 'MMM d');
+}
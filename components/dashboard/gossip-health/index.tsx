@@ -1,8 +1,9 @@
 'use client';
 
 import React from 'react';
+import Link from 'next/link';
 
-import type { GossipHealth, StorageDistribution } from '@/types/pnode';
+import type { GossipHealth, GossipDivergence, StorageDistribution } from '@/types/pnode';
 import { cn } from '@/lib/utils';
 import { StatCard } from '@/components/dashboard/stat-card';
 import { Bullet } from '@/components/ui/bullet';
@@ -24,7 +25,7 @@ export function GossipHealthPanel({ health }: GossipHealthProps) {
         {/* Total Peers */}
         <div className="bg-card/40 p-4">
           <p className="text-[10px] text-muted-foreground uppercase font-bold tracking-widest mb-1">Total Peers</p>
-          <div className="text-2xl font-display">{mounted ? health.totalPeers.toLocaleString() : '---'}</div>
+          <div className="text-2xl font-display">{mounted && health.totalPeers !== null ? health.totalPeers.toLocaleString() : '---'}</div>
           <p className="text-[10px] text-muted-foreground uppercase tracking-tight mt-1 flex items-center gap-1">
             <Bullet variant="default" className="size-1.5" />
             Connections
@@ -34,7 +35,7 @@ export function GossipHealthPanel({ health }: GossipHealthProps) {
         {/* Avg Peers/Node */}
         <div className="bg-card/40 p-4">
           <p className="text-[10px] text-muted-foreground uppercase font-bold tracking-widest mb-1">Avg Peers/Node</p>
-          <div className="text-2xl font-display">{health.avgPeersPerNode.toFixed(1)}</div>
+          <div className="text-2xl font-display">{health.avgPeersPerNode !== null ? health.avgPeersPerNode.toFixed(1) : '---'}</div>
           <p className="text-[10px] text-muted-foreground uppercase tracking-tight mt-1 flex items-center gap-1">
             <Bullet variant="default" className="size-1.5" />
             Per Node
@@ -44,7 +45,7 @@ export function GossipHealthPanel({ health }: GossipHealthProps) {
         {/* Message Rate */}
         <div className="bg-card/40 p-4">
           <p className="text-[10px] text-muted-foreground uppercase font-bold tracking-widest mb-1">Message Rate</p>
-          <div className="text-2xl font-display">{mounted ? health.messageRate.toLocaleString() : '---'}/s</div>
+          <div className="text-2xl font-display">{mounted && health.messageRate !== null ? health.messageRate.toLocaleString() : '---'}/s</div>
           <p className="text-[10px] text-muted-foreground uppercase tracking-tight mt-1 flex items-center gap-1">
             <Bullet variant="default" className="size-1.5" />
             Msgs/sec
@@ -77,6 +78,70 @@ interface GossipHealthProps {
   health: GossipHealth;
 }
 
+interface GossipDivergenceProps {
+  divergence: GossipDivergence | null;
+}
+
+export function GossipDivergencePanel({ divergence }: GossipDivergenceProps) {
+  if (!divergence) {
+    return (
+      <StatCard label="SEED VIEW DIVERGENCE" icon={ActivityIcon}>
+        <p className="text-xs text-muted-foreground md:mt-4">
+          Only one pRPC seed is queried per ingestion. Set PRPC_MERGE_SEEDS above 1 to compare seed views.
+        </p>
+      </StatCard>
+    );
+  }
+
+  const seedCount = divergence.seeds.length;
+
+  return (
+    <StatCard label="SEED VIEW DIVERGENCE" icon={ActivityIcon}>
+      <div className="grid grid-cols-3 gap-px bg-border/20 -mx-3 md:-mx-6 md:mt-4 overflow-hidden">
+        <div className="bg-card/40 p-4">
+          <p className="text-[10px] text-muted-foreground uppercase font-bold tracking-widest mb-1">Seeds</p>
+          <div className="text-2xl font-display">{seedCount}</div>
+        </div>
+        <div className="bg-card/40 p-4">
+          <p className="text-[10px] text-muted-foreground uppercase font-bold tracking-widest mb-1">Partially Seen</p>
+          <div className={cn("text-2xl font-display", divergence.partialCount > 0 && "text-yellow-500")}>
+            {divergence.partialCount}
+          </div>
+        </div>
+        <div className="bg-card/40 p-4">
+          <p className="text-[10px] text-muted-foreground uppercase font-bold tracking-widest mb-1">Max Skew</p>
+          <div className="text-2xl font-display">{divergence.maxSkewSec}s</div>
+        </div>
+      </div>
+
+      {divergence.nodes.length === 0 ? (
+        <p className="text-[10px] text-muted-foreground uppercase tracking-widest font-bold mt-4">
+          All {seedCount} seeds agree on the pod set
+        </p>
+      ) : (
+        <div className="space-y-2 mt-4">
+          {divergence.nodes.slice(0, 8).map(node => (
+            <div key={node.pubkey} className="flex items-center justify-between gap-3 text-[10px] font-mono">
+              <Link href={`/pnodes/${node.pubkey}`} className="truncate hover:text-primary">
+                {node.pubkey.slice(0, 12)}...
+              </Link>
+              <span
+                className={cn("uppercase shrink-0", node.missingFrom.length > 0 ? "text-yellow-500" : "text-muted-foreground")}
+                title={node.missingFrom.length > 0 ? `Missing from ${node.missingFrom.join(', ')}` : undefined}
+              >
+                {node.seenBy.length}/{seedCount} seeds · {node.lastSeenSkewSec}s skew
+              </span>
+            </div>
+          ))}
+          {divergence.nodes.length > 8 && (
+            <p className="text-[10px] text-muted-foreground uppercase">+{divergence.nodes.length - 8} more</p>
+          )}
+        </div>
+      )}
+    </StatCard>
+  );
+}
+
 interface StorageDistributionProps {
   distribution: StorageDistribution[];
 }
@@ -2,6 +2,7 @@
 
 import type { PNode } from '@/types/pnode';
 import { cn } from '@/lib/utils';
+import { isActiveNode } from '@/lib/pnode-utils-client';
 
 interface LeaderboardProps {
   nodes: PNode[];
@@ -10,7 +11,7 @@ interface LeaderboardProps {
 
 export function PerformanceLeaderboard({ nodes, onNodeSelect }: LeaderboardProps) {
   const sortedNodes = [...nodes]
-    .filter(n => n.status === 'online')
+    .filter(isActiveNode)
     .sort((a, b) => b.performance.score - a.performance.score)
     .slice(0, 10);
 
@@ -90,12 +91,14 @@ export function PerformanceLeaderboard({ nodes, onNodeSelect }: LeaderboardProps
 }
 
 export function MetricsComparison({ nodes }: { nodes: PNode[] }) {
-  const onlineNodes = nodes.filter(n => n.status === 'online');
+  const onlineNodes = nodes.filter(isActiveNode);
   
   const avgScore = onlineNodes.reduce((acc, n) => acc + n.performance.score, 0) / onlineNodes.length;
   const avgUptime = onlineNodes.reduce((acc, n) => acc + n.uptime, 0) / onlineNodes.length;
   const avgLatency = onlineNodes.reduce((acc, n) => acc + n.metrics.responseTimeMs, 0) / onlineNodes.length;
-  const avgCpu = onlineNodes.reduce((acc, n) => acc + n.metrics.cpuPercent, 0) / onlineNodes.length;
+  // CPU is only known for nodes whose pRPC stats could be read
+  const nodesWithCpu = onlineNodes.filter(n => n.metrics.cpuPercent !== null);
+  const avgCpu = nodesWithCpu.reduce((acc, n) => acc + (n.metrics.cpuPercent || 0), 0) / nodesWithCpu.length;
   
   const topNodes = [...onlineNodes].sort((a, b) => b.performance.score - a.performance.score).slice(0, 10);
   const topAvgScore = topNodes.reduce((acc, n) => acc + n.performance.score, 0) / topNodes.length;
@@ -105,7 +108,7 @@ export function MetricsComparison({ nodes }: { nodes: PNode[] }) {
     { label: 'Network Avg Score', value: avgScore.toFixed(1), benchmark: topAvgScore.toFixed(1), unit: '' },
     { label: 'Network Avg Uptime', value: avgUptime.toFixed(1), benchmark: '99.5', unit: '%' },
     { label: 'Network Avg Latency', value: avgLatency.toFixed(0), benchmark: topAvgLatency.toFixed(0), unit: 'ms' },
-    { label: 'Network Avg CPU', value: avgCpu.toFixed(1), benchmark: '40.0', unit: '%' },
+    ...(nodesWithCpu.length > 0 ? [{ label: 'Network Avg CPU', value: avgCpu.toFixed(1), benchmark: '40.0', unit: '%' }] : []),
   ];
 
   return (
@@ -2,6 +2,7 @@
 
 import { useEffect, useRef } from 'react';
 import type { PNode } from '@/types/pnode';
+import { isActiveNode } from '@/lib/pnode-utils-client';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
 
@@ -39,7 +40,7 @@ export function MapContent({ nodes }: MapContentProps) {
         }).addTo(map);
 
         // Add node markers
-        const onlineNodes = nodes.filter(node => node.status === 'online' && node.location);
+        const onlineNodes = nodes.filter(node => isActiveNode(node) && node.location);
 
         onlineNodes.forEach(node => {
             if (!node.location) return;
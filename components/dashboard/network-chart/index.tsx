@@ -1,7 +1,7 @@
 "use client";
 
 import * as React from "react";
-import { XAxis, YAxis, CartesianGrid, Area, AreaChart } from "recharts";
+import { XAxis, YAxis, CartesianGrid, Area, AreaChart, type DotItemDotProps } from "recharts";
 
 import {
   ChartConfig,
@@ -9,11 +9,9 @@ import {
   ChartTooltip,
   ChartTooltipContent,
 } from "@/components/ui/chart";
-import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Bullet } from "@/components/ui/bullet";
-import type { PerformanceHistory } from "@/types/pnode";
-
-type TimePeriod = "1h" | "6h" | "24h";
+import { DateRangePicker, formatRangeTick, type DateRangeValue } from "@/components/dashboard/date-range-picker";
+import type { Anomaly, PerformanceHistory } from "@/types/pnode";
 
 const chartConfig = {
   nodes: {
@@ -30,39 +28,54 @@ const chartConfig = {
   },
 } satisfies ChartConfig;
 
+type ChartSeries = keyof typeof chartConfig;
+
+// Series each network-wide anomaly metric is marked on
+const ANOMALY_SERIES: Partial<Record<Anomaly['metric'], ChartSeries>> = {
+  online_nodes: "nodes",
+  avg_response_time: "latency",
+  total_storage_used_tb: "storage",
+};
+
+// Dot renderer marking the points of a series that had an anomaly in their bucket
+function anomalyDot(series: ChartSeries) {
+  return function AnomalyDot({ cx, cy, index, payload }: DotItemDotProps) {
+    if (cx == null || cy == null || !payload.anomalous.includes(series)) return null;
+    return (
+      <circle
+        key={index}
+        cx={cx}
+        cy={cy}
+        r={5}
+        fill="var(--destructive)"
+        stroke="var(--background)"
+        strokeWidth={2}
+      />
+    );
+  };
+}
+
 interface NetworkChartProps {
   data: PerformanceHistory[];
+  // Range the data was fetched for; shows a range picker when onRangeChange is set
+  range: DateRangeValue;
+  onRangeChange?: (range: DateRangeValue) => void;
 }
 
-export function NetworkChart({ data }: NetworkChartProps) {
-  const [activeTab, setActiveTab] = React.useState<TimePeriod>("24h");
+export function NetworkChart({ data, range, onRangeChange }: NetworkChartProps) {
   const [mounted, setMounted] = React.useState(false);
 
   React.useEffect(() => {
     setMounted(true);
   }, []);
 
-  const handleTabChange = (value: string) => {
-    if (value === "1h" || value === "6h" || value === "24h") {
-      setActiveTab(value as TimePeriod);
-    }
-  };
-
-  // Filter data based on time period
-  const getFilteredData = (period: TimePeriod) => {
-    const now = Date.now();
-    const hours = period === "1h" ? 1 : period === "6h" ? 6 : 24;
-    const cutoff = now - hours * 60 * 60 * 1000;
-
-    return data
-      .filter(item => new Date(item.timestamp).getTime() > cutoff)
-      .map(item => ({
-        date: mounted ? new Date(item.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : '',
-        nodes: item.onlineNodes,
-        latency: item.avgResponseTime,
-        storage: item.storageUsedTB,
-      }));
-  };
+  const chartData = data.map(item => ({
+    date: mounted ? formatRangeTick(item.timestamp, range) : '',
+    nodes: item.onlineNodes,
+    latency: item.avgResponseTime,
+    storage: item.storageUsedTB,
+    anomalous: item.anomalies.map(a => ANOMALY_SERIES[a.metric]).filter(Boolean),
+  }));
 
   const formatYAxisValue = (value: number) => {
     if (value === 0) return "";
@@ -70,8 +83,19 @@ export function NetworkChart({ data }: NetworkChartProps) {
     return value.toString();
   };
 
-  const renderChart = (chartData: ReturnType<typeof getFilteredData>) => {
-    return (
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between max-md:flex-col max-md:items-start gap-4">
+        {onRangeChange ? <DateRangePicker value={range} onChange={onRangeChange} /> : <span />}
+        <div className="flex items-center gap-6">
+          {Object.entries(chartConfig).map(([key, value]) => (
+            <ChartLegend key={key} label={value.label} color={value.color} />
+          ))}
+          {chartData.some(item => item.anomalous.length > 0) && (
+            <ChartLegend label="Anomaly" color="var(--destructive)" />
+          )}
+        </div>
+      </div>
       <div className="bg-accent rounded-lg p-3">
         <ChartContainer className="md:aspect-[3/1] w-full" config={chartConfig}>
           <AreaChart
@@ -160,7 +184,7 @@ export function NetworkChart({ data }: NetworkChartProps) {
               fill="none"
               stroke="var(--color-nodes)"
               strokeWidth={2}
-              dot={false}
+              dot={anomalyDot("nodes")}
               activeDot={{ r: 4 }}
             />
             <Area
@@ -169,7 +193,7 @@ export function NetworkChart({ data }: NetworkChartProps) {
               fill="none"
               stroke="var(--color-latency)"
               strokeWidth={2}
-              dot={false}
+              dot={anomalyDot("latency")}
               activeDot={{ r: 4 }}
             />
             <Area
@@ -178,43 +202,13 @@ export function NetworkChart({ data }: NetworkChartProps) {
               fill="none"
               stroke="var(--color-storage)"
               strokeWidth={2}
-              dot={false}
+              dot={anomalyDot("storage")}
               activeDot={{ r: 4 }}
             />
           </AreaChart>
         </ChartContainer>
       </div>
-    );
-  };
-
-  return (
-    <Tabs
-      value={activeTab}
-      onValueChange={handleTabChange}
-      className="max-md:gap-4"
-    >
-      <div className="flex items-center justify-between mb-4 max-md:contents">
-        <TabsList className="max-md:w-full">
-          <TabsTrigger value="1h">1H</TabsTrigger>
-          <TabsTrigger value="6h">6H</TabsTrigger>
-          <TabsTrigger value="24h">24H</TabsTrigger>
-        </TabsList>
-        <div className="flex items-center gap-6 max-md:order-1">
-          {Object.entries(chartConfig).map(([key, value]) => (
-            <ChartLegend key={key} label={value.label} color={value.color} />
-          ))}
-        </div>
-      </div>
-      <TabsContent value="1h" className="space-y-4">
-        {renderChart(getFilteredData("1h"))}
-      </TabsContent>
-      <TabsContent value="6h" className="space-y-4">
-        {renderChart(getFilteredData("6h"))}
-      </TabsContent>
-      <TabsContent value="24h" className="space-y-4">
-        {renderChart(getFilteredData("24h"))}
-      </TabsContent>
-    </Tabs>
+    </div>
   );
 }
 
@@ -2,6 +2,7 @@
 
 import { useMemo, useEffect, useState } from 'react';
 import type { PNode } from '@/types/pnode';
+import { isActiveNode } from '@/lib/pnode-utils-client';
 
 interface NetworkGraphProps {
   nodes: PNode[];
@@ -40,7 +41,7 @@ export function NetworkGraph({ nodes }: NetworkGraphProps) {
 
     const conns: { from: { x: number; y: number }; to: { x: number; y: number }; strength: number }[] = [];
     
-    const onlineNodes = positions.filter(p => p.node.status === 'online');
+    const onlineNodes = positions.filter(p => isActiveNode(p.node));
     for (let i = 0; i < Math.min(onlineNodes.length, 50); i++) {
       const from = onlineNodes[i];
       const nearestCount = Math.min(3, onlineNodes.length - 1);
@@ -100,11 +100,11 @@ export function PNodeDetail({ node, open, onClose }: PNodeDetailProps) {
               />
               <MetricCard
                 label="CPU Usage"
-                value={`${node.metrics.cpuPercent.toFixed(1)}%`}
+                value={node.metrics.cpuPercent !== null ? `${node.metrics.cpuPercent.toFixed(1)}%` : 'Unknown'}
               />
               <MetricCard
                 label="Memory"
-                value={`${node.metrics.memoryPercent.toFixed(1)}%`}
+                value={node.metrics.memoryPercent !== null ? `${node.metrics.memoryPercent.toFixed(1)}%` : 'Unknown'}
               />
             </div>
           </div>
@@ -113,17 +113,19 @@ export function PNodeDetail({ node, open, onClose }: PNodeDetailProps) {
             <div className="text-xs text-muted-foreground uppercase tracking-wider mb-3">Storage</div>
             <div className="bg-accent/30 rounded-lg p-4">
               <div className="flex justify-between text-sm mb-2">
-                <span>{node.metrics.storageUsedGB.toFixed(0)} GB used</span>
+                <span>{node.metrics.storageUsedGB !== null ? `${node.metrics.storageUsedGB.toFixed(0)} GB used` : 'Usage unknown'}</span>
                 <span>{node.metrics.storageCapacityGB} GB total</span>
               </div>
               <div className="h-3 bg-accent rounded-full overflow-hidden">
                 <div
                   className="h-full bg-gradient-to-r from-primary to-primary/70 rounded-full transition-all"
-                  style={{ width: `${(node.metrics.storageUsedGB / node.metrics.storageCapacityGB) * 100}%` }}
+                  style={{ width: `${((node.metrics.storageUsedGB || 0) / node.metrics.storageCapacityGB) * 100}%` }}
                 />
               </div>
               <div className="text-xs text-muted-foreground mt-2">
-                {((node.metrics.storageUsedGB / node.metrics.storageCapacityGB) * 100).toFixed(1)}% utilized
+                {node.metrics.storageUsedGB !== null
+                  ? `${((node.metrics.storageUsedGB / node.metrics.storageCapacityGB) * 100).toFixed(1)}% utilized`
+                  : 'Utilization unknown'}
               </div>
             </div>
           </div>
@@ -133,15 +135,15 @@ export function PNodeDetail({ node, open, onClose }: PNodeDetailProps) {
             <div className="grid grid-cols-3 gap-3">
               <MetricCard
                 label="Peers Connected"
-                value={node.gossip.peersConnected.toString()}
+                value={node.gossip.peersConnected !== null ? node.gossip.peersConnected.toString() : 'Unknown'}
               />
               <MetricCard
                 label="Messages Received"
-                value={mounted ? node.gossip.messagesReceived.toLocaleString() : '---'}
+                value={!mounted ? '---' : node.gossip.messagesReceived !== null ? node.gossip.messagesReceived.toLocaleString() : 'Unknown'}
               />
               <MetricCard
                 label="Messages Sent"
-                value={mounted ? node.gossip.messagesSent.toLocaleString() : '---'}
+                value={!mounted ? '---' : node.gossip.messagesSent !== null ? node.gossip.messagesSent.toLocaleString() : 'Unknown'}
               />
             </div>
           </div>
@@ -51,8 +51,8 @@ export function PNodeTable({ nodes, onNodeSelect }: PNodeTableProps) {
           comparison = a.metrics.responseTimeMs - b.metrics.responseTimeMs;
           break;
         case 'storage':
-          comparison = (a.metrics.storageUsedGB / a.metrics.storageCapacityGB) -
-            (b.metrics.storageUsedGB / b.metrics.storageCapacityGB);
+          comparison = ((a.metrics.storageUsedGB || 0) / a.metrics.storageCapacityGB) -
+            ((b.metrics.storageUsedGB || 0) / b.metrics.storageCapacityGB);
           break;
         case 'location':
           comparison = (a.location?.country || '').localeCompare(b.location?.country || '');
@@ -213,18 +213,18 @@ export function PNodeTable({ nodes, onNodeSelect }: PNodeTableProps) {
                 <td className="px-3 py-3">
                   <div className="flex flex-col">
                     <span className="text-xs font-mono">
-                      {node.metrics.storageUsedGB.toFixed(0)}/{node.metrics.storageCapacityGB}GB
+                      {node.metrics.storageUsedGB !== null ? node.metrics.storageUsedGB.toFixed(0) : '?'}/{node.metrics.storageCapacityGB}GB
                     </span>
                     <div className="w-16 h-1 bg-accent rounded-full overflow-hidden mt-1">
                       <div
                         className="h-full bg-primary rounded-full"
-                        style={{ width: `${(node.metrics.storageUsedGB / node.metrics.storageCapacityGB) * 100}%` }}
+                        style={{ width: `${((node.metrics.storageUsedGB || 0) / node.metrics.storageCapacityGB) * 100}%` }}
                       />
                     </div>
                   </div>
                 </td>
                 <td className="px-3 py-3">
-                  <span className="text-xs font-mono">{node.gossip.peersConnected}</span>
+                  <span className="text-xs font-mono">{node.gossip.peersConnected ?? '—'}</span>
                 </td>
               </tr>
             ))}
@@ -0,0 +1,237 @@
+'use client';
+
+import React from 'react';
+
+import type {
+  ScoringProfile, HealthScoreBreakdown, HealthScoreWeights, XScore, XScoreWeights, XScoreMultipliers
+} from '@/types/pnode';
+import {
+  CUSTOM_SCORING_PROFILE_ID,
+  computeHealthOverall,
+  computeXScore,
+  getHealthGrade,
+  normalizeWeights,
+  saveScoringProfile,
+} from '@/lib/scoring';
+import { cn } from '@/lib/utils';
+import { StatCard } from '@/components/dashboard/stat-card';
+import { Slider } from '@/components/ui/slider';
+
+// Icons
+import GearIcon from "@/components/icons/gear";
+
+const HEALTH_WEIGHT_LABELS: Record<keyof HealthScoreWeights, string> = {
+  onlineRate: 'Online Rate',
+  performance: 'Avg Performance',
+  storage: 'Storage Health',
+  versionConsistency: 'Version Consistency',
+  responseTime: 'Response Time',
+};
+
+const XSCORE_WEIGHT_LABELS: Record<keyof XScoreWeights, string> = {
+  storageThroughput: 'Storage Throughput',
+  dataAvailabilityLatency: 'Data Availability',
+  uptime: 'Uptime',
+  gossipHealth: 'Gossip Health',
+  peerConnectivity: 'Peer Connectivity',
+};
+
+const MULTIPLIER_LABELS: Record<keyof XScoreMultipliers, string> = {
+  storageUtilization: 'Storage × utilization %',
+  latencyPenaltyPerMs: 'Latency penalty / ms',
+  gossipPerPeer: 'Gossip pts / peer',
+  connectivityPerPeer: 'Connectivity pts / peer',
+};
+
+interface ScoringProfileEditorProps {
+  profiles: ScoringProfile[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+  onSaved: (profile: ScoringProfile) => void;
+  breakdown?: HealthScoreBreakdown;
+  xScore?: XScore;
+}
+
+function WeightSliders<T extends HealthScoreWeights | XScoreWeights>({
+  title, weights, labels, onChange,
+}: {
+  title: string;
+  weights: T;
+  labels: Record<keyof T, string>;
+  onChange: (weights: T) => void;
+}) {
+  const normalized = normalizeWeights(weights);
+  const keys = Object.keys(labels) as (keyof T & string)[];
+
+  return (
+    <div className="space-y-3">
+      <p className="text-[10px] text-muted-foreground uppercase font-bold tracking-widest">{title}</p>
+      {keys.map(key => (
+        <div key={key} className="space-y-1">
+          <div className="flex justify-between text-xs uppercase tracking-tight">
+            <span className="text-muted-foreground">{labels[key]}</span>
+            <span className="font-mono">{((normalized[key] as number) * 100).toFixed(0)}%</span>
+          </div>
+          <Slider
+            value={[Math.round((weights[key] as number) * 100)]}
+            min={0}
+            max={100}
+            step={1}
+            onValueChange={([value]) => onChange({ ...weights, [key]: value / 100 })}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function PreviewValue({ label, current, preview, grade }: { label: string; current: number; preview: number; grade: string }) {
+  const delta = preview - current;
+  return (
+    <div className="bg-card/40 p-4">
+      <p className="text-[10px] text-muted-foreground uppercase font-bold tracking-widest mb-1">{label}</p>
+      <div className="text-2xl font-display">
+        {preview.toFixed(1)} <span className="text-sm text-primary">{grade}</span>
+      </div>
+      <p className={cn(
+        "text-[10px] uppercase tracking-tight mt-1 font-mono",
+        Math.abs(delta) < 0.05 ? 'text-muted-foreground' : delta > 0 ? 'text-green-400' : 'text-red-400'
+      )}>
+        {delta >= 0 ? '+' : ''}{delta.toFixed(1)} vs {current.toFixed(1)}
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Pick a scoring profile and tune its weights. The preview re-scores the current
+ * factor scores and XScore inputs locally; saving writes the draft to the custom profile.
+ */
+export function ScoringProfileEditor({ profiles, selectedId, onSelect, onSaved, breakdown, xScore }: ScoringProfileEditorProps) {
+  const selected = profiles.find(p => p.id === selectedId) ?? profiles[0];
+  const [draft, setDraft] = React.useState<ScoringProfile | undefined>(selected);
+  const [saving, setSaving] = React.useState(false);
+  const [saveError, setSaveError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    setDraft(selected);
+  }, [selected]);
+
+  if (!draft) return null;
+
+  const factorScores = Object.fromEntries(
+    (breakdown?.factors || []).map(f => [f.id, f.score])
+  ) as Record<keyof HealthScoreWeights, number>;
+  const previewHealth = computeHealthOverall(factorScores, draft.healthWeights);
+  const previewXScore = xScore?.inputs ? computeXScore(xScore.inputs, draft) : null;
+  const dirty = JSON.stringify(draft) !== JSON.stringify(selected);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setSaveError(null);
+    try {
+      const saved = await saveScoringProfile({
+        ...draft,
+        id: CUSTOM_SCORING_PROFILE_ID,
+        name: 'Custom',
+        description: `Based on ${selected?.name ?? 'Default'}`,
+        builtIn: false,
+      });
+      onSaved(saved);
+    } catch (err) {
+      console.error('Error saving scoring profile:', err);
+      setSaveError(err instanceof Error ? err.message : 'Failed to save profile');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <StatCard label="SCORING PROFILE" icon={GearIcon} className="mb-6">
+      <div className="space-y-6 md:mt-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={selectedId}
+            onChange={(e) => onSelect(e.target.value)}
+            className="px-3 py-2 rounded-lg bg-accent/20 border border-border text-sm"
+          >
+            {profiles.map(p => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+          {draft.description && (
+            <span className="text-xs text-muted-foreground italic">{draft.description}</span>
+          )}
+          <div className="flex-1" />
+          <button
+            onClick={() => setDraft(selected)}
+            disabled={!dirty}
+            className="px-4 py-2 rounded-lg border border-border text-sm disabled:opacity-50"
+          >
+            Reset
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving || !dirty}
+            className="px-4 py-2 rounded-lg bg-primary text-primary-foreground text-sm disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save as Custom'}
+          </button>
+        </div>
+
+        {saveError && (
+          <div className="text-sm p-3 rounded-lg bg-red-500/20 text-red-400">{saveError}</div>
+        )}
+
+        <div className="grid grid-cols-2 gap-px bg-border/20 rounded-lg overflow-hidden">
+          <PreviewValue
+            label="Health Score Preview"
+            current={breakdown?.overall ?? 0}
+            preview={previewHealth}
+            grade={getHealthGrade(previewHealth)}
+          />
+          <PreviewValue
+            label="XScore Preview"
+            current={xScore?.overall ?? 0}
+            preview={previewXScore?.overall ?? xScore?.overall ?? 0}
+            grade={previewXScore?.grade ?? xScore?.grade ?? 'F'}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <WeightSliders
+            title="Health Weights"
+            weights={draft.healthWeights}
+            labels={HEALTH_WEIGHT_LABELS}
+            onChange={(healthWeights) => setDraft({ ...draft, healthWeights })}
+          />
+          <WeightSliders
+            title="XScore Weights"
+            weights={draft.xScoreWeights}
+            labels={XSCORE_WEIGHT_LABELS}
+            onChange={(xScoreWeights) => setDraft({ ...draft, xScoreWeights })}
+          />
+          <div className="space-y-3">
+            <p className="text-[10px] text-muted-foreground uppercase font-bold tracking-widest">XScore Multipliers</p>
+            {(Object.keys(MULTIPLIER_LABELS) as (keyof XScoreMultipliers)[]).map(key => (
+              <label key={key} className="flex items-center justify-between gap-2 text-xs uppercase tracking-tight text-muted-foreground">
+                {MULTIPLIER_LABELS[key]}
+                <input
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  value={draft.xScoreMultipliers[key]}
+                  onChange={(e) => setDraft({
+                    ...draft,
+                    xScoreMultipliers: { ...draft.xScoreMultipliers, [key]: Math.max(0, Number(e.target.value) || 0) },
+                  })}
+                  className="w-20 px-1 py-0.5 rounded bg-accent/20 border border-border font-mono text-foreground"
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+      </div>
+    </StatCard>
+  );
+}
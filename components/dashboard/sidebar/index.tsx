@@ -32,6 +32,7 @@ import ChartIcon from "@/components/icons/chart";
 import GearIcon from "@/components/icons/gear";
 import XandeumLogo from "@/components/icons/xandeum-logo";
 import DotsVerticalIcon from "@/components/icons/dots-vertical";
+import PipelineIcon from "@/components/icons/pipeline";
 import { Bullet } from "@/components/ui/bullet";
 import { ConnectionStatus } from "@/components/dashboard/connection-status";
 import { WalletProfile } from "@/components/dashboard/wallet-profile";
@@ -142,6 +143,11 @@ const data = {
           url: "/alerts",
           icon: BellIcon,
         },
+        {
+          title: "Pipeline",
+          url: "/admin/pipeline",
+          icon: PipelineIcon,
+        },
       ],
     },
   ],
@@ -0,0 +1,24 @@
+import { cn } from "@/lib/utils";
+
+interface PipelineIconProps {
+  className?: string;
+}
+
+export default function PipelineIcon({ className }: PipelineIconProps) {
+  return (
+    <svg
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      className={cn("size-5", className)}
+    >
+      <rect x="2" y="3" width="6" height="6" rx="1" />
+      <rect x="16" y="3" width="6" height="6" rx="1" />
+      <rect x="9" y="15" width="6" height="6" rx="1" />
+      <path d="M8 6h8M5 9v3a3 3 0 0 0 3 3h1M19 9v3a3 3 0 0 1-3 3h-1" />
+    </svg>
+  );
+}
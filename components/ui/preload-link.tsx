@@ -23,23 +23,27 @@ const ROUTE_PREFETCHERS: Record<string, { queryKey: string[]; fetcher: () => Pro
     ],
     '/performance': [
         { queryKey: ['pnodes'], fetcher: () => fetch('/api/pnode-data?type=cluster-nodes').then(r => r.json()) },
-        { queryKey: ['performance-history', '24h'], fetcher: () => fetch('/api/pnode-data?type=performance-history&period=24h').then(r => r.json()) },
+        { queryKey: ['performance-history', 'period=24h'], fetcher: () => fetch('/api/pnode-data?type=performance-history&period=24h').then(r => r.json()) },
     ],
     '/health': [
-        { queryKey: ['health-score-breakdown'], fetcher: () => fetch('/api/pnode-data?type=health-score-breakdown').then(r => r.json()) },
+        { queryKey: ['health-score-breakdown', 'default'], fetcher: () => fetch('/api/pnode-data?type=health-score-breakdown&profile=default').then(r => r.json()) },
         { queryKey: ['network-stats'], fetcher: () => fetch('/api/pnode-data?type=network-stats').then(r => r.json()) },
         { queryKey: ['pnodes'], fetcher: () => fetch('/api/pnode-data?type=cluster-nodes').then(r => r.json()) },
     ],
     '/network': [
         { queryKey: ['pnodes'], fetcher: () => fetch('/api/pnode-data?type=cluster-nodes').then(r => r.json()) },
         { queryKey: ['gossip-health'], fetcher: () => fetch('/api/pnode-data?type=gossip-health').then(r => r.json()) },
+        { queryKey: ['gossip-divergence'], fetcher: () => fetch('/api/pnode-data?type=gossip-divergence').then(r => r.json()) },
         { queryKey: ['storage-distribution'], fetcher: () => fetch('/api/pnode-data?type=storage-distribution').then(r => r.json()) },
     ],
     '/decentralization': [
-        { queryKey: ['decentralization-metrics'], fetcher: () => fetch('/api/pnode-data?type=decentralization-metrics').then(r => r.json()) },
+        { queryKey: ['decentralization-metrics', 'pubkey'], fetcher: () => fetch('/api/pnode-data?type=decentralization-metrics&grouping=pubkey').then(r => r.json()) },
         { queryKey: ['pnodes'], fetcher: () => fetch('/api/pnode-data?type=cluster-nodes').then(r => r.json()) },
     ],
     '/alerts': [], // Alerts page uses local storage, no prefetch needed
+    '/admin/pipeline': [
+        { queryKey: ['ingestion-runs'], fetcher: () => fetch('/api/pnode-data?type=ingestion-runs').then(r => r.json()) },
+    ],
 };
 
 type PreloadLinkProps = ComponentProps<typeof NextLink>;
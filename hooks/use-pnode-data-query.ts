@@ -1,5 +1,5 @@
 import { useQuery, useQueryClient } from '@tanstack/react-query';
-import { PNode, NetworkStats, PerformanceHistory, GossipHealth, GossipEvent, StorageDistribution, EpochInfo, EpochHistory, StakingStats, DecentralizationMetrics, VersionInfo, HealthScoreBreakdown, TrendData, ExabyteProjection, CommissionHistory, PeerRanking, SuperminorityInfo, CensorshipResistanceScore, XScore } from '@/types/pnode';
+import { PNode, NetworkStats, PerformanceHistory, GossipHealth, GossipDivergence, GossipEvent, StorageDistribution, EpochInfo, EpochHistory, StakingStats, DecentralizationMetrics, VersionInfo, HealthScoreBreakdown, TrendData, ExabyteProjection, CommissionHistory, PeerRanking, SuperminorityInfo, CensorshipResistanceScore, XScore, NodeHistory, IngestionRun, SeedHealth, EntityGrouping, ScoringProfile, CreditsAccrual, CreditsStall, HistoryPeriod, HistoryRange, ForecastTimeframe, MetricForecast } from '@/types/pnode';
 import React, { useEffect, useState } from 'react';
 import { REFRESH_INTERVAL } from '@/lib/pnode-api';
 
@@ -12,6 +12,14 @@ async function fetchApi<T>(params: string): Promise<T> {
     return res.json();
 }
 
+// Query string for a preset period or a custom from/to range. Preset ranges are sent
+// as the period alone so their query keys don't change as "now" moves on.
+function historyRangeParams(range: HistoryPeriod | HistoryRange): string {
+    if (typeof range === 'string') return `period=${range}`;
+    if (range.preset !== 'custom') return `period=${range.preset}`;
+    return `period=custom&from=${encodeURIComponent(range.from.toISOString())}&to=${encodeURIComponent(range.to.toISOString())}`;
+}
+
 export function usePNodes(initialData?: any) {
     return useQuery({
         queryKey: ['pnodes'],
@@ -32,10 +40,11 @@ export function useNetworkStats(initialData?: any) {
     });
 }
 
-export function usePerformanceHistory(period: '24h' | '7d' | '30d' = '24h', initialData?: any) {
+export function usePerformanceHistory(range: HistoryPeriod | HistoryRange = '24h', initialData?: any) {
+    const params = historyRangeParams(range);
     return useQuery({
-        queryKey: ['performance-history', period],
-        queryFn: () => fetchApi<PerformanceHistory[]>(`type=performance-history&period=${period}`),
+        queryKey: ['performance-history', params],
+        queryFn: () => fetchApi<PerformanceHistory[]>(`type=performance-history&${params}`),
         initialData,
         staleTime: 2 * 60 * 1000,
         refetchInterval: REFRESH_INTERVAL,
@@ -59,6 +68,15 @@ export function useGossipHealth() {
     });
 }
 
+export function useGossipDivergence() {
+    return useQuery({
+        queryKey: ['gossip-divergence'],
+        queryFn: () => fetchApi<GossipDivergence | null>('type=gossip-divergence'),
+        staleTime: 60000,
+        refetchInterval: REFRESH_INTERVAL,
+    });
+}
+
 export function useStorageDistribution() {
     return useQuery({
         queryKey: ['storage-distribution'],
@@ -68,10 +86,10 @@ export function useStorageDistribution() {
     });
 }
 
-export function useXScore(nodeId?: string) {
+export function useXScore(nodeId?: string, profile: string = 'default') {
     return useQuery({
-        queryKey: ['x-score', nodeId],
-        queryFn: () => fetchApi<XScore>(`type=x-score${nodeId ? `&nodeId=${nodeId}` : ''}`),
+        queryKey: ['x-score', nodeId, profile],
+        queryFn: () => fetchApi<XScore>(`type=x-score&profile=${profile}${nodeId ? `&nodeId=${nodeId}` : ''}`),
         refetchInterval: REFRESH_INTERVAL,
     });
 }
@@ -79,7 +97,7 @@ export function useXScore(nodeId?: string) {
 export function useEpochInfo() {
     return useQuery({
         queryKey: ['epoch-info'],
-        queryFn: () => fetchApi<EpochInfo>('type=epoch-info'),
+        queryFn: () => fetchApi<EpochInfo | null>('type=epoch-info'),
         refetchInterval: REFRESH_INTERVAL,
     });
 }
@@ -100,10 +118,10 @@ export function useStakingStats() {
     });
 }
 
-export function useDecentralizationMetrics() {
+export function useDecentralizationMetrics(grouping: EntityGrouping = 'pubkey') {
     return useQuery({
-        queryKey: ['decentralization-metrics'],
-        queryFn: () => fetchApi<DecentralizationMetrics>('type=decentralization-metrics'),
+        queryKey: ['decentralization-metrics', grouping],
+        queryFn: () => fetchApi<DecentralizationMetrics>(`type=decentralization-metrics&grouping=${grouping}`),
         refetchInterval: REFRESH_INTERVAL,
     });
 }
@@ -116,18 +134,27 @@ export function useVersionDistribution() {
     });
 }
 
-export function useHealthScoreBreakdown() {
+export function useHealthScoreBreakdown(profile: string = 'default') {
     return useQuery({
-        queryKey: ['health-score-breakdown'],
-        queryFn: () => fetchApi<HealthScoreBreakdown>('type=health-score-breakdown'),
+        queryKey: ['health-score-breakdown', profile],
+        queryFn: () => fetchApi<HealthScoreBreakdown>(`type=health-score-breakdown&profile=${profile}`),
         refetchInterval: REFRESH_INTERVAL,
     });
 }
 
-export function useTrendData(metric: string, period: string) {
+export function useScoringProfiles() {
     return useQuery({
-        queryKey: ['trend-data', metric, period],
-        queryFn: () => fetchApi<TrendData>(`type=trend-data&metric=${metric}&period=${period}`),
+        queryKey: ['scoring-profiles'],
+        queryFn: () => fetchApi<ScoringProfile[]>('type=scoring-profiles'),
+        staleTime: 60000,
+    });
+}
+
+export function useTrendData(metric: string, range: HistoryPeriod | HistoryRange) {
+    const params = historyRangeParams(range);
+    return useQuery({
+        queryKey: ['trend-data', metric, params],
+        queryFn: () => fetchApi<TrendData>(`type=trend-data&metric=${metric}&${params}`),
         refetchInterval: REFRESH_INTERVAL,
     });
 }
@@ -140,19 +167,76 @@ export function useExabyteProjection(timeframe: string, customNodeCount?: number
     });
 }
 
-export function useCommissionHistory(nodeId: string) {
+export function useGrowthForecasts(timeframe: ForecastTimeframe = '1y') {
+    return useQuery({
+        queryKey: ['growth-forecast', timeframe],
+        queryFn: () => fetchApi<MetricForecast[]>(`type=growth-forecast&timeframe=${timeframe}`),
+        staleTime: 5 * 60 * 1000,
+        refetchInterval: REFRESH_INTERVAL,
+    });
+}
+
+export function useCommissionHistory(nodeId: string | undefined) {
     return useQuery({
         queryKey: ['commission-history', nodeId],
         queryFn: () => fetchApi<CommissionHistory>(`type=commission-history&nodeId=${nodeId}`),
+        enabled: !!nodeId,
         refetchInterval: REFRESH_INTERVAL,
     });
 }
 
-export function useHealthTrends(period: string = '24h') {
+export function useCreditsAccrual(nodeId: string | undefined, period: '24h' | '7d' | '30d' = '24h') {
+    return useQuery({
+        queryKey: ['credits-accrual', nodeId, period],
+        queryFn: () => fetchApi<CreditsAccrual>(`type=credits-accrual&nodeId=${nodeId}&period=${period}`),
+        enabled: !!nodeId,
+        staleTime: 2 * 60 * 1000,
+        refetchInterval: REFRESH_INTERVAL,
+    });
+}
+
+export function useCreditsStalls() {
+    return useQuery({
+        queryKey: ['credits-stalls'],
+        queryFn: () => fetchApi<CreditsStall[]>('type=credits-stalls'),
+        refetchInterval: REFRESH_INTERVAL,
+    });
+}
+
+export function useNodeHistory(nodeId: string | undefined, period: '24h' | '7d' | '30d' = '24h') {
+    return useQuery({
+        queryKey: ['node-history', nodeId, period],
+        queryFn: () => fetchApi<NodeHistory>(`type=node-history&nodeId=${nodeId}&period=${period}`),
+        enabled: !!nodeId,
+        staleTime: 2 * 60 * 1000,
+        refetchInterval: REFRESH_INTERVAL,
+    });
+}
+
+export function useIngestionRuns() {
+    return useQuery({
+        queryKey: ['ingestion-runs'],
+        queryFn: () => fetchApi<IngestionRun[]>('type=ingestion-runs'),
+        staleTime: 30000,
+        refetchInterval: 60000,
+    });
+}
+
+export function useSeedHealth() {
+    return useQuery({
+        queryKey: ['seed-health'],
+        queryFn: () => fetchApi<SeedHealth[]>('type=seed-health'),
+        staleTime: 30000,
+        refetchInterval: 60000,
+    });
+}
+
+export function useHealthTrends(range: HistoryPeriod | HistoryRange = '24h') {
+    const params = historyRangeParams(range);
     return useQuery({
-        queryKey: ['health-trends', period],
+        queryKey: ['health-trends', params],
         queryFn: async () => {
-            const res = await fetch(`/api/health-trends?period=${period}`);
+            const res = await fetch(`/api/health-trends?${params}`);
             if (!res.ok) throw new Error('Failed to fetch health trends');
             return res.json();
         },
@@ -176,10 +260,10 @@ export function usePeerRankings() {
     });
 }
 
-export function useSuperminorityInfo() {
+export function useSuperminorityInfo(grouping: EntityGrouping = 'pubkey') {
     return useQuery({
-        queryKey: ['superminority-info'],
-        queryFn: () => fetchApi<SuperminorityInfo>('type=superminority-info'),
+        queryKey: ['superminority-info', grouping],
+        queryFn: () => fetchApi<SuperminorityInfo>(`type=superminority-info&grouping=${grouping}`),
         refetchInterval: REFRESH_INTERVAL,
     });
 }
@@ -0,0 +1,21 @@
+import { GEOLOCATION_API, GEOIP_CITY_DB_PATH, GEOIP_ASN_DB_PATH, GEOLOCATION_OFFLINE } from '@/server/api/config';
+import { GeolocationProvider } from './types';
+import { createMmdbProvider } from './mmdb';
+import { createIpApiProvider } from './ip-api';
+
+export type { GeolocationProvider } from './types';
+
+let providers: GeolocationProvider[] | null = null;
+
+/**
+ * Providers in the order they are tried: local .mmdb databases first when configured,
+ * then ip-api unless running offline.
+ */
+export function getGeolocationProviders(): GeolocationProvider[] {
+    if (!providers) {
+        providers = [];
+        if (GEOIP_CITY_DB_PATH) providers.push(createMmdbProvider(GEOIP_CITY_DB_PATH, GEOIP_ASN_DB_PATH));
+        if (!GEOLOCATION_OFFLINE) providers.push(createIpApiProvider(GEOLOCATION_API));
+    }
+    return providers;
+}
@@ -0,0 +1,53 @@
+import { GeolocationData } from '@/infrastructure/rpc/types';
+import { GeolocationProvider } from './types';
+
+// ip-api batch endpoint accepts at most 100 queries per request
+const IP_API_BATCH_SIZE = 100;
+
+export function createIpApiProvider(batchUrl: string): GeolocationProvider {
+    return {
+        name: 'ip-api',
+        async lookup(ips) {
+            const results: Record<string, GeolocationData> = {};
+
+            for (let i = 0; i < ips.length; i += IP_API_BATCH_SIZE) {
+                const chunk = ips.slice(i, i + IP_API_BATCH_SIZE);
+                try {
+                    const response = await fetch(batchUrl, {
+                        method: 'POST',
+                        headers: { 'Content-Type': 'application/json' },
+                        body: JSON.stringify(chunk.map(ip => ({ query: ip }))),
+                    });
+
+                    if (!response.ok) {
+                        console.error(`ip-api batch failed: HTTP ${response.status}`);
+                        continue;
+                    }
+
+                    const data = await response.json();
+                    if (!Array.isArray(data)) continue;
+
+                    data.forEach((item: any) => {
+                        if (item.query && item.status === 'success') {
+                            results[item.query] = {
+                                status: 'success',
+                                country: item.country,
+                                countryCode: item.countryCode,
+                                city: item.city,
+                                lat: item.lat,
+                                lon: item.lon,
+                                isp: item.isp,
+                                org: item.org,
+                                as: item.as,
+                            };
+                        }
+                    });
+                } catch (error) {
+                    console.error('Batch geolocation error:', error);
+                }
+            }
+
+            return results;
+        },
+    };
+}
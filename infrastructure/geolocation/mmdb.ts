@@ -0,0 +1,64 @@
+import { existsSync } from 'fs';
+import maxmind, { Reader, CityResponse, AsnResponse } from 'maxmind';
+import { GeolocationData } from '@/infrastructure/rpc/types';
+import { GeolocationProvider } from './types';
+
+/**
+ * Offline lookups from MaxMind GeoLite2 / DB-IP Lite databases in .mmdb format.
+ * Either database may be omitted; an IP counts as resolved when the City database knows its country.
+ */
+export function createMmdbProvider(cityDbPath?: string, asnDbPath?: string): GeolocationProvider {
+    let readers: Promise<{ city: Reader<CityResponse> | null; asn: Reader<AsnResponse> | null }> | null = null;
+
+    const open = async <T extends CityResponse | AsnResponse>(path?: string): Promise<Reader<T> | null> => {
+        if (!path) return null;
+        if (!existsSync(path)) {
+            console.warn(`Geolocation database not found: ${path}`);
+            return null;
+        }
+        try {
+            return await maxmind.open<T>(path);
+        } catch (error) {
+            console.error(`Failed to open geolocation database ${path}:`, error);
+            return null;
+        }
+    };
+
+    return {
+        name: 'mmdb',
+        async lookup(ips) {
+            if (!readers) {
+                readers = Promise.all([open<CityResponse>(cityDbPath), open<AsnResponse>(asnDbPath)])
+                    .then(([city, asn]) => ({ city, asn }));
+            }
+            const { city, asn } = await readers;
+            const results: Record<string, GeolocationData> = {};
+            if (!city) return results;
+
+            ips.forEach(ip => {
+                if (!maxmind.validate(ip)) return;
+
+                const place = city.get(ip);
+                if (!place?.country) return;
+
+                const network = asn?.get(ip);
+                const asOrg = network?.autonomous_system_organization;
+
+                results[ip] = {
+                    status: 'success',
+                    country: place.country.names.en,
+                    countryCode: place.country.iso_code,
+                    city: place.city?.names.en,
+                    lat: place.location?.latitude,
+                    lon: place.location?.longitude,
+                    isp: asOrg,
+                    org: asOrg,
+                    // Same "AS<number> <organization>" shape ip-api uses
+                    as: network ? `AS${network.autonomous_system_number} ${asOrg}` : undefined,
+                };
+            });
+
+            return results;
+        },
+    };
+}
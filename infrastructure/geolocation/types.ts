@@ -0,0 +1,10 @@
+import { GeolocationData } from '@/infrastructure/rpc/types';
+
+export interface GeolocationProvider {
+    name: string;
+    /**
+     * Resolve as many of `ips` as possible. IPs the provider can't resolve are left out
+     * so the next provider in the chain can try them.
+     */
+    lookup(ips: string[]): Promise<Record<string, GeolocationData>>;
+}
@@ -1,5 +1,5 @@
 import { CACHE_DURATION, DEVNET_RPC } from '@/server/api/config';
-import { BlockProductionResponse, PerformanceSample } from './types';
+import { BlockProductionResponse, PerformanceSample, RpcContextResponse } from './types';
 
 interface CacheEntry<T> {
     data: T;
@@ -55,7 +55,8 @@ export async function fetchRPC<T>(method: string, params: unknown[] = []): Promi
 }
 
 export async function fetchBlockProduction(): Promise<BlockProductionResponse | null> {
-    return fetchRPC<BlockProductionResponse>('getBlockProduction');
+    const result = await fetchRPC<RpcContextResponse<BlockProductionResponse>>('getBlockProduction');
+    return result?.value ?? null;
 }
 
 export async function fetchPerformanceSamples(limit: number = 10): Promise<PerformanceSample[]> {
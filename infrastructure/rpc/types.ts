@@ -18,16 +18,41 @@ export interface VoteAccount {
     rootSlot: number;
 }
 
+// getMultipleAccounts entry for a vote account with jsonParsed encoding; null if the account doesn't exist
+export interface ParsedVoteAccount {
+    data: {
+        parsed?: {
+            type: string;
+            info: { authorizedWithdrawer?: string; nodePubkey?: string };
+        };
+    };
+}
+
 export interface VoteAccountsResponse {
     current: VoteAccount[];
     delinquent: VoteAccount[];
 }
 
+// Methods like getBlockProduction wrap their result with the slot it was read at
+export interface RpcContextResponse<T> {
+    context: { slot: number };
+    value: T;
+}
+
 export interface BlockProductionResponse {
-    byIdentity: Record<string, [number, number]>;
+    byIdentity: Record<string, [number, number]>; // [leader slots, blocks produced]
     range: { firstSlot: number; lastSlot: number };
 }
 
+export interface EpochInfoResponse {
+    epoch: number;
+    slotIndex: number;
+    slotsInEpoch: number;
+    absoluteSlot: number;
+    blockHeight: number;
+    transactionCount?: number;
+}
+
 export interface PerformanceSample {
     slot: number;
     numTransactions: number;
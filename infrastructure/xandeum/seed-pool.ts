@@ -0,0 +1,314 @@
+import { PrpcClient, PrpcError, Pod, PodsResponse } from 'xandeum-prpc';
+import { SeedHealth } from '@/types/pnode';
+import { supabase } from '@/lib/supabase';
+import { PRPC_SEED_IPS, PRPC_TIMEOUT_MS, PRPC_MAX_SEED_ATTEMPTS } from '@/server/api/config';
+
+// Use a known public pNode IP or fallback to a default
+// 192.190.136.36 is one of the pNodes known to have an open RPC port from earlier discussions
+const DEFAULT_RPC_IP = '192.190.136.36';
+
+// Seeds that failed this many times in a row sit out until the cooldown passes;
+// longer than the ~5 minute ingestion interval, so a dead seed skips a few runs
+const SEED_FAILURE_THRESHOLD = 3;
+const SEED_COOLDOWN_MS = 15 * 60 * 1000;
+// Ranking weighs recent calls: an outcome counts half as much after this long
+const SEED_HEALTH_HALF_LIFE_MS = 60 * 60 * 1000;
+
+interface SeedState {
+    ip: string;
+    source: SeedHealth['source'];
+    attempts: number;
+    successes: number;
+    failures: number;
+    consecutiveFailures: number;
+    totalLatencyMs: number; // Sum over successful calls
+    // Decayed successes, failures and success latency as of decayedAt; used for ranking
+    recentSuccesses: number;
+    recentFailures: number;
+    recentLatencyMs: number;
+    decayedAt: number;
+    lastError?: string;
+    lastSuccessAt?: number;
+    lastFailureAt?: number;
+}
+
+export type PodsMethod = 'get-pods-with-stats' | 'get-pods';
+
+export interface SeedPodsResult {
+    pods: Pod[];
+    seeds: { ip: string; podCount: number; method: PodsMethod }[];
+    fallbackError?: string; // Why get-pods-with-stats was not used, when it wasn't
+    viewDisagreement: number; // Pubkeys missing from at least one responding seed's list
+    views: { ip: string; pods: Pod[] }[]; // Each responding seed's own pod list
+}
+
+// Local copy of prpc_seed_health, refreshed before seeds are ranked for an ingestion
+// and updated in place as calls complete
+const seedStates = new Map<string, SeedState>();
+let lastSuccessfulSeed: string | null = null;
+
+function getSeedStates(): SeedState[] {
+    if (seedStates.size === 0) {
+        const defaults = PrpcClient.defaultSeedIps && PrpcClient.defaultSeedIps.length > 0
+            ? PrpcClient.defaultSeedIps
+            : [DEFAULT_RPC_IP];
+
+        const add = (ip: string, source: SeedHealth['source']) => {
+            if (seedStates.has(ip)) return;
+            seedStates.set(ip, {
+                ip, source, attempts: 0, successes: 0, failures: 0, consecutiveFailures: 0, totalLatencyMs: 0,
+                recentSuccesses: 0, recentFailures: 0, recentLatencyMs: 0, decayedAt: Date.now(),
+            });
+        };
+        PRPC_SEED_IPS.forEach(ip => add(ip, 'configured'));
+        defaults.forEach(ip => add(ip, 'default'));
+    }
+    return Array.from(seedStates.values());
+}
+
+/**
+ * Replace the local counters with the shared ones in prpc_seed_health, so seed health
+ * survives cold starts and is the same on every instance. Keeps the local counters
+ * when the table can't be read.
+ */
+async function loadSeedStates(): Promise<void> {
+    const states = getSeedStates();
+    const { data, error } = await supabase.from('prpc_seed_health').select('*');
+
+    if (error || !data) {
+        if (error) console.error('Error fetching seed health:', error);
+        return;
+    }
+
+    const rows = new Map(data.map((row: any) => [row.ip, row]));
+    states.forEach(state => {
+        const row = rows.get(state.ip);
+        if (!row) return;
+        state.attempts = row.attempts;
+        state.successes = row.successes;
+        state.failures = row.failures;
+        state.consecutiveFailures = row.consecutive_failures;
+        state.totalLatencyMs = Number(row.total_latency_ms);
+        state.recentSuccesses = row.recent_successes ?? 0;
+        state.recentFailures = row.recent_failures ?? 0;
+        state.recentLatencyMs = row.recent_latency_ms ?? 0;
+        state.decayedAt = row.updated_at ? new Date(row.updated_at).getTime() : Date.now();
+        state.lastError = row.last_error || undefined;
+        state.lastSuccessAt = row.last_success_at ? new Date(row.last_success_at).getTime() : undefined;
+        state.lastFailureAt = row.last_failure_at ? new Date(row.last_failure_at).getTime() : undefined;
+    });
+}
+
+function describeError(err: unknown): string {
+    return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * Bring the recent counters forward to `now`, halving them every SEED_HEALTH_HALF_LIFE_MS.
+ */
+function decaySeedState(state: SeedState, now: number): void {
+    const factor = Math.pow(0.5, Math.max(0, now - state.decayedAt) / SEED_HEALTH_HALF_LIFE_MS);
+    state.recentSuccesses *= factor;
+    state.recentFailures *= factor;
+    state.recentLatencyMs *= factor;
+    state.decayedAt = now;
+}
+
+/**
+ * Higher is better. Laplace-smoothed success rate over the decayed counters, so recent
+ * calls outweigh a long history and untried seeds still get picked, with average
+ * latency as a tie-breaker.
+ */
+function scoreSeed(state: SeedState): number {
+    const reliability = (state.recentSuccesses + 1) / (state.recentSuccesses + state.recentFailures + 2);
+    const avgLatency = state.recentSuccesses > 0 ? state.recentLatencyMs / state.recentSuccesses : PRPC_TIMEOUT_MS / 2;
+    return reliability - avgLatency / (PRPC_TIMEOUT_MS * 10);
+}
+
+function isCoolingDown(state: SeedState, now: number): boolean {
+    return state.consecutiveFailures >= SEED_FAILURE_THRESHOLD
+        && state.lastFailureAt !== undefined
+        && now - state.lastFailureAt < SEED_COOLDOWN_MS;
+}
+
+/**
+ * Seed IPs in the order they should be tried: healthy seeds by score, cooling-down seeds last.
+ */
+export function rankSeeds(): string[] {
+    const now = Date.now();
+    const states = getSeedStates();
+    states.forEach(state => decaySeedState(state, now));
+    return states
+        .sort((a, b) =>
+            Number(isCoolingDown(a, now)) - Number(isCoolingDown(b, now)) || scoreSeed(b) - scoreSeed(a))
+        .map(s => s.ip);
+}
+
+async function recordSeedResult(ip: string, ok: boolean, latencyMs: number, error?: unknown): Promise<void> {
+    const state = seedStates.get(ip);
+    if (!state) return;
+
+    const now = Date.now();
+    decaySeedState(state, now);
+    state.attempts++;
+    if (ok) {
+        state.successes++;
+        state.recentSuccesses++;
+        state.consecutiveFailures = 0;
+        state.totalLatencyMs += latencyMs;
+        state.recentLatencyMs += latencyMs;
+        state.lastSuccessAt = now;
+        lastSuccessfulSeed = ip;
+    } else {
+        state.failures++;
+        state.recentFailures++;
+        state.consecutiveFailures++;
+        state.lastError = describeError(error);
+        state.lastFailureAt = now;
+    }
+
+    const { error: saveError } = await supabase.rpc('record_prpc_seed_result', {
+        p_ip: ip,
+        p_source: state.source,
+        p_ok: ok,
+        p_latency_ms: Math.round(latencyMs),
+        p_error: ok ? null : state.lastError,
+        p_half_life_seconds: SEED_HEALTH_HALF_LIFE_MS / 1000,
+    });
+    if (saveError) console.error('Error saving seed result:', saveError);
+}
+
+async function callSeed<T>(ip: string, call: (client: PrpcClient) => Promise<T>): Promise<T> {
+    const start = Date.now();
+    try {
+        const result = await call(new PrpcClient(ip, { timeout: PRPC_TIMEOUT_MS }));
+        await recordSeedResult(ip, true, Date.now() - start);
+        return result;
+    } catch (err) {
+        await recordSeedResult(ip, false, Date.now() - start, err);
+        throw err;
+    }
+}
+
+/**
+ * Run a pRPC call against the best seeds in turn, rotating on errors and timeouts.
+ * Gives up after PRPC_MAX_SEED_ATTEMPTS seeds.
+ */
+export async function callWithFailover<T>(
+    call: (client: PrpcClient) => Promise<T>,
+    seeds: string[] = rankSeeds()
+): Promise<{ result: T; seedIp: string }> {
+    let lastError: unknown = new Error('No pRPC seeds available');
+
+    for (const ip of seeds.slice(0, Math.max(1, PRPC_MAX_SEED_ATTEMPTS))) {
+        try {
+            return { result: await callSeed(ip, call), seedIp: ip };
+        } catch (err) {
+            console.warn(`pRPC call failed on seed ${ip}, rotating:`, describeError(err));
+            lastError = err;
+        }
+    }
+    throw lastError;
+}
+
+/**
+ * get-pods-with-stats, falling back to get-pods on the same seed only when the seed
+ * answered with an RPC error. Timeouts and network errors fail the seed instead.
+ */
+async function fetchPods(client: PrpcClient): Promise<{ response: PodsResponse; method: PodsMethod; fallbackError?: string }> {
+    try {
+        return { response: await client.getPodsWithStats(), method: 'get-pods-with-stats' };
+    } catch (err) {
+        if (!(err instanceof PrpcError) || err.message === 'Request timed out') throw err;
+        console.warn('getPodsWithStats failed, fallback getPods', err);
+        return { response: await client.getPods(), method: 'get-pods', fallbackError: err.message };
+    }
+}
+
+function mergePodLists(lists: Pod[][]): { pods: Pod[]; viewDisagreement: number } {
+    const merged = new Map<string, Pod>();
+    const seenBy = new Map<string, number>();
+
+    lists.forEach(pods => {
+        pods.forEach(pod => {
+            const key = pod.pubkey || pod.address || '';
+            if (!key) return;
+            seenBy.set(key, (seenBy.get(key) || 0) + 1);
+            // Keep the freshest view of each pod
+            const existing = merged.get(key);
+            if (!existing || (pod.last_seen_timestamp || 0) > (existing.last_seen_timestamp || 0)) {
+                merged.set(key, pod);
+            }
+        });
+    });
+
+    const viewDisagreement = Array.from(seenBy.values()).filter(count => count < lists.length).length;
+    return { pods: Array.from(merged.values()), viewDisagreement };
+}
+
+/**
+ * Read the pod list from `mergeCount` seeds and merge them.
+ * With a single seed this is a plain failover call; with several, the seeds are queried
+ * in parallel and pods missing from some lists are counted as view disagreement.
+ */
+export async function fetchPodsFromSeeds(mergeCount = 1): Promise<SeedPodsResult> {
+    await loadSeedStates();
+    const ranked = rankSeeds();
+
+    if (mergeCount > 1) {
+        const targets = ranked.slice(0, mergeCount);
+        const results = await Promise.allSettled(targets.map(ip => callSeed(ip, fetchPods)));
+
+        const succeeded = results.flatMap((result, i) =>
+            result.status === 'fulfilled' ? [{ ip: targets[i], ...result.value }] : []);
+
+        if (succeeded.length > 0) {
+            const { pods, viewDisagreement } = mergePodLists(succeeded.map(s => s.response.pods || []));
+            return {
+                pods,
+                seeds: succeeded.map(s => ({ ip: s.ip, podCount: s.response.pods?.length || 0, method: s.method })),
+                fallbackError: succeeded.find(s => s.fallbackError)?.fallbackError,
+                viewDisagreement,
+                views: succeeded.map(s => ({ ip: s.ip, pods: s.response.pods || [] })),
+            };
+        }
+        // Every merge target failed: fail over through the remaining seeds
+        ranked.splice(0, targets.length);
+    }
+
+    const { result, seedIp } = await callWithFailover(fetchPods, ranked);
+    return {
+        pods: result.response.pods || [],
+        seeds: [{ ip: seedIp, podCount: result.response.pods?.length || 0, method: result.method }],
+        fallbackError: result.fallbackError,
+        viewDisagreement: 0,
+        views: [{ ip: seedIp, pods: result.response.pods || [] }],
+    };
+}
+
+/**
+ * Best seed right now, or the one that last answered.
+ */
+export function getPreferredSeedIp(): string {
+    return lastSuccessfulSeed ?? rankSeeds()[0] ?? DEFAULT_RPC_IP;
+}
+
+export async function getSeedHealth(): Promise<SeedHealth[]> {
+    await loadSeedStates();
+    return rankSeeds().map(ip => {
+        const state = seedStates.get(ip)!;
+        return {
+            ip: state.ip,
+            source: state.source,
+            attempts: state.attempts,
+            successes: state.successes,
+            failures: state.failures,
+            consecutiveFailures: state.consecutiveFailures,
+            successRate: state.attempts > 0 ? (state.successes / state.attempts) * 100 : 0,
+            avgLatencyMs: state.successes > 0 ? Math.round(state.totalLatencyMs / state.successes) : null,
+            lastError: state.lastError,
+            lastSuccessAt: state.lastSuccessAt ? new Date(state.lastSuccessAt).toISOString() : undefined,
+            lastFailureAt: state.lastFailureAt ? new Date(state.lastFailureAt).toISOString() : undefined,
+        };
+    });
+}
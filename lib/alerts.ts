@@ -1,185 +1,221 @@
 import type { AlertConfig, Alert, AlertChannel } from '@/types/pnode';
+import { supabase } from '@/lib/supabase';
 
-const ALERTS_STORAGE_KEY = 'xandeum_alert_configs';
-const ALERT_HISTORY_KEY = 'xandeum_alert_history';
-
-export function getAlertConfigs(): AlertConfig[] {
-  if (typeof window === 'undefined') return getDefaultAlertConfigs();
-  
-  const stored = localStorage.getItem(ALERTS_STORAGE_KEY);
-  if (stored) {
-    try {
-      return JSON.parse(stored);
-    } catch {
-      return getDefaultAlertConfigs();
+const ALERT_HISTORY_LIMIT = 100;
+
+// Lifecycle defaults for rules that don't set their own
+export const DEFAULT_ALERT_COOLDOWN_MINUTES = 60;
+export const DEFAULT_CONSECUTIVE_BREACHES = 2;
+
+// --- Row mapping (Supabase snake_case <-> app camelCase) ---
+
+export function mapAlertConfigRow(row: any): AlertConfig {
+  return {
+    id: row.id,
+    name: row.name,
+    enabled: row.enabled ?? true,
+    type: row.type,
+    condition: row.condition,
+    threshold: row.threshold,
+    severity: row.severity,
+    channels: row.channels || [],
+    nodeIds: row.node_ids || undefined,
+    cooldownMinutes: row.cooldown_minutes ?? undefined,
+    consecutiveBreaches: row.consecutive_breaches ?? undefined,
+    createdAt: row.created_at,
+    lastTriggered: row.last_triggered || undefined,
+  };
+}
+
+export function toAlertConfigRow(config: AlertConfig) {
+  return {
+    id: config.id,
+    name: config.name,
+    enabled: config.enabled,
+    type: config.type,
+    condition: config.condition,
+    threshold: config.threshold,
+    severity: config.severity,
+    channels: config.channels,
+    node_ids: config.nodeIds && config.nodeIds.length > 0 ? config.nodeIds : null,
+    cooldown_minutes: config.cooldownMinutes ?? null,
+    consecutive_breaches: config.consecutiveBreaches ?? null,
+    created_at: config.createdAt,
+    last_triggered: config.lastTriggered || null,
+  };
+}
+
+export function mapAlertRow(row: any): Alert {
+  return {
+    id: row.id,
+    configId: row.config_id,
+    title: row.title,
+    message: row.message,
+    severity: row.severity,
+    nodeId: row.node_id || undefined,
+    nodePubkey: row.node_pubkey || undefined,
+    value: row.value,
+    threshold: row.threshold,
+    timestamp: row.timestamp,
+    acknowledged: row.acknowledged || false,
+    status: row.status || 'firing',
+    resolvedAt: row.resolved_at || undefined,
+    durationMs: row.duration_ms ?? undefined,
+    lastNotifiedAt: row.last_notified_at || undefined,
+    occurrences: row.occurrences || 1,
+  };
+}
+
+export function toAlertRow(alert: Alert) {
+  return {
+    id: alert.id,
+    config_id: alert.configId,
+    title: alert.title,
+    message: alert.message,
+    severity: alert.severity,
+    node_id: alert.nodeId || null,
+    node_pubkey: alert.nodePubkey || null,
+    value: alert.value,
+    threshold: alert.threshold,
+    timestamp: alert.timestamp,
+    acknowledged: alert.acknowledged,
+    status: alert.status,
+    resolved_at: alert.resolvedAt || null,
+    duration_ms: alert.durationMs ?? null,
+    last_notified_at: alert.lastNotifiedAt || null,
+    occurrences: alert.occurrences,
+  };
+}
+
+// --- Alert rules ---
+
+/**
+ * Saved alert rules. The defaults are seeded by a migration, so an empty table means
+ * every rule was deleted and nothing is evaluated.
+ */
+export async function getAlertConfigs(): Promise<AlertConfig[]> {
+  try {
+    const { data, error } = await supabase
+      .from('alert_configs')
+      .select('*')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching alert configs:', error.message);
+      return [];
     }
+
+    return (data || []).map(mapAlertConfigRow);
+  } catch (err) {
+    console.error('Alert configs fetch error:', err);
+    return [];
   }
-  return getDefaultAlertConfigs();
 }
 
-export function saveAlertConfigs(configs: AlertConfig[]): void {
-  if (typeof window === 'undefined') return;
-  localStorage.setItem(ALERTS_STORAGE_KEY, JSON.stringify(configs));
+export async function saveAlertConfigs(configs: AlertConfig[]): Promise<void> {
+  if (configs.length === 0) return;
+  const { error } = await supabase.from('alert_configs').upsert(configs.map(toAlertConfigRow));
+  if (error) console.error('Error saving alert configs:', error);
 }
 
-export function getAlertHistory(): Alert[] {
-  if (typeof window === 'undefined') return [];
-  
-  const stored = localStorage.getItem(ALERT_HISTORY_KEY);
-  if (stored) {
-    try {
-      return JSON.parse(stored);
-    } catch {
+// --- Alert history ---
+
+/**
+ * The most recent alerts plus every open incident, however long ago it fired.
+ */
+export async function getAlertHistory(): Promise<Alert[]> {
+  try {
+    const [recent, open] = await Promise.all([
+      supabase
+        .from('alerts')
+        .select('*')
+        .order('timestamp', { ascending: false })
+        .limit(ALERT_HISTORY_LIMIT),
+      supabase
+        .from('alerts')
+        .select('*')
+        .neq('status', 'resolved')
+        .order('timestamp', { ascending: false }),
+    ]);
+
+    const error = recent.error || open.error;
+    if (error) {
+      console.log('Alerts table may not exist yet:', error.message);
       return [];
     }
+
+    const recentIds = new Set((recent.data || []).map((row: any) => row.id));
+    const olderOpen = (open.data || []).filter((row: any) => !recentIds.has(row.id));
+    return [...(recent.data || []), ...olderOpen].map(mapAlertRow);
+  } catch (err) {
+    console.log('Alert history fetch error:', err);
+    return [];
   }
-  return [];
 }
 
-export function saveAlert(alert: Alert): void {
-  if (typeof window === 'undefined') return;
-  const history = getAlertHistory();
-  history.unshift(alert);
-  if (history.length > 100) history.pop();
-  localStorage.setItem(ALERT_HISTORY_KEY, JSON.stringify(history));
+export async function saveAlerts(alerts: Alert[]): Promise<void> {
+  if (alerts.length === 0) return;
+  // Upsert so open alerts can be updated in place (value, occurrences, resolution)
+  const { error } = await supabase.from('alerts').upsert(alerts.map(toAlertRow));
+  if (error) console.error('Error saving alerts:', error);
 }
 
-export function acknowledgeAlert(alertId: string): void {
-  if (typeof window === 'undefined') return;
-  const history = getAlertHistory();
-  const alert = history.find(a => a.id === alertId);
-  if (alert) {
-    alert.acknowledged = true;
-    localStorage.setItem(ALERT_HISTORY_KEY, JSON.stringify(history));
+export async function getOpenAlerts(): Promise<Alert[]> {
+  const { data, error } = await supabase
+    .from('alerts')
+    .select('*')
+    .eq('status', 'firing');
+
+  if (error) {
+    console.log('Open alerts fetch error:', error.message);
+    return [];
   }
+
+  return (data || []).map(mapAlertRow);
 }
 
-export function clearAlertHistory(): void {
-  if (typeof window === 'undefined') return;
-  localStorage.removeItem(ALERT_HISTORY_KEY);
-}
-
-export function getDefaultAlertConfigs(): AlertConfig[] {
-  return [
-    {
-      id: 'alert_uptime_low',
-      name: 'Low Uptime Alert',
-      enabled: true,
-      type: 'uptime',
-      condition: 'below',
-      threshold: 95,
-      severity: 'warning',
-      channels: [{ type: 'in_app', enabled: true }],
-      createdAt: new Date().toISOString(),
-    },
-    {
-      id: 'alert_uptime_critical',
-      name: 'Critical Uptime Alert',
-      enabled: true,
-      type: 'uptime',
-      condition: 'below',
-      threshold: 80,
-      severity: 'critical',
-      channels: [{ type: 'in_app', enabled: true }],
-      createdAt: new Date().toISOString(),
-    },
-    {
-      id: 'alert_latency_high',
-      name: 'High Latency Alert',
-      enabled: true,
-      type: 'latency',
-      condition: 'above',
-      threshold: 200,
-      severity: 'warning',
-      channels: [{ type: 'in_app', enabled: true }],
-      createdAt: new Date().toISOString(),
-    },
-    {
-      id: 'alert_score_low',
-      name: 'Low Performance Score',
-      enabled: true,
-      type: 'score',
-      condition: 'below',
-      threshold: 50,
-      severity: 'warning',
-      channels: [{ type: 'in_app', enabled: true }],
-      createdAt: new Date().toISOString(),
-    },
-    {
-      id: 'alert_commission_change',
-      name: 'Commission Change Alert',
-      enabled: true,
-      type: 'commission',
-      condition: 'above',
-      threshold: 0,
-      severity: 'info',
-      channels: [{ type: 'in_app', enabled: true }],
-      createdAt: new Date().toISOString(),
-    },
-  ];
-}
-
-export function createAlertConfig(config: Omit<AlertConfig, 'id' | 'createdAt'>): AlertConfig {
-  const newConfig: AlertConfig = {
-    ...config,
-    id: `alert_${Date.now()}`,
-    createdAt: new Date().toISOString(),
-  };
-  
-  const configs = getAlertConfigs();
-  configs.push(newConfig);
-  saveAlertConfigs(configs);
-  
-  return newConfig;
-}
-
-export function updateAlertConfig(id: string, updates: Partial<AlertConfig>): AlertConfig | null {
-  const configs = getAlertConfigs();
-  const index = configs.findIndex(c => c.id === id);
-  
-  if (index === -1) return null;
-  
-  configs[index] = { ...configs[index], ...updates };
-  saveAlertConfigs(configs);
-  
-  return configs[index];
-}
-
-export function deleteAlertConfig(id: string): boolean {
-  const configs = getAlertConfigs();
-  const filtered = configs.filter(c => c.id !== id);
-  
-  if (filtered.length === configs.length) return false;
-  
-  saveAlertConfigs(filtered);
-  return true;
-}
-
-export async function sendWebhook(url: string, alert: Alert): Promise<boolean> {
-  try {
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        content: `**${alert.title}**\n${alert.message}\nSeverity: ${alert.severity}\nValue: ${alert.value} (Threshold: ${alert.threshold})`,
-        embeds: [{
-          title: alert.title,
-          description: alert.message,
-          color: alert.severity === 'critical' ? 0xff0000 : alert.severity === 'warning' ? 0xffaa00 : 0x00ff00,
-          fields: [
-            { name: 'Severity', value: alert.severity, inline: true },
-            { name: 'Value', value: String(alert.value), inline: true },
-            { name: 'Threshold', value: String(alert.threshold), inline: true },
-          ],
-          timestamp: alert.timestamp,
-        }],
-      }),
-    });
-    return response.ok;
-  } catch (error) {
-    console.error('Webhook error:', error);
+export async function acknowledgeAlert(alertId: string): Promise<void> {
+  const { error } = await supabase
+    .from('alerts')
+    .update({ acknowledged: true })
+    .eq('id', alertId);
+  if (error) console.error('Error acknowledging alert:', error);
+}
+
+export async function clearAlertHistory(): Promise<void> {
+  // Supabase requires a filter on delete; match every row
+  const { error } = await supabase.from('alerts').delete().not('id', 'is', null);
+  if (error) console.error('Error clearing alert history:', error);
+}
+
+export async function updateAlertConfig(id: string, updates: Partial<AlertConfig>): Promise<AlertConfig | null> {
+  const { data, error } = await supabase.from('alert_configs').select('*').eq('id', id).maybeSingle();
+  if (error || !data) {
+    if (error) console.error('Error fetching alert config:', error);
+    return null;
+  }
+
+  const updated = { ...mapAlertConfigRow(data), ...updates, id };
+  await saveAlertConfigs([updated]);
+  return updated;
+}
+
+export async function deleteAlertConfig(id: string): Promise<boolean> {
+  const { data, error } = await supabase.from('alert_configs').delete().eq('id', id).select('id');
+  if (error) {
+    console.error('Error deleting alert config:', error);
     return false;
   }
+  return (data || []).length > 0;
+}
+
+export function formatAlertDuration(durationMs: number): string {
+  const minutes = Math.floor(durationMs / 60000);
+  if (minutes < 1) return '<1m';
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
 }
 
 export function checkAlertCondition(
@@ -204,8 +240,9 @@ export function createAlert(
   nodeId?: string,
   nodePubkey?: string
 ): Alert {
-  const alert: Alert = {
-    id: `alert_instance_${Date.now()}`,
+  const now = new Date().toISOString();
+  return {
+    id: `alert_instance_${Date.now()}_${config.id}${nodeId ? `_${nodeId}` : ''}`,
     configId: config.id,
     title: config.name,
     message: `${config.type} is ${config.condition} threshold: ${value.toFixed(2)} (threshold: ${config.threshold})`,
@@ -214,10 +251,10 @@ export function createAlert(
     nodePubkey,
     value,
     threshold: config.threshold,
-    timestamp: new Date().toISOString(),
+    timestamp: now,
     acknowledged: false,
+    status: 'firing',
+    lastNotifiedAt: now,
+    occurrences: 1,
   };
-  
-  saveAlert(alert);
-  return alert;
 }
@@ -0,0 +1,105 @@
+import type { AnomalyDirection, AnomalyMethod } from '@/types/pnode';
+
+// Scales a MAD to the standard deviation it estimates for normally distributed data
+export const MAD_SCALE = 1.4826;
+// Floor on the spread, as a fraction of the baseline, so a flat series doesn't turn
+// every tiny change into an infinite score
+const MIN_SPREAD_FRACTION = 0.01;
+// Same-phase values from earlier seasons needed before the seasonal baseline is used
+const MIN_SEASONS = 3;
+
+export interface AnomalyOptions {
+  threshold: number; // |score| at or above which a value is anomalous
+  direction?: AnomalyDirection; // only flag deviations this way; both when unset
+  minRelativeChange?: number; // ignore deviations smaller than this fraction of the baseline
+  minSamples?: number; // recent values needed to score at all
+}
+
+export interface AnomalyScore {
+  method: AnomalyMethod;
+  baseline: number;
+  score: number;
+  direction: AnomalyDirection;
+  anomalous: boolean;
+}
+
+export function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Median absolute deviation around center, scaled to a standard deviation estimate.
+ */
+export function robustSpread(values: number[], center: number = median(values)): number {
+  return median(values.map(v => Math.abs(v - center))) * MAD_SCALE;
+}
+
+function standardDeviation(values: number[]): { mean: number; sd: number } {
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  const variance = values.reduce((acc, v) => acc + (v - mean) ** 2, 0) / values.length;
+  return { mean, sd: Math.sqrt(variance) };
+}
+
+/**
+ * Score value against a baseline center and spread (both in the value's unit).
+ */
+export function scoreDeviation(
+  value: number,
+  center: number,
+  spread: number,
+  method: AnomalyMethod,
+  options: AnomalyOptions
+): AnomalyScore {
+  const deviation = value - center;
+  const direction: AnomalyDirection = deviation < 0 ? 'drop' : 'spike';
+  const floor = Math.max(Math.abs(center) * MIN_SPREAD_FRACTION, Number.EPSILON);
+  const score = deviation / Math.max(spread, floor);
+  const relativeChange = center !== 0 ? Math.abs(deviation / center) : deviation !== 0 ? Infinity : 0;
+
+  return {
+    method,
+    baseline: center,
+    score,
+    direction,
+    anomalous: Math.abs(score) >= options.threshold
+      && relativeChange >= (options.minRelativeChange ?? 0)
+      && (!options.direction || options.direction === direction),
+  };
+}
+
+/**
+ * Score value against its recent history, oldest first. Uses the median and MAD of
+ * samePhase (values at the same point of earlier seasons, e.g. this hour on previous
+ * days) when there are enough of them, otherwise the median and MAD of recent values,
+ * or their mean and standard deviation when over half of them are identical. Null when
+ * there's too little recent history.
+ */
+export function scoreAnomaly(
+  value: number,
+  history: { recent: number[]; samePhase?: number[] },
+  options: AnomalyOptions
+): AnomalyScore | null {
+  const { recent, samePhase = [] } = history;
+  if (recent.length < (options.minSamples ?? 8)) return null;
+
+  if (samePhase.length >= MIN_SEASONS) {
+    const seasonalCenter = median(samePhase);
+    return scoreDeviation(value, seasonalCenter, robustSpread(samePhase, seasonalCenter), 'seasonal', options);
+  }
+
+  let center = median(recent);
+  let spread = robustSpread(recent, center);
+  let method: AnomalyMethod = 'mad';
+
+  if (spread === 0) {
+    const { mean, sd } = standardDeviation(recent);
+    spread = sd;
+    center = mean;
+    method = 'zscore';
+  }
+
+  return scoreDeviation(value, center, spread, method, options);
+}
@@ -213,12 +213,12 @@ export const pNodeColumns: ColumnDefinition<PNode>[] = [
     { key: 'uptime', header: 'Uptime (%)', formatter: (v) => Number(v).toFixed(1) },
     { key: 'metrics.responseTimeMs', header: 'Latency (ms)', formatter: (v) => Number(v).toFixed(0) },
     { key: 'metrics.storageCapacityGB', header: 'Storage (GB)', formatter: (v) => Number(v).toFixed(0) },
-    { key: 'metrics.storageUsedGB', header: 'Used (GB)', formatter: (v) => Number(v).toFixed(0) },
+    { key: 'metrics.storageUsedGB', header: 'Used (GB)', formatter: (v) => v != null ? Number(v).toFixed(0) : 'N/A' },
     { key: 'location.city', header: 'City' },
     { key: 'location.country', header: 'Country' },
     { key: 'location.countryCode', header: 'Country Code' },
     { key: 'version', header: 'Version' },
-    { key: 'gossip.peersConnected', header: 'Peers' },
+    { key: 'gossip.peersConnected', header: 'Peers', formatter: (v) => v != null ? String(v) : 'N/A' },
     { key: 'staking.commission', header: 'Commission (%)', formatter: (v) => v !== undefined ? String(v) : 'N/A' },
     { key: 'staking.apy', header: 'APY (%)', formatter: (v) => v !== undefined ? Number(v).toFixed(2) : 'N/A' },
     { key: 'credits', header: 'Credits', formatter: (v) => v !== undefined ? Number(v).toLocaleString() : 'N/A' },
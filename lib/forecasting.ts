@@ -0,0 +1,272 @@
+import type { ForecastModel } from '@/types/pnode';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Two-sided 95% interval
+const Z_95 = 1.96;
+// Smoothing parameters tried by the Holt-Winters grid search
+const SMOOTHING_GRID = [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9];
+
+export interface SeriesPoint {
+  t: number; // epoch ms
+  value: number;
+}
+
+export interface Prediction {
+  value: number;
+  lower: number;
+  upper: number;
+}
+
+export interface FitErrors {
+  rmse: number; // in the series' unit
+  mape: number | null; // percent; null when every observation is 0
+}
+
+// rmse/mape are in-sample (one-step-ahead for Holt-Winters)
+export interface FittedModel extends FitErrors {
+  model: ForecastModel;
+  predict: (t: number) => Prediction;
+  backtest?: FitErrors | null; // on the holdout window shared by every model; set by fitForecastModels
+}
+
+function fitErrors(actual: number[], fitted: number[]): FitErrors {
+  const residuals = actual.map((y, i) => y - fitted[i]);
+  const rmse = Math.sqrt(residuals.reduce((acc, r) => acc + r * r, 0) / residuals.length);
+  const nonZero = actual.map((y, i) => ({ y, r: residuals[i] })).filter(p => p.y !== 0);
+  const mape = nonZero.length > 0
+    ? (nonZero.reduce((acc, p) => acc + Math.abs(p.r / p.y), 0) / nonZero.length) * 100
+    : null;
+  return { rmse, mape };
+}
+
+// Ordinary least squares of y on x, with the pieces needed for prediction intervals
+function leastSquares(x: number[], y: number[]) {
+  const n = x.length;
+  const xMean = x.reduce((a, b) => a + b, 0) / n;
+  const yMean = y.reduce((a, b) => a + b, 0) / n;
+  const sxx = x.reduce((acc, xi) => acc + (xi - xMean) ** 2, 0);
+  const sxy = x.reduce((acc, xi, i) => acc + (xi - xMean) * (y[i] - yMean), 0);
+  const slope = sxx > 0 ? sxy / sxx : 0;
+  const intercept = yMean - slope * xMean;
+  const fitted = x.map(xi => intercept + slope * xi);
+  const sse = y.reduce((acc, yi, i) => acc + (yi - fitted[i]) ** 2, 0);
+  // Residual standard error; n - 2 degrees of freedom
+  const s = n > 2 ? Math.sqrt(sse / (n - 2)) : 0;
+
+  return {
+    fitted,
+    at: (xi: number) => intercept + slope * xi,
+    // Half-width of the 95% prediction interval at xi
+    margin: (xi: number) => Z_95 * s * Math.sqrt(1 + 1 / n + (sxx > 0 ? (xi - xMean) ** 2 / sxx : 0)),
+  };
+}
+
+/**
+ * Straight-line trend: value = a + b·t.
+ */
+export function fitLinear(points: SeriesPoint[]): FittedModel | null {
+  if (points.length < 3) return null;
+
+  const t0 = points[0].t;
+  const x = points.map(p => (p.t - t0) / DAY_MS);
+  const y = points.map(p => p.value);
+  const ols = leastSquares(x, y);
+
+  return {
+    model: 'linear',
+    ...fitErrors(y, ols.fitted),
+    predict: (t: number) => {
+      const xi = (t - t0) / DAY_MS;
+      const value = ols.at(xi);
+      const margin = ols.margin(xi);
+      return { value, lower: value - margin, upper: value + margin };
+    },
+  };
+}
+
+/**
+ * Constant growth rate: ln(value) = a + b·t. Needs strictly positive values.
+ */
+export function fitExponential(points: SeriesPoint[]): FittedModel | null {
+  if (points.length < 3 || points.some(p => p.value <= 0)) return null;
+
+  const t0 = points[0].t;
+  const x = points.map(p => (p.t - t0) / DAY_MS);
+  const y = points.map(p => p.value);
+  const ols = leastSquares(x, y.map(v => Math.log(v)));
+
+  return {
+    model: 'exponential',
+    ...fitErrors(y, ols.fitted.map(Math.exp)),
+    predict: (t: number) => {
+      const xi = (t - t0) / DAY_MS;
+      const log = ols.at(xi);
+      const margin = ols.margin(xi);
+      return { value: Math.exp(log), lower: Math.exp(log - margin), upper: Math.exp(log + margin) };
+    },
+  };
+}
+
+interface HoltWintersState {
+  level: number;
+  trend: number;
+  season: number[]; // empty for Holt's linear trend (no seasonality)
+  fitted: number[];
+  sse: number;
+}
+
+function runHoltWinters(y: number[], m: number, alpha: number, beta: number, gamma: number): HoltWintersState {
+  const seasonal = m > 0;
+  let level: number;
+  let trend: number;
+  let season: number[] = [];
+  let start: number;
+
+  if (seasonal) {
+    // Initial level/trend from the first two seasons, seasonal indices from the first
+    const first = y.slice(0, m).reduce((a, b) => a + b, 0) / m;
+    const second = y.slice(m, 2 * m).reduce((a, b) => a + b, 0) / m;
+    level = first;
+    trend = (second - first) / m;
+    season = y.slice(0, m).map(v => v - first);
+    start = m;
+  } else {
+    level = y[0];
+    trend = y[1] - y[0];
+    start = 1;
+  }
+
+  const fitted: number[] = y.slice(0, start);
+  let sse = 0;
+
+  for (let i = start; i < y.length; i++) {
+    const s = seasonal ? season[i % m] : 0;
+    const forecast = level + trend + s;
+    fitted.push(forecast);
+    sse += (y[i] - forecast) ** 2;
+
+    const previousLevel = level;
+    level = alpha * (y[i] - s) + (1 - alpha) * (level + trend);
+    trend = beta * (level - previousLevel) + (1 - beta) * trend;
+    if (seasonal) season[i % m] = gamma * (y[i] - level) + (1 - gamma) * s;
+  }
+
+  return { level, trend, season, fitted, sse };
+}
+
+/**
+ * Additive Holt-Winters (ETS A,A,A) with season length m, fitted by grid search on the
+ * one-step-ahead errors. Falls back to Holt's linear trend (A,A,N) when the series is
+ * shorter than two seasons. Points are assumed evenly spaced (stepMs apart).
+ */
+export function fitHoltWinters(points: SeriesPoint[], stepMs: number, seasonLength: number): FittedModel | null {
+  if (points.length < 4) return null;
+
+  const y = points.map(p => p.value);
+  const m = seasonLength > 1 && y.length >= 2 * seasonLength ? seasonLength : 0;
+
+  let best: { state: HoltWintersState; alpha: number; beta: number } | null = null;
+  for (const alpha of SMOOTHING_GRID) {
+    for (const beta of SMOOTHING_GRID) {
+      for (const gamma of m > 0 ? SMOOTHING_GRID : [0]) {
+        const state = runHoltWinters(y, m, alpha, beta, gamma);
+        if (!best || state.sse < best.state.sse) best = { state, alpha, beta };
+      }
+    }
+  }
+  if (!best) return null;
+
+  const { state, alpha, beta } = best;
+  const start = m > 0 ? m : 1;
+  const oneStep = fitErrors(y.slice(start), state.fitted.slice(start));
+  const lastT = points[points.length - 1].t;
+  const n = y.length;
+
+  return {
+    model: 'holt-winters',
+    ...oneStep,
+    predict: (t: number) => {
+      const h = Math.max(1, (t - lastT) / stepMs);
+      const s = m > 0 ? state.season[(n - 1 + Math.round(h)) % m] : 0;
+      const value = state.level + h * state.trend + s;
+      // ETS(A,A,N) forecast variance; the seasonal term's contribution is left out
+      const variance = oneStep.rmse ** 2 * (1 + (h - 1) * (alpha ** 2 + alpha * beta * h + (beta ** 2 * h * (2 * h - 1)) / 6));
+      const margin = Z_95 * Math.sqrt(variance);
+      return { value, lower: value - margin, upper: value + margin };
+    },
+  };
+}
+
+/**
+ * Evenly spaced copy of the series, stepMs apart, with missing steps linearly
+ * interpolated from their neighbours. Points must be sorted by time.
+ */
+export function fillGaps(points: SeriesPoint[], stepMs: number): SeriesPoint[] {
+  const filled: SeriesPoint[] = [];
+  points.forEach((point, i) => {
+    const previous = points[i - 1];
+    if (previous) {
+      const steps = Math.round((point.t - previous.t) / stepMs);
+      for (let k = 1; k < steps; k++) {
+        filled.push({ t: previous.t + k * stepMs, value: previous.value + ((point.value - previous.value) * k) / steps });
+      }
+    }
+    filled.push(point);
+  });
+  return filled;
+}
+
+const MODEL_FITTERS: ((points: SeriesPoint[], stepMs: number, seasonLength: number) => FittedModel | null)[] = [
+  fitLinear,
+  fitExponential,
+  fitHoltWinters,
+];
+
+// Held-out points: a season, or a quarter of the series when that's shorter
+function holdoutLength(n: number, seasonLength: number): number {
+  return Math.min(Math.max(1, seasonLength), Math.floor(n / 4));
+}
+
+/**
+ * Every model that could be fitted to the series, each with its error when refitted
+ * without the last holdoutLength points and used to forecast them. Models compete on
+ * that backtest, since in-sample errors aren't comparable across the three.
+ */
+export function fitForecastModels(points: SeriesPoint[], stepMs: number, seasonLength: number): FittedModel[] {
+  const holdout = holdoutLength(points.length, seasonLength);
+  const training = points.slice(0, points.length - holdout);
+  const heldOut = points.slice(points.length - holdout);
+
+  return MODEL_FITTERS.flatMap(fit => {
+    const model = fit(points, stepMs, seasonLength);
+    if (!model) return [];
+
+    const trained = holdout > 0 ? fit(training, stepMs, seasonLength) : null;
+    model.backtest = trained
+      ? fitErrors(heldOut.map(p => p.value), heldOut.map(p => trained.predict(p.t).value))
+      : null;
+    return [model];
+  });
+}
+
+/**
+ * Model with the lowest backtest error, or null when none could be fitted. Models
+ * without a backtest only win when none has one, on their in-sample error.
+ */
+export function selectBestModel(models: FittedModel[]): FittedModel | null {
+  const backtested = models.filter(m => m.backtest);
+  const error = (m: FittedModel) => (backtested.length > 0 ? m.backtest!.rmse : m.rmse);
+  const candidates = backtested.length > 0 ? backtested : models;
+  return candidates.reduce<FittedModel | null>((best, m) => (!best || error(m) < error(best) ? m : best), null);
+}
+
+/**
+ * First time at or after `from` (checked every stepMs, up to maxMs ahead) at which the
+ * model's forecast reaches target. Null when it doesn't within that horizon.
+ */
+export function findCrossing(model: FittedModel, target: number, from: number, stepMs: number, maxMs: number): number | null {
+  for (let t = from; t <= from + maxMs; t += stepMs) {
+    if (model.predict(t).value >= target) return t;
+  }
+  return null;
+}
@@ -1,4 +1,4 @@
-import { PNode, NetworkStats, NetworkEvent, PerformanceHistory, GossipHealth, StorageDistribution, EpochInfo, EpochHistory, StakingStats, ExabyteProjection, CommissionHistory, SlashingEvent, DecentralizationMetrics, VersionInfo, HealthScoreBreakdown, TrendData, XScore, PeerRanking, SuperminorityInfo, CensorshipResistanceScore } from '@/types/pnode';
+import { PNode, NetworkStats, NetworkEvent, PerformanceHistory, GossipHealth, GossipDivergence, StorageDistribution, EpochInfo, EpochHistory, StakingStats, ExabyteProjection, CommissionHistory, SlashingEvent, DecentralizationMetrics, VersionInfo, HealthScoreBreakdown, TrendData, XScore, PeerRanking, SuperminorityInfo, CensorshipResistanceScore, NodeHistory, IngestionRun, SeedHealth, EntityGrouping, CreditsAccrual, CreditsStall, HistoryPeriod, ForecastTimeframe, MetricForecast } from '@/types/pnode';
 
 // Client-side utils
 export * from './pnode-utils-client';
@@ -28,7 +28,7 @@ export async function getNetworkEvents(): Promise<NetworkEvent[]> {
     return fetchApi<NetworkEvent[]>('/api/pnode-data?type=network-events');
 }
 
-export async function getPerformanceHistory(period: '24h' | '7d' | '30d' = '24h'): Promise<PerformanceHistory[]> {
+export async function getPerformanceHistory(period: HistoryPeriod = '24h'): Promise<PerformanceHistory[]> {
     return fetchApi<PerformanceHistory[]>(`/api/pnode-data?type=performance-history&period=${period}`);
 }
 
@@ -36,12 +36,16 @@ export async function getGossipHealth(): Promise<GossipHealth> {
     return fetchApi<GossipHealth>('/api/pnode-data?type=gossip-health');
 }
 
+export async function getGossipDivergence(): Promise<GossipDivergence | null> {
+    return fetchApi<GossipDivergence | null>('/api/pnode-data?type=gossip-divergence');
+}
+
 export async function getStorageDistribution(): Promise<StorageDistribution[]> {
     return fetchApi<StorageDistribution[]>('/api/pnode-data?type=storage-distribution');
 }
 
-export async function getEpochInfo(): Promise<EpochInfo> {
-    return fetchApi<EpochInfo>('/api/pnode-data?type=epoch-info');
+export async function getEpochInfo(): Promise<EpochInfo | null> {
+    return fetchApi<EpochInfo | null>('/api/pnode-data?type=epoch-info');
 }
 
 export async function getEpochHistory(): Promise<EpochHistory[]> {
@@ -60,30 +64,34 @@ export async function getSlashingEvents(): Promise<SlashingEvent[]> {
     return fetchApi<SlashingEvent[]>('/api/pnode-data?type=slashing-events');
 }
 
-export async function getExabyteProjection(timeframe: '1m' | '3m' | '6m' | '1y' | '2y' = '1y', customNodeCount?: number): Promise<ExabyteProjection> {
+export async function getExabyteProjection(timeframe: ForecastTimeframe = '1y', customNodeCount?: number): Promise<ExabyteProjection> {
     let url = `/api/pnode-data?type=exabyte-projection&timeframe=${timeframe}`;
     if (customNodeCount) url += `&customNodeCount=${customNodeCount}`;
     return fetchApi<ExabyteProjection>(url);
 }
 
-export async function getDecentralizationMetrics(): Promise<DecentralizationMetrics> {
-    return fetchApi<DecentralizationMetrics>('/api/pnode-data?type=decentralization-metrics');
+export async function getGrowthForecasts(timeframe: ForecastTimeframe = '1y'): Promise<MetricForecast[]> {
+    return fetchApi<MetricForecast[]>(`/api/pnode-data?type=growth-forecast&timeframe=${timeframe}`);
+}
+
+export async function getDecentralizationMetrics(grouping: EntityGrouping = 'pubkey'): Promise<DecentralizationMetrics> {
+    return fetchApi<DecentralizationMetrics>(`/api/pnode-data?type=decentralization-metrics&grouping=${grouping}`);
 }
 
 export async function getVersionDistribution(): Promise<VersionInfo[]> {
     return fetchApi<VersionInfo[]>('/api/pnode-data?type=version-distribution');
 }
 
-export async function getHealthScoreBreakdown(): Promise<HealthScoreBreakdown> {
-    return fetchApi<HealthScoreBreakdown>('/api/pnode-data?type=health-score-breakdown');
+export async function getHealthScoreBreakdown(profile: string = 'default'): Promise<HealthScoreBreakdown> {
+    return fetchApi<HealthScoreBreakdown>(`/api/pnode-data?type=health-score-breakdown&profile=${profile}`);
 }
 
-export async function getTrendData(metric: string, period: '24h' | '7d' | '30d' = '24h'): Promise<TrendData> {
+export async function getTrendData(metric: string, period: HistoryPeriod = '24h'): Promise<TrendData> {
     return fetchApi<TrendData>(`/api/pnode-data?type=trend-data&metric=${metric}&period=${period}`);
 }
 
-export async function getXScore(nodeId?: string): Promise<XScore> {
-    let url = '/api/pnode-data?type=x-score';
+export async function getXScore(nodeId?: string, profile: string = 'default'): Promise<XScore> {
+    let url = `/api/pnode-data?type=x-score&profile=${profile}`;
     if (nodeId) url += `&nodeId=${nodeId}`;
     return fetchApi<XScore>(url);
 }
@@ -92,11 +100,31 @@ export async function getPeerRankings(): Promise<PeerRanking[]> {
     return fetchApi<PeerRanking[]>('/api/pnode-data?type=peer-rankings');
 }
 
-export async function getSuperminorityInfo(): Promise<SuperminorityInfo> {
-    return fetchApi<SuperminorityInfo>('/api/pnode-data?type=superminority-info');
+export async function getSuperminorityInfo(grouping: EntityGrouping = 'pubkey'): Promise<SuperminorityInfo> {
+    return fetchApi<SuperminorityInfo>(`/api/pnode-data?type=superminority-info&grouping=${grouping}`);
 }
 
 export async function getCensorshipResistanceScore(): Promise<CensorshipResistanceScore> {
     return fetchApi<CensorshipResistanceScore>('/api/pnode-data?type=censorship-resistance');
 }
 
+export async function getNodeHistory(nodeId: string, period: '24h' | '7d' | '30d' = '24h'): Promise<NodeHistory> {
+    return fetchApi<NodeHistory>(`/api/pnode-data?type=node-history&nodeId=${nodeId}&period=${period}`);
+}
+
+export async function getCreditsAccrual(nodeId: string, period: '24h' | '7d' | '30d' = '24h'): Promise<CreditsAccrual> {
+    return fetchApi<CreditsAccrual>(`/api/pnode-data?type=credits-accrual&nodeId=${nodeId}&period=${period}`);
+}
+
+export async function getCreditsStalls(): Promise<CreditsStall[]> {
+    return fetchApi<CreditsStall[]>('/api/pnode-data?type=credits-stalls');
+}
+
+export async function getIngestionRuns(): Promise<IngestionRun[]> {
+    return fetchApi<IngestionRun[]>('/api/pnode-data?type=ingestion-runs');
+}
+
+export async function getSeedHealth(): Promise<SeedHealth[]> {
+    return fetchApi<SeedHealth[]>('/api/pnode-data?type=seed-health');
+}
+
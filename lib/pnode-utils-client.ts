@@ -1,9 +1,17 @@
 import { PNode, GossipEvent } from '@/types/pnode';
 
+/**
+ * Reachable and serving. Degraded nodes are up but outside a latency, version or
+ * storage threshold, so they count wherever online nodes do.
+ */
+export function isActiveNode(node: Pick<PNode, 'status'>): boolean {
+    return node.status === 'online' || node.status === 'degraded';
+}
+
 // Moved from server/api/decentralization.ts to allow client-side usage
 export function generateGossipEvents(nodes: PNode[]): GossipEvent[] {
     const events: GossipEvent[] = [];
-    const onlineNodes = nodes.filter(n => n.status === 'online' && n.location);
+    const onlineNodes = nodes.filter(n => isActiveNode(n) && n.location);
     const eventTypes: Array<'discovery' | 'message' | 'sync' | 'heartbeat' | 'data_transfer'> = ['discovery', 'message', 'sync', 'heartbeat', 'data_transfer'];
 
     for (let i = 0; i < Math.min(20, onlineNodes.length); i++) {
@@ -0,0 +1,197 @@
+import type {
+  ScoringProfile, HealthScoreWeights, XScoreWeights, XScore, XScoreInputs
+} from '@/types/pnode';
+import { supabase } from '@/lib/supabase';
+
+export const DEFAULT_SCORING_PROFILE_ID = 'default';
+// Editable profile that built-in profiles are copied into
+export const CUSTOM_SCORING_PROFILE_ID = 'custom';
+
+const DEFAULT_MULTIPLIERS = {
+  storageUtilization: 1.5,
+  latencyPenaltyPerMs: 0.5,
+  gossipPerPeer: 2,
+  connectivityPerPeer: 3,
+};
+
+export const BUILT_IN_SCORING_PROFILES: ScoringProfile[] = [
+  {
+    id: DEFAULT_SCORING_PROFILE_ID,
+    name: 'Default',
+    description: 'Balanced weighting across availability, performance and storage',
+    builtIn: true,
+    healthWeights: { onlineRate: 0.30, performance: 0.25, storage: 0.15, versionConsistency: 0.15, responseTime: 0.15 },
+    xScoreWeights: { storageThroughput: 0.25, dataAvailabilityLatency: 0.25, uptime: 0.20, gossipHealth: 0.15, peerConnectivity: 0.15 },
+    xScoreMultipliers: DEFAULT_MULTIPLIERS,
+  },
+  {
+    id: 'storage',
+    name: 'Storage-focused',
+    description: 'Rewards used capacity and storage throughput',
+    builtIn: true,
+    healthWeights: { onlineRate: 0.20, performance: 0.20, storage: 0.35, versionConsistency: 0.10, responseTime: 0.15 },
+    xScoreWeights: { storageThroughput: 0.40, dataAvailabilityLatency: 0.15, uptime: 0.20, gossipHealth: 0.10, peerConnectivity: 0.15 },
+    xScoreMultipliers: DEFAULT_MULTIPLIERS,
+  },
+  {
+    id: 'latency',
+    name: 'Latency-focused',
+    description: 'Rewards fast responses and data availability',
+    builtIn: true,
+    healthWeights: { onlineRate: 0.25, performance: 0.15, storage: 0.10, versionConsistency: 0.10, responseTime: 0.40 },
+    xScoreWeights: { storageThroughput: 0.15, dataAvailabilityLatency: 0.45, uptime: 0.20, gossipHealth: 0.10, peerConnectivity: 0.10 },
+    xScoreMultipliers: { ...DEFAULT_MULTIPLIERS, latencyPenaltyPerMs: 0.8 },
+  },
+];
+
+// --- Row mapping (Supabase snake_case <-> app camelCase) ---
+
+export function mapScoringProfileRow(row: any): ScoringProfile {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description || undefined,
+    builtIn: false,
+    healthWeights: row.health_weights,
+    xScoreWeights: row.xscore_weights,
+    xScoreMultipliers: { ...DEFAULT_MULTIPLIERS, ...row.xscore_multipliers },
+    updatedAt: row.updated_at || undefined,
+  };
+}
+
+export function toScoringProfileRow(profile: ScoringProfile) {
+  return {
+    id: profile.id,
+    name: profile.name,
+    description: profile.description ?? null,
+    health_weights: profile.healthWeights,
+    xscore_weights: profile.xScoreWeights,
+    xscore_multipliers: profile.xScoreMultipliers,
+    updated_at: new Date().toISOString(),
+  };
+}
+
+// --- Persistence ---
+
+export async function getScoringProfiles(): Promise<ScoringProfile[]> {
+  const { data, error } = await supabase
+    .from('scoring_profiles')
+    .select('*')
+    .order('name', { ascending: true });
+
+  if (error) console.error('Error fetching scoring profiles:', error);
+  const stored = (data || [])
+    .map(mapScoringProfileRow)
+    .filter(p => !BUILT_IN_SCORING_PROFILES.some(b => b.id === p.id));
+
+  return [...BUILT_IN_SCORING_PROFILES, ...stored];
+}
+
+/**
+ * Profile by id, falling back to the default profile when it doesn't exist.
+ */
+export async function getScoringProfile(id: string = DEFAULT_SCORING_PROFILE_ID): Promise<ScoringProfile> {
+  const builtIn = BUILT_IN_SCORING_PROFILES.find(p => p.id === id);
+  if (builtIn) return builtIn;
+
+  const { data, error } = await supabase
+    .from('scoring_profiles')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) console.error('Error fetching scoring profile:', error);
+  return data ? mapScoringProfileRow(data) : BUILT_IN_SCORING_PROFILES[0];
+}
+
+export async function saveScoringProfile(profile: ScoringProfile): Promise<ScoringProfile> {
+  if (BUILT_IN_SCORING_PROFILES.some(p => p.id === profile.id)) {
+    throw new Error(`Built-in profile "${profile.id}" can't be modified`);
+  }
+
+  const saved = {
+    ...profile,
+    builtIn: false,
+    healthWeights: normalizeWeights(profile.healthWeights),
+    xScoreWeights: normalizeWeights(profile.xScoreWeights),
+  };
+  const { error } = await supabase.from('scoring_profiles').upsert(toScoringProfileRow(saved));
+  if (error) throw error;
+
+  return saved;
+}
+
+// --- Scoring (shared by the API and the profile editor preview) ---
+
+/**
+ * Scale weights to sum to 1. Negative weights count as 0; all-zero weights become equal.
+ */
+export function normalizeWeights<T extends HealthScoreWeights | XScoreWeights>(weights: T): T {
+  const entries = Object.entries(weights).map(([k, v]) => [k, Math.max(0, Number(v) || 0)] as const);
+  const total = entries.reduce((acc, [, v]) => acc + v, 0);
+  return Object.fromEntries(
+    entries.map(([k, v]) => [k, total > 0 ? v / total : 1 / entries.length])
+  ) as unknown as T;
+}
+
+export function computeHealthOverall(
+  factorScores: Record<keyof HealthScoreWeights, number>,
+  weights: HealthScoreWeights
+): number {
+  const normalized = normalizeWeights(weights);
+  return (Object.keys(normalized) as (keyof HealthScoreWeights)[])
+    .reduce((acc, key) => acc + (factorScores[key] || 0) * normalized[key], 0);
+}
+
+export function getHealthGrade(score: number): string {
+  if (score >= 90) return 'A+';
+  if (score >= 80) return 'A';
+  if (score >= 70) return 'B';
+  if (score >= 60) return 'C';
+  return 'D';
+}
+
+/**
+ * Without a known peer count the gossip and connectivity factors are left out and
+ * the remaining weights are scaled back up to sum to 1.
+ */
+export function computeXScore(inputs: XScoreInputs, profile: ScoringProfile): XScore {
+  const m = profile.xScoreMultipliers;
+  const peers = inputs.peersConnected;
+
+  const storageThroughput = Math.min(100, inputs.storageUtilizationPercent * m.storageUtilization);
+  const dataAvailabilityLatency = Math.max(0, 100 - inputs.responseTimeMs * m.latencyPenaltyPerMs);
+  const uptime = inputs.performanceScore; // Credits-based score as uptime proxy
+  const gossipHealth = peers !== null ? Math.min(100, peers * m.gossipPerPeer) : null;
+  const peerConnectivity = peers !== null ? Math.min(100, peers * m.connectivityPerPeer) : null;
+
+  const factors: Partial<Record<keyof XScoreWeights, number>> = { storageThroughput, dataAvailabilityLatency, uptime };
+  if (gossipHealth !== null && peerConnectivity !== null) {
+    factors.gossipHealth = gossipHealth;
+    factors.peerConnectivity = peerConnectivity;
+  }
+  const keys = Object.keys(factors) as (keyof XScoreWeights)[];
+  const w = normalizeWeights(Object.fromEntries(keys.map(k => [k, profile.xScoreWeights[k]])) as unknown as XScoreWeights);
+  const overall = keys.reduce((acc, key) => acc + (factors[key] || 0) * w[key], 0);
+
+  return {
+    overall,
+    storageThroughput,
+    dataAvailabilityLatency,
+    uptime,
+    gossipHealth,
+    peerConnectivity,
+    grade: getXScoreGrade(overall),
+    profile: profile.id,
+    inputs,
+  };
+}
+
+export function getXScoreGrade(score: number): XScore['grade'] {
+  if (score >= 95) return 'S';
+  if (score >= 85) return 'A';
+  if (score >= 70) return 'B';
+  if (score >= 55) return 'C';
+  if (score >= 40) return 'D';
+  return 'F';
+}
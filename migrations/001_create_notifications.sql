@@ -52,9 +52,7 @@ CREATE INDEX IF NOT EXISTS idx_pnodes_updated ON pnodes(updated_at DESC);
 -- Ensure network_stats has proper indexes
 CREATE INDEX IF NOT EXISTS idx_network_stats_updated ON network_stats(updated_at DESC);
 
--- Clean up old network stats (keep last 24 hours for history charts)
--- Run this periodically or set up a cron job
--- DELETE FROM network_stats WHERE updated_at < NOW() - INTERVAL '7 days';
+-- Old network stats are rolled up and pruned by the retention job (see 018_retention_rollups.sql)
 
 COMMENT ON TABLE notifications IS 'Real-time notifications generated during pNode data ingestion';
 COMMENT ON COLUMN notifications.node_pubkey IS 'Public key of the node this notification relates to (if applicable)';
@@ -0,0 +1,35 @@
+-- Migration: Create pnode_snapshots table for per-node time-series history
+-- Run this in your Supabase SQL Editor
+
+-- One row per node per ingestion run
+CREATE TABLE IF NOT EXISTS pnode_snapshots (
+    id BIGSERIAL PRIMARY KEY,
+    node_id TEXT NOT NULL,
+    pubkey TEXT NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('online', 'offline', 'degraded')),
+    uptime DOUBLE PRECISION DEFAULT 0,
+    latency_ms DOUBLE PRECISION DEFAULT 0,
+    score DOUBLE PRECISION DEFAULT 0,
+    credits DOUBLE PRECISION DEFAULT 0,
+    credits_rank INTEGER,
+    storage_used_gb DOUBLE PRECISION DEFAULT 0,
+    storage_capacity_gb DOUBLE PRECISION DEFAULT 0,
+    peers_connected INTEGER DEFAULT 0,
+    recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- History queries always filter by node and time range
+CREATE INDEX IF NOT EXISTS idx_pnode_snapshots_node_recorded ON pnode_snapshots(node_id, recorded_at DESC);
+CREATE INDEX IF NOT EXISTS idx_pnode_snapshots_recorded ON pnode_snapshots(recorded_at DESC);
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE pnode_snapshots ENABLE ROW LEVEL SECURITY;
+
+-- Create a permissive policy for now (adjust based on your auth requirements)
+DROP POLICY IF EXISTS "Allow all for pnode_snapshots" ON pnode_snapshots;
+CREATE POLICY "Allow all for pnode_snapshots" ON pnode_snapshots FOR ALL USING (true);
+
+COMMENT ON TABLE pnode_snapshots IS 'Per-node samples recorded on every pNode data ingestion';
+COMMENT ON COLUMN pnode_snapshots.node_id IS 'Stable node ID (pnode_<pubkey>), matches pnodes.id';
+COMMENT ON COLUMN pnode_snapshots.latency_ms IS 'Measured /health round-trip time at ingestion';
+COMMENT ON COLUMN pnode_snapshots.score IS 'Credits-based performance score at ingestion';
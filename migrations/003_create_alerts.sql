@@ -0,0 +1,52 @@
+-- Migration: Create alert_configs and alerts tables for server-side alert evaluation
+-- Run this in your Supabase SQL Editor
+
+-- Alert rules, evaluated against every node after each ingestion
+CREATE TABLE IF NOT EXISTS alert_configs (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    enabled BOOLEAN DEFAULT TRUE,
+    type TEXT NOT NULL CHECK (type IN ('uptime', 'latency', 'score', 'storage', 'commission', 'gossip')),
+    condition TEXT NOT NULL CHECK (condition IN ('above', 'below', 'equals')),
+    threshold DOUBLE PRECISION NOT NULL,
+    severity TEXT NOT NULL CHECK (severity IN ('info', 'warning', 'critical')),
+    channels JSONB DEFAULT '[]'::jsonb,
+    node_ids TEXT[],
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    last_triggered TIMESTAMPTZ
+);
+
+-- Alerts fired by the evaluator
+CREATE TABLE IF NOT EXISTS alerts (
+    id TEXT PRIMARY KEY,
+    config_id TEXT NOT NULL,
+    title TEXT NOT NULL,
+    message TEXT NOT NULL,
+    severity TEXT NOT NULL CHECK (severity IN ('info', 'warning', 'critical')),
+    node_id TEXT,
+    node_pubkey TEXT,
+    value DOUBLE PRECISION NOT NULL,
+    threshold DOUBLE PRECISION NOT NULL,
+    timestamp TIMESTAMPTZ DEFAULT NOW(),
+    acknowledged BOOLEAN DEFAULT FALSE
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_alerts_timestamp ON alerts(timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_alerts_config_node ON alerts(config_id, node_id);
+CREATE INDEX IF NOT EXISTS idx_alerts_acknowledged ON alerts(acknowledged);
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE alert_configs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE alerts ENABLE ROW LEVEL SECURITY;
+
+-- Create a permissive policy for now (adjust based on your auth requirements)
+DROP POLICY IF EXISTS "Allow all for alert_configs" ON alert_configs;
+CREATE POLICY "Allow all for alert_configs" ON alert_configs FOR ALL USING (true);
+
+DROP POLICY IF EXISTS "Allow all for alerts" ON alerts;
+CREATE POLICY "Allow all for alerts" ON alerts FOR ALL USING (true);
+
+COMMENT ON TABLE alert_configs IS 'Alert rules evaluated on the server after every pNode data ingestion';
+COMMENT ON COLUMN alert_configs.node_ids IS 'Optional list of node IDs or pubkeys the rule is scoped to (NULL = all nodes)';
+COMMENT ON TABLE alerts IS 'Alert history: one row per rule/node match';
@@ -0,0 +1,31 @@
+-- Migration: Create webhook_deliveries table for alert delivery logging
+-- Run this in your Supabase SQL Editor
+
+-- One row per delivery (after retries) to Discord, Slack, Telegram or a generic webhook
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id BIGSERIAL PRIMARY KEY,
+    channel_type TEXT NOT NULL CHECK (channel_type IN ('webhook', 'discord', 'telegram', 'slack')),
+    target_host TEXT,
+    alert_id TEXT,
+    config_id TEXT,
+    success BOOLEAN NOT NULL,
+    status_code INTEGER,
+    attempts INTEGER NOT NULL DEFAULT 1,
+    error TEXT,
+    duration_ms INTEGER,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_created ON webhook_deliveries(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_alert ON webhook_deliveries(alert_id);
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Create a permissive policy for now (adjust based on your auth requirements)
+DROP POLICY IF EXISTS "Allow all for webhook_deliveries" ON webhook_deliveries;
+CREATE POLICY "Allow all for webhook_deliveries" ON webhook_deliveries FOR ALL USING (true);
+
+COMMENT ON TABLE webhook_deliveries IS 'Delivery log for alert webhooks (Discord, Slack, Telegram, generic)';
+COMMENT ON COLUMN webhook_deliveries.target_host IS 'Host of the delivery URL only; full webhook URLs and bot tokens are never stored';
@@ -0,0 +1,50 @@
+-- Migration: Alert lifecycle (firing/resolved), cooldowns and hysteresis
+-- Run this in your Supabase SQL Editor
+
+-- Rule-level lifecycle settings (NULL = application defaults)
+ALTER TABLE alert_configs ADD COLUMN IF NOT EXISTS cooldown_minutes INTEGER;
+ALTER TABLE alert_configs ADD COLUMN IF NOT EXISTS consecutive_breaches INTEGER;
+
+-- Alert lifecycle: one row per incident, updated in place while firing
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'firing';
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS resolved_at TIMESTAMPTZ;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS duration_ms BIGINT;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS last_notified_at TIMESTAMPTZ;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS occurrences INTEGER NOT NULL DEFAULT 1;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'alerts_status_check'
+    ) THEN
+        ALTER TABLE alerts ADD CONSTRAINT alerts_status_check CHECK (status IN ('firing', 'resolved'));
+    END IF;
+EXCEPTION WHEN duplicate_object THEN
+    -- Constraint already exists, ignore
+    NULL;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_alerts_status ON alerts(status);
+
+-- Consecutive breach/recovery counters per rule and node, carried between ingestions.
+-- Rows only exist while a pair is breaching or has an open alert.
+CREATE TABLE IF NOT EXISTS alert_states (
+    id TEXT PRIMARY KEY, -- <config_id>:<node_id>
+    config_id TEXT NOT NULL,
+    node_id TEXT NOT NULL,
+    breach_count INTEGER NOT NULL DEFAULT 0,
+    clear_count INTEGER NOT NULL DEFAULT 0,
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE alert_states ENABLE ROW LEVEL SECURITY;
+
+-- Create a permissive policy for now (adjust based on your auth requirements)
+DROP POLICY IF EXISTS "Allow all for alert_states" ON alert_states;
+CREATE POLICY "Allow all for alert_states" ON alert_states FOR ALL USING (true);
+
+COMMENT ON COLUMN alert_configs.cooldown_minutes IS 'Minimum minutes between notifications for an alert that stays open';
+COMMENT ON COLUMN alert_configs.consecutive_breaches IS 'Ingestions in a row a condition must hold to fire, and to resolve';
+COMMENT ON COLUMN alerts.duration_ms IS 'Time from firing to resolution';
+COMMENT ON TABLE alert_states IS 'Hysteresis counters for alert evaluation';
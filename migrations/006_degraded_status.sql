@@ -0,0 +1,13 @@
+-- Migration: Degraded status reasons and degraded node counts
+-- Run this in your Supabase SQL Editor
+
+-- Why a node was classified as degraded (empty when online/offline)
+ALTER TABLE pnodes ADD COLUMN IF NOT EXISTS status_reasons JSONB DEFAULT '[]'::jsonb;
+
+-- Degraded node count per ingestion run
+ALTER TABLE network_stats ADD COLUMN IF NOT EXISTS degraded_nodes INTEGER DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_pnodes_status ON pnodes(status);
+
+COMMENT ON COLUMN pnodes.status_reasons IS 'Reasons the node was classified as degraded during the last ingestion';
+COMMENT ON COLUMN network_stats.degraded_nodes IS 'Nodes classified as degraded in this ingestion run';
@@ -0,0 +1,62 @@
+-- Migration: Ingestion lock and ingestion run history
+-- Run this in your Supabase SQL Editor
+
+-- Lock rows guarding against overlapping ingestion runs across server instances
+CREATE TABLE IF NOT EXISTS ingestion_locks (
+    name TEXT PRIMARY KEY,
+    holder TEXT NOT NULL,
+    acquired_at TIMESTAMPTZ DEFAULT NOW(),
+    expires_at TIMESTAMPTZ NOT NULL
+);
+
+-- Atomically take the lock if it is free or its previous holder's lease has expired.
+-- Returns TRUE when p_holder now owns the lock.
+CREATE OR REPLACE FUNCTION try_acquire_ingestion_lock(p_name TEXT, p_holder TEXT, p_ttl_seconds INTEGER)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    current_holder TEXT;
+BEGIN
+    INSERT INTO ingestion_locks (name, holder, acquired_at, expires_at)
+    VALUES (p_name, p_holder, NOW(), NOW() + make_interval(secs => p_ttl_seconds))
+    ON CONFLICT (name) DO UPDATE
+        SET holder = EXCLUDED.holder,
+            acquired_at = EXCLUDED.acquired_at,
+            expires_at = EXCLUDED.expires_at
+        WHERE ingestion_locks.expires_at < NOW()
+    RETURNING holder INTO current_holder;
+
+    RETURN COALESCE(current_holder = p_holder, FALSE);
+END;
+$$;
+
+-- One row per ingestion run
+CREATE TABLE IF NOT EXISTS ingestion_runs (
+    id TEXT PRIMARY KEY,
+    trigger TEXT NOT NULL CHECK (trigger IN ('request', 'cron', 'manual')),
+    status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'success', 'failed')),
+    started_at TIMESTAMPTZ DEFAULT NOW(),
+    finished_at TIMESTAMPTZ,
+    duration_ms INTEGER,
+    node_count INTEGER,
+    errors JSONB DEFAULT '[]'::jsonb
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_ingestion_runs_started ON ingestion_runs(started_at DESC);
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE ingestion_locks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ingestion_runs ENABLE ROW LEVEL SECURITY;
+
+-- Create a permissive policy for now (adjust based on your auth requirements)
+DROP POLICY IF EXISTS "Allow all for ingestion_locks" ON ingestion_locks;
+CREATE POLICY "Allow all for ingestion_locks" ON ingestion_locks FOR ALL USING (true);
+
+DROP POLICY IF EXISTS "Allow all for ingestion_runs" ON ingestion_runs;
+CREATE POLICY "Allow all for ingestion_runs" ON ingestion_runs FOR ALL USING (true);
+
+COMMENT ON TABLE ingestion_locks IS 'Lease-based locks; an expired lease may be taken over by the next run';
+COMMENT ON TABLE ingestion_runs IS 'History of pNode ingestion runs with timing, node count and errors';
+COMMENT ON COLUMN ingestion_runs.trigger IS 'request = stale read from the app, cron = scheduled route, manual = /api/ingest';
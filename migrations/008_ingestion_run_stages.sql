@@ -0,0 +1,13 @@
+-- Migration: Per-stage ingestion logs
+-- Run this in your Supabase SQL Editor
+
+-- Structured stage log: [{ name, status, startedAt, durationMs, inputCount, outputCount, detail, error }]
+ALTER TABLE ingestion_runs ADD COLUMN IF NOT EXISTS stages JSONB DEFAULT '[]'::jsonb;
+
+-- pRPC seed node the pod list was read from
+ALTER TABLE ingestion_runs ADD COLUMN IF NOT EXISTS seed_ip TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_ingestion_runs_status ON ingestion_runs(status);
+
+COMMENT ON COLUMN ingestion_runs.stages IS 'Per-stage timing, node counts in/out and failures for the run';
+COMMENT ON COLUMN ingestion_runs.seed_ip IS 'pRPC seed node queried for the pod list';
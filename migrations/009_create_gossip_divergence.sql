@@ -0,0 +1,25 @@
+-- Migration: Gossip view divergence between pRPC seeds
+-- Run this in your Supabase SQL Editor
+
+-- One row per ingestion that queried more than one seed (PRPC_MERGE_SEEDS > 1)
+CREATE TABLE IF NOT EXISTS gossip_divergence (
+    id BIGSERIAL PRIMARY KEY,
+    measured_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    seeds JSONB NOT NULL DEFAULT '[]'::jsonb,
+    partitions INTEGER NOT NULL DEFAULT 0,
+    partial_count INTEGER NOT NULL DEFAULT 0,
+    max_skew_sec INTEGER NOT NULL DEFAULT 0,
+    nodes JSONB NOT NULL DEFAULT '[]'::jsonb
+);
+
+CREATE INDEX IF NOT EXISTS idx_gossip_divergence_measured_at ON gossip_divergence(measured_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE gossip_divergence ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all for gossip_divergence" ON gossip_divergence;
+CREATE POLICY "Allow all for gossip_divergence" ON gossip_divergence FOR ALL USING (true);
+
+COMMENT ON TABLE gossip_divergence IS 'Differences between the pod lists reported by several pRPC seeds';
+COMMENT ON COLUMN gossip_divergence.partitions IS 'Groups of seeds with mutually consistent views, minus one';
+COMMENT ON COLUMN gossip_divergence.nodes IS 'Nodes only some seeds see, or whose last_seen differs by more than the skew threshold';
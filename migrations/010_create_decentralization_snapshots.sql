@@ -0,0 +1,28 @@
+-- Migration: Historical decentralization snapshots
+-- Run this in your Supabase SQL Editor
+
+-- One row per snapshot (at most DECENTRALIZATION_SNAPSHOT_INTERVAL_MS apart)
+CREATE TABLE IF NOT EXISTS decentralization_snapshots (
+    id BIGSERIAL PRIMARY KEY,
+    recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    nakamoto_coefficient INTEGER NOT NULL DEFAULT 0,
+    gini_coefficient DOUBLE PRECISION NOT NULL DEFAULT 0,
+    superminority_count INTEGER NOT NULL DEFAULT 0,
+    censorship_score DOUBLE PRECISION NOT NULL DEFAULT 0,
+    country_count INTEGER NOT NULL DEFAULT 0,
+    asn_count INTEGER NOT NULL DEFAULT 0,
+    datacenter_count INTEGER NOT NULL DEFAULT 0,
+    dimensions JSONB NOT NULL DEFAULT '[]'::jsonb
+);
+
+CREATE INDEX IF NOT EXISTS idx_decentralization_snapshots_recorded_at ON decentralization_snapshots(recorded_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE decentralization_snapshots ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all for decentralization_snapshots" ON decentralization_snapshots;
+CREATE POLICY "Allow all for decentralization_snapshots" ON decentralization_snapshots FOR ALL USING (true);
+
+COMMENT ON TABLE decentralization_snapshots IS 'Decentralization metrics over time, recorded by ingestion';
+COMMENT ON COLUMN decentralization_snapshots.nakamoto_coefficient IS '51% Nakamoto coefficient of the weakest dimension';
+COMMENT ON COLUMN decentralization_snapshots.dimensions IS 'Per-dimension Nakamoto coefficients, HHI and entropy';
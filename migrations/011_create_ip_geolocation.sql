@@ -0,0 +1,21 @@
+-- Migration: Persistent geolocation cache
+-- Run this in your Supabase SQL Editor
+
+-- One row per IP; rows older than GEOLOCATION_CACHE_TTL_MS are looked up again
+CREATE TABLE IF NOT EXISTS ip_geolocation (
+    ip TEXT PRIMARY KEY,
+    data JSONB NOT NULL,
+    source TEXT NOT NULL,
+    fetched_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ip_geolocation_fetched_at ON ip_geolocation(fetched_at);
+
+-- Enable Row Level Security
+ALTER TABLE ip_geolocation ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all for ip_geolocation" ON ip_geolocation;
+CREATE POLICY "Allow all for ip_geolocation" ON ip_geolocation FOR ALL USING (true);
+
+COMMENT ON TABLE ip_geolocation IS 'Geolocation results cached across serverless instances';
+COMMENT ON COLUMN ip_geolocation.source IS 'Provider that resolved the IP (mmdb or ip-api)';
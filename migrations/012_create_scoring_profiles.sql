@@ -0,0 +1,25 @@
+-- Migration: Health score and XScore weighting profiles
+-- Run this in your Supabase SQL Editor
+
+-- Built-in profiles (default, storage, latency) live in code; this table holds edited ones
+CREATE TABLE IF NOT EXISTS scoring_profiles (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    description TEXT,
+    health_weights JSONB NOT NULL,
+    xscore_weights JSONB NOT NULL,
+    xscore_multipliers JSONB NOT NULL DEFAULT '{}'::jsonb,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_scoring_profiles_name ON scoring_profiles(name);
+
+-- Enable Row Level Security
+ALTER TABLE scoring_profiles ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all for scoring_profiles" ON scoring_profiles;
+CREATE POLICY "Allow all for scoring_profiles" ON scoring_profiles FOR ALL USING (true);
+
+COMMENT ON TABLE scoring_profiles IS 'User-edited weighting profiles selectable with the profile query parameter';
+COMMENT ON COLUMN scoring_profiles.health_weights IS 'Normalized weights keyed by health factor id';
+COMMENT ON COLUMN scoring_profiles.xscore_multipliers IS 'Per-unit multipliers that turn raw XScore inputs into 0-100 component scores';
@@ -0,0 +1,55 @@
+-- Migration: Epoch tracking
+-- Run this in your Supabase SQL Editor
+
+-- Raw getEpochInfo response recorded by each ingestion
+CREATE TABLE IF NOT EXISTS epoch_observations (
+    id BIGSERIAL PRIMARY KEY,
+    observed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    epoch BIGINT NOT NULL,
+    slot_index BIGINT NOT NULL,
+    slots_in_epoch BIGINT NOT NULL,
+    absolute_slot BIGINT NOT NULL,
+    block_height BIGINT NOT NULL,
+    transaction_count BIGINT
+);
+
+CREATE INDEX IF NOT EXISTS idx_epoch_observations_observed_at ON epoch_observations(observed_at DESC);
+
+-- One row per epoch; end_time stays NULL until the next epoch is observed
+CREATE TABLE IF NOT EXISTS epoch_history (
+    epoch BIGINT PRIMARY KEY,
+    start_time TIMESTAMPTZ NOT NULL,
+    end_time TIMESTAMPTZ,
+    partial BOOLEAN NOT NULL DEFAULT FALSE,
+    slots_in_epoch BIGINT NOT NULL,
+    first_slot BIGINT NOT NULL,
+    last_slot BIGINT NOT NULL,
+    first_block_height BIGINT NOT NULL,
+    last_block_height BIGINT NOT NULL,
+    first_credits DOUBLE PRECISION NOT NULL DEFAULT 0,
+    last_credits DOUBLE PRECISION NOT NULL DEFAULT 0,
+    avg_active_nodes DOUBLE PRECISION NOT NULL DEFAULT 0,
+    avg_latency_ms DOUBLE PRECISION,
+    latency_samples INTEGER NOT NULL DEFAULT 0,
+    samples INTEGER NOT NULL DEFAULT 0,
+    first_observed_at TIMESTAMPTZ NOT NULL,
+    last_observed_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_epoch_history_end_time ON epoch_history(end_time);
+
+-- Enable Row Level Security
+ALTER TABLE epoch_observations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE epoch_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all for epoch_observations" ON epoch_observations;
+CREATE POLICY "Allow all for epoch_observations" ON epoch_observations FOR ALL USING (true);
+
+DROP POLICY IF EXISTS "Allow all for epoch_history" ON epoch_history;
+CREATE POLICY "Allow all for epoch_history" ON epoch_history FOR ALL USING (true);
+
+COMMENT ON TABLE epoch_observations IS 'getEpochInfo responses recorded at each ingestion; slot time is measured from these';
+COMMENT ON TABLE epoch_history IS 'Per-epoch aggregates built from ingestion runs';
+COMMENT ON COLUMN epoch_history.partial IS 'True when tracking started mid-epoch or the previous boundary was missed';
+COMMENT ON COLUMN epoch_history.avg_latency_ms IS 'Average over the latency_samples runs that measured latency; NULL when none did';
+COMMENT ON COLUMN epoch_history.first_credits IS 'Total pod credits at the previous epoch''s last observation';
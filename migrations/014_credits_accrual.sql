@@ -0,0 +1,31 @@
+-- Migration: Credits accrual tracking
+-- Run this in your Supabase SQL Editor
+
+-- Change since the previous ingestion, and when credits last went up
+ALTER TABLE pnodes ADD COLUMN IF NOT EXISTS credits_delta DOUBLE PRECISION DEFAULT 0;
+ALTER TABLE pnodes ADD COLUMN IF NOT EXISTS credits_increased_at TIMESTAMPTZ;
+ALTER TABLE pnode_snapshots ADD COLUMN IF NOT EXISTS credits_delta DOUBLE PRECISION DEFAULT 0;
+
+-- One row per node per epoch, updated by every ingestion in that epoch
+CREATE TABLE IF NOT EXISTS pnode_epoch_credits (
+    node_id TEXT NOT NULL,
+    epoch BIGINT NOT NULL,
+    start_credits DOUBLE PRECISION NOT NULL DEFAULT 0,
+    end_credits DOUBLE PRECISION NOT NULL DEFAULT 0,
+    samples INTEGER NOT NULL DEFAULT 0,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (node_id, epoch)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pnode_epoch_credits_epoch ON pnode_epoch_credits(epoch);
+
+-- Enable Row Level Security
+ALTER TABLE pnode_epoch_credits ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all for pnode_epoch_credits" ON pnode_epoch_credits;
+CREATE POLICY "Allow all for pnode_epoch_credits" ON pnode_epoch_credits FOR ALL USING (true);
+
+COMMENT ON COLUMN pnodes.credits_increased_at IS 'Last ingestion at which the node''s credits went up; drives stall detection';
+COMMENT ON COLUMN pnode_snapshots.credits_delta IS 'Credits change since the previous ingestion';
+COMMENT ON TABLE pnode_epoch_credits IS 'Credits earned by each node per epoch';
+COMMENT ON COLUMN pnode_epoch_credits.start_credits IS 'Credits at the last ingestion before the node''s first run in this epoch';
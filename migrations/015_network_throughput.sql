@@ -0,0 +1,9 @@
+-- Migration: TPS and skip rate per ingestion run
+-- Run this in your Supabase SQL Editor
+
+-- NULL when the RPC node didn't answer during that run
+ALTER TABLE network_stats ADD COLUMN IF NOT EXISTS tps DOUBLE PRECISION;
+ALTER TABLE network_stats ADD COLUMN IF NOT EXISTS skip_rate DOUBLE PRECISION;
+
+COMMENT ON COLUMN network_stats.tps IS 'Transactions per second over the latest getPerformanceSamples window';
+COMMENT ON COLUMN network_stats.skip_rate IS 'Percent of leader slots without a block in the current epoch (getBlockProduction)';
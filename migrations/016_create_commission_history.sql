@@ -0,0 +1,23 @@
+-- Migration: Commission history from vote accounts
+-- Run this in your Supabase SQL Editor
+
+-- One row each time a node's vote account commission changes (or first appears)
+CREATE TABLE IF NOT EXISTS commission_history (
+    id BIGSERIAL PRIMARY KEY,
+    node_id TEXT NOT NULL,
+    vote_pubkey TEXT,
+    commission INTEGER NOT NULL,
+    previous_commission INTEGER,
+    recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_commission_history_node ON commission_history(node_id, recorded_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE commission_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all for commission_history" ON commission_history;
+CREATE POLICY "Allow all for commission_history" ON commission_history FOR ALL USING (true);
+
+COMMENT ON TABLE commission_history IS 'Vote account commission changes per node, recorded during ingestion';
+COMMENT ON COLUMN commission_history.previous_commission IS 'Commission at the previous ingestion; NULL for the first recorded value';
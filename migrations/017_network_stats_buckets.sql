@@ -0,0 +1,68 @@
+-- Migration: Time-bucketed network_stats history
+-- Run this in your Supabase SQL Editor
+
+-- avg/min/max/p95 of each network_stats metric per time bucket in [p_from, p_to).
+-- Buckets are aligned to the Unix epoch, so hourly and daily buckets start on the hour / at 00:00 UTC.
+-- Returns one row per bucket that has at least one ingestion run; stats only holds metrics
+-- with a non-NULL value in that bucket.
+CREATE OR REPLACE FUNCTION network_stats_buckets(p_from TIMESTAMPTZ, p_to TIMESTAMPTZ, p_bucket_seconds INTEGER)
+RETURNS TABLE (bucket TIMESTAMPTZ, samples INTEGER, stats JSONB)
+LANGUAGE sql
+STABLE
+AS $$
+    WITH rows_in_range AS (
+        SELECT
+            date_bin(make_interval(secs => p_bucket_seconds), s.updated_at, TIMESTAMPTZ '1970-01-01 00:00:00+00') AS bucket,
+            s.*
+        FROM network_stats s
+        WHERE s.updated_at >= p_from AND s.updated_at < p_to
+    ),
+    points AS (
+        SELECT r.bucket, m.metric, m.value
+        FROM rows_in_range r
+        CROSS JOIN LATERAL (VALUES
+            ('network_health', r.network_health::DOUBLE PRECISION),
+            ('avg_response_time', r.avg_response_time::DOUBLE PRECISION),
+            ('avg_uptime', r.avg_uptime::DOUBLE PRECISION),
+            ('total_nodes', r.total_nodes::DOUBLE PRECISION),
+            ('online_nodes', r.online_nodes::DOUBLE PRECISION),
+            ('total_storage_tb', r.total_storage_tb::DOUBLE PRECISION),
+            ('total_storage_used_tb', r.total_storage_used_tb::DOUBLE PRECISION),
+            ('gossip_messages_24h_count', r.gossip_messages_24h_count::DOUBLE PRECISION),
+            ('tps', r.tps::DOUBLE PRECISION),
+            ('skip_rate', r.skip_rate::DOUBLE PRECISION)
+        ) AS m(metric, value)
+        WHERE m.value IS NOT NULL
+    ),
+    per_metric AS (
+        SELECT
+            bucket,
+            metric,
+            jsonb_build_object(
+                'avg', AVG(value),
+                'min', MIN(value),
+                'max', MAX(value),
+                'p95', percentile_cont(0.95) WITHIN GROUP (ORDER BY value)
+            ) AS metric_stats
+        FROM points
+        GROUP BY bucket, metric
+    ),
+    counts AS (
+        SELECT bucket, COUNT(*)::INTEGER AS samples
+        FROM rows_in_range
+        GROUP BY bucket
+    )
+    SELECT
+        c.bucket,
+        c.samples,
+        COALESCE(jsonb_object_agg(p.metric, p.metric_stats) FILTER (WHERE p.metric IS NOT NULL), '{}'::jsonb) AS stats
+    FROM counts c
+    LEFT JOIN per_metric p ON p.bucket = c.bucket
+    GROUP BY c.bucket, c.samples
+    ORDER BY c.bucket;
+$$;
+
+-- Range scans on updated_at (also created in 001)
+CREATE INDEX IF NOT EXISTS idx_network_stats_updated ON network_stats(updated_at DESC);
+
+COMMENT ON FUNCTION network_stats_buckets(TIMESTAMPTZ, TIMESTAMPTZ, INTEGER) IS 'Per-bucket avg/min/max/p95 of network_stats metrics over a time range';
@@ -0,0 +1,156 @@
+-- Migration: Hourly/daily rollups for network_stats and pnode_snapshots
+-- Run this in your Supabase SQL Editor
+
+-- network_stats per bucket, same stats shape as network_stats_buckets()
+CREATE TABLE IF NOT EXISTS network_stats_rollups (
+    resolution TEXT NOT NULL CHECK (resolution IN ('1h', '1d')),
+    bucket TIMESTAMPTZ NOT NULL,
+    samples INTEGER NOT NULL DEFAULT 0,
+    stats JSONB NOT NULL DEFAULT '{}'::jsonb,
+    PRIMARY KEY (resolution, bucket)
+);
+
+-- pnode_snapshots per node per bucket
+CREATE TABLE IF NOT EXISTS pnode_snapshot_rollups (
+    resolution TEXT NOT NULL CHECK (resolution IN ('1h', '1d')),
+    node_id TEXT NOT NULL,
+    bucket TIMESTAMPTZ NOT NULL,
+    samples INTEGER NOT NULL DEFAULT 0,
+    online_samples INTEGER NOT NULL DEFAULT 0,
+    status TEXT NOT NULL,
+    uptime DOUBLE PRECISION DEFAULT 0,
+    latency_ms DOUBLE PRECISION DEFAULT 0,
+    latency_max_ms DOUBLE PRECISION DEFAULT 0,
+    score DOUBLE PRECISION DEFAULT 0,
+    credits DOUBLE PRECISION DEFAULT 0,
+    credits_delta DOUBLE PRECISION DEFAULT 0,
+    storage_used_gb DOUBLE PRECISION DEFAULT 0,
+    storage_capacity_gb DOUBLE PRECISION DEFAULT 0,
+    peers_connected DOUBLE PRECISION,
+    PRIMARY KEY (resolution, node_id, bucket)
+);
+
+-- Pruning and cross-node reads filter by resolution and time only
+CREATE INDEX IF NOT EXISTS idx_pnode_snapshot_rollups_bucket ON pnode_snapshot_rollups(resolution, bucket DESC);
+
+-- Roll up complete buckets of network_stats newer than the last rolled-up bucket.
+-- p_resolution is '1h' or '1d'. Returns the number of buckets written.
+CREATE OR REPLACE FUNCTION rollup_network_stats(p_resolution TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_interval INTERVAL := CASE p_resolution WHEN '1h' THEN INTERVAL '1 hour' WHEN '1d' THEN INTERVAL '1 day' END;
+    v_origin CONSTANT TIMESTAMPTZ := TIMESTAMPTZ '1970-01-01 00:00:00+00';
+    v_from TIMESTAMPTZ;
+    v_to TIMESTAMPTZ;
+    v_count INTEGER;
+BEGIN
+    IF v_interval IS NULL THEN
+        RAISE EXCEPTION 'Unknown rollup resolution: %', p_resolution;
+    END IF;
+
+    -- The bucket in progress is left for the next run
+    v_to := date_bin(v_interval, NOW(), v_origin);
+    SELECT MAX(bucket) + v_interval INTO v_from FROM network_stats_rollups WHERE resolution = p_resolution;
+    IF v_from IS NULL THEN
+        SELECT date_bin(v_interval, MIN(updated_at), v_origin) INTO v_from FROM network_stats;
+    END IF;
+    IF v_from IS NULL OR v_from >= v_to THEN
+        RETURN 0;
+    END IF;
+
+    INSERT INTO network_stats_rollups (resolution, bucket, samples, stats)
+    SELECT p_resolution, b.bucket, b.samples, b.stats
+    FROM network_stats_buckets(v_from, v_to, EXTRACT(EPOCH FROM v_interval)::INTEGER) b
+    ON CONFLICT (resolution, bucket) DO UPDATE
+        SET samples = EXCLUDED.samples,
+            stats = EXCLUDED.stats;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$;
+
+-- Same as rollup_network_stats, per node. Returns the number of node buckets written.
+CREATE OR REPLACE FUNCTION rollup_pnode_snapshots(p_resolution TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_interval INTERVAL := CASE p_resolution WHEN '1h' THEN INTERVAL '1 hour' WHEN '1d' THEN INTERVAL '1 day' END;
+    v_origin CONSTANT TIMESTAMPTZ := TIMESTAMPTZ '1970-01-01 00:00:00+00';
+    v_from TIMESTAMPTZ;
+    v_to TIMESTAMPTZ;
+    v_count INTEGER;
+BEGIN
+    IF v_interval IS NULL THEN
+        RAISE EXCEPTION 'Unknown rollup resolution: %', p_resolution;
+    END IF;
+
+    v_to := date_bin(v_interval, NOW(), v_origin);
+    SELECT MAX(bucket) + v_interval INTO v_from FROM pnode_snapshot_rollups WHERE resolution = p_resolution;
+    IF v_from IS NULL THEN
+        SELECT date_bin(v_interval, MIN(recorded_at), v_origin) INTO v_from FROM pnode_snapshots;
+    END IF;
+    IF v_from IS NULL OR v_from >= v_to THEN
+        RETURN 0;
+    END IF;
+
+    INSERT INTO pnode_snapshot_rollups (
+        resolution, node_id, bucket, samples, online_samples, status, uptime, latency_ms, latency_max_ms,
+        score, credits, credits_delta, storage_used_gb, storage_capacity_gb, peers_connected
+    )
+    SELECT
+        p_resolution,
+        node_id,
+        date_bin(v_interval, recorded_at, v_origin) AS bucket,
+        COUNT(*)::INTEGER,
+        (COUNT(*) FILTER (WHERE status = 'online'))::INTEGER,
+        (array_agg(status ORDER BY recorded_at DESC))[1],
+        AVG(uptime),
+        AVG(latency_ms),
+        MAX(latency_ms),
+        AVG(score),
+        (array_agg(credits ORDER BY recorded_at DESC))[1],
+        SUM(credits_delta),
+        AVG(storage_used_gb),
+        MAX(storage_capacity_gb),
+        AVG(peers_connected)
+    FROM pnode_snapshots
+    WHERE recorded_at >= v_from AND recorded_at < v_to
+    GROUP BY node_id, date_bin(v_interval, recorded_at, v_origin)
+    ON CONFLICT (resolution, node_id, bucket) DO UPDATE
+        SET samples = EXCLUDED.samples,
+            online_samples = EXCLUDED.online_samples,
+            status = EXCLUDED.status,
+            uptime = EXCLUDED.uptime,
+            latency_ms = EXCLUDED.latency_ms,
+            latency_max_ms = EXCLUDED.latency_max_ms,
+            score = EXCLUDED.score,
+            credits = EXCLUDED.credits,
+            credits_delta = EXCLUDED.credits_delta,
+            storage_used_gb = EXCLUDED.storage_used_gb,
+            storage_capacity_gb = EXCLUDED.storage_capacity_gb,
+            peers_connected = EXCLUDED.peers_connected;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$;
+
+-- Enable Row Level Security
+ALTER TABLE network_stats_rollups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pnode_snapshot_rollups ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all for network_stats_rollups" ON network_stats_rollups;
+CREATE POLICY "Allow all for network_stats_rollups" ON network_stats_rollups FOR ALL USING (true);
+
+DROP POLICY IF EXISTS "Allow all for pnode_snapshot_rollups" ON pnode_snapshot_rollups;
+CREATE POLICY "Allow all for pnode_snapshot_rollups" ON pnode_snapshot_rollups FOR ALL USING (true);
+
+COMMENT ON TABLE network_stats_rollups IS 'Hourly and daily network_stats aggregates; outlive the raw rows under the retention policy';
+COMMENT ON TABLE pnode_snapshot_rollups IS 'Hourly and daily pnode_snapshots aggregates per node';
+COMMENT ON COLUMN pnode_snapshot_rollups.status IS 'Status at the last snapshot in the bucket';
+COMMENT ON COLUMN pnode_snapshot_rollups.credits IS 'Credits at the last snapshot in the bucket';
+COMMENT ON COLUMN pnode_snapshot_rollups.credits_delta IS 'Sum of per-run credits changes within the bucket';
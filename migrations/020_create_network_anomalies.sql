@@ -0,0 +1,89 @@
+-- Migration: Anomalies detected on network and per-node metrics after each ingestion
+-- Run this in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS network_anomalies (
+    id BIGSERIAL PRIMARY KEY,
+    metric TEXT NOT NULL,
+    node_id TEXT, -- NULL for network-wide anomalies
+    method TEXT NOT NULL CHECK (method IN ('zscore', 'mad', 'seasonal')),
+    direction TEXT NOT NULL CHECK (direction IN ('spike', 'drop')),
+    value DOUBLE PRECISION NOT NULL,
+    baseline DOUBLE PRECISION NOT NULL,
+    score DOUBLE PRECISION NOT NULL,
+    event_type TEXT NOT NULL CHECK (event_type IN ('network_update', 'storage_alert')),
+    severity TEXT NOT NULL CHECK (severity IN ('info', 'warning', 'error')),
+    title TEXT NOT NULL,
+    message TEXT NOT NULL,
+    detected_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_network_anomalies_detected_at ON network_anomalies(detected_at DESC);
+CREATE INDEX IF NOT EXISTS idx_network_anomalies_metric_node ON network_anomalies(metric, node_id, detected_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE network_anomalies ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all for network_anomalies" ON network_anomalies;
+CREATE POLICY "Allow all for network_anomalies" ON network_anomalies FOR ALL USING (true);
+
+-- Credits earned across all nodes per ingestion run
+CREATE OR REPLACE FUNCTION network_credits_accrual(p_from TIMESTAMPTZ)
+RETURNS TABLE (recorded_at TIMESTAMPTZ, credits_delta DOUBLE PRECISION, nodes INTEGER)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT s.recorded_at, SUM(s.credits_delta)::DOUBLE PRECISION, COUNT(*)::INTEGER
+    FROM pnode_snapshots s
+    WHERE s.recorded_at >= p_from
+    GROUP BY s.recorded_at
+    ORDER BY s.recorded_at;
+$$;
+
+-- Per-node median and MAD of latency and credits accrual while online, over the runs
+-- since p_from except the latest one (the run being checked against them)
+CREATE OR REPLACE FUNCTION pnode_metric_baselines(p_from TIMESTAMPTZ)
+RETURNS TABLE (
+    node_id TEXT,
+    latency_samples INTEGER,
+    latency_median DOUBLE PRECISION,
+    latency_mad DOUBLE PRECISION,
+    credits_samples INTEGER,
+    credits_median DOUBLE PRECISION,
+    credits_mad DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+AS $$
+    WITH baseline AS (
+        SELECT s.node_id, NULLIF(s.latency_ms, 0) AS latency_ms, s.credits_delta
+        FROM pnode_snapshots s
+        WHERE s.recorded_at >= p_from
+          AND s.recorded_at < (SELECT MAX(recorded_at) FROM pnode_snapshots)
+          AND s.status = 'online'
+    ),
+    medians AS (
+        SELECT
+            b.node_id,
+            COUNT(b.latency_ms)::INTEGER AS latency_samples,
+            percentile_cont(0.5) WITHIN GROUP (ORDER BY b.latency_ms) AS latency_median,
+            COUNT(b.credits_delta)::INTEGER AS credits_samples,
+            percentile_cont(0.5) WITHIN GROUP (ORDER BY b.credits_delta) AS credits_median
+        FROM baseline b
+        GROUP BY b.node_id
+    )
+    SELECT
+        m.node_id,
+        m.latency_samples,
+        m.latency_median,
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY ABS(b.latency_ms - m.latency_median)) AS latency_mad,
+        m.credits_samples,
+        m.credits_median,
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY ABS(b.credits_delta - m.credits_median)) AS credits_mad
+    FROM medians m
+    JOIN baseline b ON b.node_id = m.node_id
+    GROUP BY m.node_id, m.latency_samples, m.latency_median, m.credits_samples, m.credits_median;
+$$;
+
+COMMENT ON TABLE network_anomalies IS 'Metric values far outside their recent or seasonal baseline; shown in the events feed and on charts';
+COMMENT ON COLUMN network_anomalies.method IS 'Baseline used: seasonal (same hour on previous days), mad (rolling median/MAD) or zscore (rolling mean/stddev)';
+COMMENT ON COLUMN network_anomalies.score IS 'Deviation from the baseline in robust standard deviations; negative for drops';
@@ -0,0 +1,35 @@
+-- Migration: Bucketed per-node history from raw pnode_snapshots
+-- Run this in your Supabase SQL Editor
+
+-- One row per bucket of p_bucket_seconds for a single node, aggregated the same way
+-- as pnode_snapshot_rollups, so long ranges aren't truncated by the row limit
+CREATE OR REPLACE FUNCTION pnode_snapshot_buckets(p_node_id TEXT, p_from TIMESTAMPTZ, p_to TIMESTAMPTZ, p_bucket_seconds INTEGER)
+RETURNS TABLE (
+    bucket TIMESTAMPTZ,
+    samples INTEGER,
+    status TEXT,
+    uptime DOUBLE PRECISION,
+    latency_ms DOUBLE PRECISION,
+    score DOUBLE PRECISION,
+    credits DOUBLE PRECISION,
+    credits_delta DOUBLE PRECISION,
+    storage_used_gb DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT
+        date_bin(make_interval(secs => p_bucket_seconds), s.recorded_at, TIMESTAMPTZ '1970-01-01 00:00:00+00') AS bucket,
+        COUNT(*)::INTEGER,
+        (array_agg(s.status ORDER BY s.recorded_at DESC))[1],
+        AVG(s.uptime),
+        AVG(s.latency_ms),
+        AVG(s.score),
+        (array_agg(s.credits ORDER BY s.recorded_at DESC))[1],
+        SUM(s.credits_delta),
+        AVG(s.storage_used_gb)
+    FROM pnode_snapshots s
+    WHERE s.node_id = p_node_id AND s.recorded_at >= p_from AND s.recorded_at < p_to
+    GROUP BY 1
+    ORDER BY 1;
+$$;
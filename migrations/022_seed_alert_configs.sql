@@ -0,0 +1,38 @@
+-- Migration: Seed the default alert rules once
+-- Run this in your Supabase SQL Editor
+
+-- credits_stall rules were added after the original type check
+ALTER TABLE alert_configs DROP CONSTRAINT IF EXISTS alert_configs_type_check;
+ALTER TABLE alert_configs ADD CONSTRAINT alert_configs_type_check
+    CHECK (type IN ('uptime', 'latency', 'score', 'storage', 'commission', 'gossip', 'credits_stall'));
+
+-- Share of each node's snapshots since p_since in which it was online or degraded;
+-- uptime rules compare against this instead of the process uptime
+CREATE OR REPLACE FUNCTION pnode_availability(p_since TIMESTAMPTZ)
+RETURNS TABLE (node_id TEXT, samples INTEGER, active_samples INTEGER)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT
+        s.node_id,
+        COUNT(*)::INTEGER,
+        (COUNT(*) FILTER (WHERE s.status IN ('online', 'degraded')))::INTEGER
+    FROM pnode_snapshots s
+    WHERE s.recorded_at >= p_since
+    GROUP BY s.node_id;
+$$;
+
+-- Only into an empty table: rules that were saved (or all deleted) before are left alone.
+-- After this, an empty alert_configs means no rules.
+-- Uptime is 24h availability (%); commission is the size of a change recorded in that run,
+-- so the commission rule fires on the first breach instead of waiting for a second one.
+INSERT INTO alert_configs (id, name, enabled, type, condition, threshold, severity, channels, consecutive_breaches)
+SELECT * FROM (VALUES
+    ('alert_uptime_low', 'Low Uptime Alert', TRUE, 'uptime', 'below', 95::DOUBLE PRECISION, 'warning', '[{"type": "in_app", "enabled": true}]'::jsonb, NULL::INTEGER),
+    ('alert_uptime_critical', 'Critical Uptime Alert', TRUE, 'uptime', 'below', 80, 'critical', '[{"type": "in_app", "enabled": true}]'::jsonb, NULL),
+    ('alert_latency_high', 'High Latency Alert', TRUE, 'latency', 'above', 200, 'warning', '[{"type": "in_app", "enabled": true}]'::jsonb, NULL),
+    ('alert_score_low', 'Low Performance Score', TRUE, 'score', 'below', 50, 'warning', '[{"type": "in_app", "enabled": true}]'::jsonb, NULL),
+    ('alert_credits_stalled', 'Credits Stalled', TRUE, 'credits_stall', 'above', 120, 'warning', '[{"type": "in_app", "enabled": true}]'::jsonb, NULL),
+    ('alert_commission_change', 'Commission Change Alert', TRUE, 'commission', 'above', 0, 'info', '[{"type": "in_app", "enabled": true}]'::jsonb, 1)
+) AS defaults(id, name, enabled, type, condition, threshold, severity, channels, consecutive_breaches)
+WHERE NOT EXISTS (SELECT 1 FROM alert_configs);
@@ -0,0 +1,82 @@
+-- Migration: pRPC seed outcomes shared by every server instance
+-- Run this in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS prpc_seed_health (
+    ip TEXT PRIMARY KEY,
+    source TEXT NOT NULL CHECK (source IN ('default', 'configured')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    successes INTEGER NOT NULL DEFAULT 0,
+    failures INTEGER NOT NULL DEFAULT 0,
+    consecutive_failures INTEGER NOT NULL DEFAULT 0,
+    total_latency_ms BIGINT NOT NULL DEFAULT 0,
+    -- Exponentially decayed counterparts of the counters above, as of updated_at
+    recent_successes DOUBLE PRECISION NOT NULL DEFAULT 0,
+    recent_failures DOUBLE PRECISION NOT NULL DEFAULT 0,
+    recent_latency_ms DOUBLE PRECISION NOT NULL DEFAULT 0,
+    last_error TEXT,
+    last_success_at TIMESTAMPTZ,
+    last_failure_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Add one call's outcome to a seed's counters in place, so concurrent instances don't
+-- overwrite each other's results. The recent_* counters are halved every
+-- p_half_life_seconds before the outcome is added.
+CREATE OR REPLACE FUNCTION record_prpc_seed_result(
+    p_ip TEXT,
+    p_source TEXT,
+    p_ok BOOLEAN,
+    p_latency_ms INTEGER,
+    p_error TEXT,
+    p_half_life_seconds DOUBLE PRECISION
+)
+RETURNS VOID
+LANGUAGE sql
+AS $$
+    INSERT INTO prpc_seed_health AS h (
+        ip, source, attempts, successes, failures, consecutive_failures, total_latency_ms,
+        recent_successes, recent_failures, recent_latency_ms,
+        last_error, last_success_at, last_failure_at, updated_at
+    )
+    VALUES (
+        p_ip, p_source, 1,
+        CASE WHEN p_ok THEN 1 ELSE 0 END,
+        CASE WHEN p_ok THEN 0 ELSE 1 END,
+        CASE WHEN p_ok THEN 0 ELSE 1 END,
+        CASE WHEN p_ok THEN p_latency_ms ELSE 0 END,
+        CASE WHEN p_ok THEN 1 ELSE 0 END,
+        CASE WHEN p_ok THEN 0 ELSE 1 END,
+        CASE WHEN p_ok THEN p_latency_ms ELSE 0 END,
+        CASE WHEN p_ok THEN NULL ELSE p_error END,
+        CASE WHEN p_ok THEN NOW() END,
+        CASE WHEN p_ok THEN NULL ELSE NOW() END,
+        NOW()
+    )
+    ON CONFLICT (ip) DO UPDATE SET
+        source = EXCLUDED.source,
+        attempts = h.attempts + 1,
+        successes = h.successes + EXCLUDED.successes,
+        failures = h.failures + EXCLUDED.failures,
+        consecutive_failures = CASE WHEN p_ok THEN 0 ELSE h.consecutive_failures + 1 END,
+        total_latency_ms = h.total_latency_ms + EXCLUDED.total_latency_ms,
+        recent_successes = h.recent_successes * power(0.5, extract(epoch FROM NOW() - h.updated_at) / p_half_life_seconds)
+            + EXCLUDED.recent_successes,
+        recent_failures = h.recent_failures * power(0.5, extract(epoch FROM NOW() - h.updated_at) / p_half_life_seconds)
+            + EXCLUDED.recent_failures,
+        recent_latency_ms = h.recent_latency_ms * power(0.5, extract(epoch FROM NOW() - h.updated_at) / p_half_life_seconds)
+            + EXCLUDED.recent_latency_ms,
+        last_error = COALESCE(EXCLUDED.last_error, h.last_error),
+        last_success_at = COALESCE(EXCLUDED.last_success_at, h.last_success_at),
+        last_failure_at = COALESCE(EXCLUDED.last_failure_at, h.last_failure_at),
+        updated_at = NOW();
+$$;
+
+-- Enable Row Level Security
+ALTER TABLE prpc_seed_health ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all for prpc_seed_health" ON prpc_seed_health;
+CREATE POLICY "Allow all for prpc_seed_health" ON prpc_seed_health FOR ALL USING (true);
+
+COMMENT ON TABLE prpc_seed_health IS 'pRPC call outcomes per seed, used to rank seeds across cold starts and instances';
+COMMENT ON COLUMN prpc_seed_health.total_latency_ms IS 'Sum over successful calls; divide by successes for the average';
+COMMENT ON COLUMN prpc_seed_health.recent_successes IS 'Decayed success count that seeds are ranked by; decay further from updated_at before use';
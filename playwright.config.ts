@@ -0,0 +1,13 @@
+import { defineConfig } from '@playwright/test';
+
+// unit: pure logic and local stand-ins, runs anywhere (npm test)
+// e2e: needs the app on localhost:5000 and a browser (npm run test:e2e)
+const E2E_SPECS = 'verification.spec.ts';
+
+export default defineConfig({
+    testDir: './tests',
+    projects: [
+        { name: 'unit', testIgnore: E2E_SPECS },
+        { name: 'e2e', testMatch: E2E_SPECS },
+    ],
+});
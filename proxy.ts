@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ADMIN_PASSWORD, ADMIN_USERNAME } from '@/server/api/config';
+
+// Compares every character so the time taken doesn't reveal how much of a guess matched
+function safeEqual(a: string, b: string): boolean {
+    let diff = a.length ^ b.length;
+    for (let i = 0; i < Math.max(a.length, b.length); i++) {
+        diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+    }
+    return diff === 0;
+}
+
+function isAdminRequest(request: NextRequest): boolean {
+    const header = request.headers.get('authorization') || '';
+    if (!ADMIN_PASSWORD || !header.startsWith('Basic ')) return false;
+
+    let decoded: string;
+    try {
+        decoded = atob(header.slice('Basic '.length));
+    } catch {
+        return false;
+    }
+    const separator = decoded.indexOf(':');
+    return separator >= 0
+        && safeEqual(decoded.slice(0, separator), ADMIN_USERNAME)
+        && safeEqual(decoded.slice(separator + 1), ADMIN_PASSWORD);
+}
+
+/**
+ * HTTP Basic auth in front of the admin pages and webhook test sends.
+ * Without ADMIN_PASSWORD the pages stay open; the test route refuses on its own.
+ */
+export function proxy(request: NextRequest) {
+    if (!ADMIN_PASSWORD || isAdminRequest(request)) return NextResponse.next();
+
+    return new NextResponse('Authentication required', {
+        status: 401,
+        headers: { 'WWW-Authenticate': 'Basic realm="Xandeum admin", charset="UTF-8"' },
+    });
+}
+
+export const config = {
+    matcher: ['/admin/:path*', '/alerts/:path*', '/api/webhooks/test'],
+};
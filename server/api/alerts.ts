@@ -0,0 +1,257 @@
+import { PNode, Alert, AlertConfig } from '@/types/pnode';
+import { supabase } from '@/lib/supabase';
+import {
+    getAlertConfigs, getOpenAlerts, saveAlerts, checkAlertCondition, createAlert,
+    DEFAULT_ALERT_COOLDOWN_MINUTES, DEFAULT_CONSECUTIVE_BREACHES,
+} from '@/lib/alerts';
+import { dispatchAlertWebhooks } from './webhooks';
+
+// Window the uptime metric's online ratio is measured over
+const AVAILABILITY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Consecutive breach/recovery counters per rule and node, carried between ingestions
+interface AlertState {
+    id: string;
+    configId: string;
+    nodeId: string;
+    breachCount: number;
+    clearCount: number;
+}
+
+// Per-node values that come from history rather than the node itself
+export interface AlertContext {
+    availability: Map<string, number>; // % of the last 24h's snapshots the node was online or degraded
+    commissionChanges: Map<string, number> | null; // Change recorded this run; null when it wasn't recorded
+}
+
+const stateKey = (configId: string, nodeId: string) => `${configId}:${nodeId}`;
+
+/**
+ * Read the value an alert rule of the given type is compared against.
+ * Returns null when the node has no value for that type.
+ */
+export function getAlertMetricValue(type: AlertConfig['type'], node: PNode, context: AlertContext): number | null {
+    switch (type) {
+        case 'uptime':
+            // Availability, not process uptime: a restart doesn't lower it
+            return context.availability.get(node.id) ?? null;
+        case 'latency':
+            return node.metrics.responseTimeMs > 0 ? node.metrics.responseTimeMs : null;
+        case 'score':
+            return node.performance.score;
+        case 'storage':
+            // Utilization of committed storage
+            return node.metrics.storageCapacityGB > 0 && node.metrics.storageUsedGB !== null
+                ? (node.metrics.storageUsedGB / node.metrics.storageCapacityGB) * 100
+                : null;
+        case 'gossip':
+            return node.gossip.peersConnected;
+        case 'commission':
+            // Size of the commission change recorded this run, 0 when it didn't change
+            if (!node.staking || !context.commissionChanges) return null;
+            return Math.abs(context.commissionChanges.get(node.id) ?? 0);
+        case 'credits_stall':
+            // Minutes since credits last went up; only online nodes are expected to earn
+            if (node.status === 'offline' || !node.creditsIncreasedAt) return null;
+            return (Date.now() - new Date(node.creditsIncreasedAt).getTime()) / 60000;
+        default:
+            return null;
+    }
+}
+
+function isNodeInScope(config: AlertConfig, node: PNode): boolean {
+    if (!config.nodeIds || config.nodeIds.length === 0) return true;
+    return config.nodeIds.includes(node.id) || config.nodeIds.includes(node.pubkey);
+}
+
+/**
+ * Share of each node's snapshots over the last 24h in which it was online or degraded.
+ */
+async function getNodeAvailability(): Promise<Map<string, number>> {
+    const availability = new Map<string, number>();
+    const { data, error } = await supabase.rpc('pnode_availability', {
+        p_since: new Date(Date.now() - AVAILABILITY_WINDOW_MS).toISOString(),
+    });
+
+    if (error) {
+        console.log('Node availability fetch error:', error.message);
+        return availability;
+    }
+
+    (data || []).forEach((row: any) => {
+        if (row.samples > 0) availability.set(row.node_id, (row.active_samples / row.samples) * 100);
+    });
+    return availability;
+}
+
+async function getAlertStates(): Promise<Map<string, AlertState>> {
+    const states = new Map<string, AlertState>();
+    const { data, error } = await supabase.from('alert_states').select('*');
+
+    if (error) {
+        console.log('Alert states fetch error:', error.message);
+        return states;
+    }
+
+    (data || []).forEach((row: any) => {
+        states.set(row.id, {
+            id: row.id,
+            configId: row.config_id,
+            nodeId: row.node_id,
+            breachCount: row.breach_count || 0,
+            clearCount: row.clear_count || 0,
+        });
+    });
+    return states;
+}
+
+async function saveAlertStates(updated: AlertState[], clearedIds: string[]): Promise<void> {
+    if (updated.length > 0) {
+        const { error } = await supabase.from('alert_states').upsert(updated.map(state => ({
+            id: state.id,
+            config_id: state.configId,
+            node_id: state.nodeId,
+            breach_count: state.breachCount,
+            clear_count: state.clearCount,
+            updated_at: new Date().toISOString(),
+        })));
+        if (error) console.error('Error saving alert states:', error);
+    }
+
+    if (clearedIds.length > 0) {
+        const { error } = await supabase.from('alert_states').delete().in('id', clearedIds);
+        if (error) console.error('Error clearing alert states:', error);
+    }
+}
+
+/**
+ * Evaluate every enabled alert rule against the freshly ingested nodes.
+ *
+ * A rule/node pair fires after `consecutiveBreaches` breaching ingestions in a row and
+ * stays a single open alert until the value has recovered for the same number of runs,
+ * at which point it is resolved with its duration. While open, the alert is re-sent to
+ * the rule's external channels at most once per `cooldownMinutes`. Open alerts that
+ * weren't evaluated this run (node gone or out of scope, rule disabled or deleted, no
+ * value for the metric) are resolved straight away, since nothing would close them.
+ * `commissionChanges` comes from this run's commission stage; when that stage failed
+ * commission rules have no value and are skipped.
+ */
+export async function evaluateAlerts(
+    nodes: PNode[],
+    commissionChanges: Map<string, number> | null
+): Promise<Alert[]> {
+    // An empty node list means the ingestion found nothing, not that every node left
+    if (nodes.length === 0) return [];
+    const configs = (await getAlertConfigs()).filter(c => c.enabled);
+
+    const [states, openAlerts, availability] = await Promise.all([
+        getAlertStates(),
+        getOpenAlerts(),
+        configs.some(c => c.type === 'uptime') ? getNodeAvailability() : Promise.resolve(new Map<string, number>()),
+    ]);
+    const context: AlertContext = { availability, commissionChanges };
+    const openByKey = new Map(openAlerts.map(a => [stateKey(a.configId, a.nodeId || ''), a]));
+
+    const now = Date.now();
+    const nowIso = new Date(now).toISOString();
+
+    const fired: Alert[] = [];
+    const renotified: Alert[] = [];
+    const changed: Alert[] = [];
+    const resolved: Alert[] = [];
+    const updatedStates: AlertState[] = [];
+    const clearedStateIds: string[] = [];
+    const evaluated = new Set<string>();
+
+    configs.forEach(config => {
+        const required = Math.max(1, config.consecutiveBreaches ?? DEFAULT_CONSECUTIVE_BREACHES);
+        const cooldownMs = (config.cooldownMinutes ?? DEFAULT_ALERT_COOLDOWN_MINUTES) * 60 * 1000;
+
+        nodes.forEach(node => {
+            if (!isNodeInScope(config, node)) return;
+
+            const value = getAlertMetricValue(config.type, node, context);
+            if (value === null) return;
+
+            const key = stateKey(config.id, node.id);
+            evaluated.add(key);
+            const previous = states.get(key);
+            const breached = checkAlertCondition(config, value);
+            const state: AlertState = {
+                id: key,
+                configId: config.id,
+                nodeId: node.id,
+                breachCount: breached ? (previous?.breachCount || 0) + 1 : 0,
+                clearCount: breached ? 0 : (previous?.clearCount || 0) + 1,
+            };
+
+            const open = openByKey.get(key);
+            let isOpen = !!open;
+
+            if (breached) {
+                if (open) {
+                    const lastNotified = new Date(open.lastNotifiedAt || open.timestamp).getTime();
+                    const updated: Alert = { ...open, value, occurrences: open.occurrences + 1 };
+                    if (now - lastNotified >= cooldownMs) {
+                        updated.lastNotifiedAt = nowIso;
+                        renotified.push(updated);
+                    }
+                    changed.push(updated);
+                } else if (state.breachCount >= required) {
+                    fired.push(createAlert(config, value, node.id, node.pubkey));
+                    isOpen = true;
+                }
+            } else if (open && state.clearCount >= required) {
+                resolved.push({
+                    ...open,
+                    value,
+                    status: 'resolved',
+                    resolvedAt: nowIso,
+                    durationMs: now - new Date(open.timestamp).getTime(),
+                });
+                isOpen = false;
+            }
+
+            // Only pairs that are breaching or still open need their counters carried over
+            if (state.breachCount > 0 || isOpen) {
+                updatedStates.push(state);
+            } else if (previous) {
+                clearedStateIds.push(key);
+            }
+        });
+    });
+
+    openByKey.forEach((open, key) => {
+        if (evaluated.has(key)) return;
+        resolved.push({
+            ...open,
+            status: 'resolved',
+            resolvedAt: nowIso,
+            durationMs: now - new Date(open.timestamp).getTime(),
+        });
+    });
+    // Counters of pairs not evaluated this run no longer describe consecutive runs
+    states.forEach((_, key) => {
+        if (!evaluated.has(key)) clearedStateIds.push(key);
+    });
+
+    await saveAlerts([...fired, ...changed, ...resolved]);
+    await saveAlertStates(updatedStates, clearedStateIds);
+
+    const toNotify = [...fired, ...renotified];
+    if (toNotify.length > 0) {
+        await dispatchAlertWebhooks(toNotify, configs);
+    }
+
+    if (fired.length > 0) {
+        const triggeredIds = Array.from(new Set(fired.map(a => a.configId)));
+        const { error } = await supabase
+            .from('alert_configs')
+            .update({ last_triggered: nowIso })
+            .in('id', triggeredIds);
+        if (error) console.error('Error updating alert last_triggered:', error);
+    }
+
+    console.log(`Alerts: ${fired.length} fired, ${renotified.length} re-notified, ${resolved.length} resolved.`);
+    return fired;
+}
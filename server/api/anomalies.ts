@@ -0,0 +1,293 @@
+import { PNode, NetworkEvent, Anomaly, AnomalyDirection, NetworkAnomalyMetric, NodeAnomalyMetric } from '@/types/pnode';
+import { supabase } from '@/lib/supabase';
+import { isActiveNode } from '@/lib/pnode-utils-client';
+import { AnomalyOptions, AnomalyScore, MAD_SCALE, scoreAnomaly, scoreDeviation } from '@/lib/anomalies';
+import {
+    ANOMALY_THRESHOLD, ANOMALY_WINDOW_RUNS, ANOMALY_NODE_BASELINE_MS,
+    ANOMALY_COOLDOWN_MINUTES, ANOMALY_MAX_NODE_EVENTS,
+} from './config';
+import { getNetworkStatsBuckets, TimeRange } from './timeseries';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+// Recorded anomalies shown in the events feed
+const ANOMALY_EVENTS_LIMIT = 20;
+// Recent values (network) or baseline samples (per node) needed before scoring
+const MIN_SAMPLES = 8;
+
+interface AnomalyRule<M extends string> {
+    metric: M;
+    label: string;
+    unit: string;
+    direction?: AnomalyDirection; // both when unset
+    minRelativeChange: number; // fraction of the baseline
+    seasonal?: boolean; // compare against the same hour on previous days
+    eventType: Extract<NetworkEvent['type'], 'network_update' | 'storage_alert'>;
+}
+
+const NETWORK_RULES: AnomalyRule<NetworkAnomalyMetric>[] = [
+    { metric: 'online_nodes', label: 'Online nodes', unit: '', direction: 'drop', minRelativeChange: 0.05, eventType: 'network_update' },
+    { metric: 'total_nodes', label: 'Total nodes', unit: '', direction: 'drop', minRelativeChange: 0.05, eventType: 'network_update' },
+    { metric: 'avg_response_time', label: 'Average latency', unit: 'ms', direction: 'spike', minRelativeChange: 0.25, seasonal: true, eventType: 'network_update' },
+    { metric: 'total_storage_tb', label: 'Committed storage', unit: 'TB', direction: 'drop', minRelativeChange: 0.05, eventType: 'storage_alert' },
+    { metric: 'total_storage_used_tb', label: 'Storage used', unit: 'TB', minRelativeChange: 0.05, eventType: 'storage_alert' },
+    { metric: 'credits_accrual', label: 'Credits accrual', unit: '', direction: 'drop', minRelativeChange: 0.5, eventType: 'network_update' },
+];
+
+const NODE_RULES: AnomalyRule<NodeAnomalyMetric>[] = [
+    { metric: 'latency_ms', label: 'Latency', unit: 'ms', direction: 'spike', minRelativeChange: 1, eventType: 'network_update' },
+    { metric: 'credits_delta', label: 'Credits accrual', unit: '', direction: 'drop', minRelativeChange: 0.9, eventType: 'network_update' },
+];
+
+interface Detection {
+    rule: AnomalyRule<string>;
+    score: AnomalyScore;
+    value: number;
+    node?: PNode;
+}
+
+const cooldownKey = (metric: string, nodeId?: string | null) => `${metric}:${nodeId || ''}`;
+
+function ruleOptions(rule: AnomalyRule<string>): AnomalyOptions {
+    return {
+        threshold: ANOMALY_THRESHOLD,
+        direction: rule.direction,
+        minRelativeChange: rule.minRelativeChange,
+        minSamples: MIN_SAMPLES,
+    };
+}
+
+function formatValue(value: number, unit: string): string {
+    const rounded = Math.abs(value) >= 100 ? value.toFixed(0) : value.toFixed(1);
+    return unit ? `${rounded}${unit}` : rounded;
+}
+
+// Columns of this run's network_stats row that the network rules check
+export type NetworkStatsSample = { updated_at: string } & Partial<Record<Exclude<NetworkAnomalyMetric, 'credits_accrual'>, number | null>>;
+
+// Values of a network metric over the latest runs, oldest first; the last is this run's.
+// network_stats metrics are left out when this run's row wasn't recorded.
+async function getNetworkMetricSeries(stats: NetworkStatsSample | null): Promise<Map<NetworkAnomalyMetric, number[]>> {
+    const series = new Map<NetworkAnomalyMetric, number[]>();
+
+    if (stats) {
+        const { data, error } = await supabase
+            .from('network_stats')
+            .select('online_nodes, total_nodes, avg_response_time, total_storage_tb, total_storage_used_tb')
+            .lt('updated_at', stats.updated_at)
+            .order('updated_at', { ascending: false })
+            .limit(ANOMALY_WINDOW_RUNS);
+
+        if (error) console.error('Error fetching network stats for anomaly detection:', error);
+        const rows: any[] = [...(data || []).reverse(), stats];
+        for (const rule of NETWORK_RULES) {
+            if (rule.metric === 'credits_accrual') continue;
+            const current = stats[rule.metric];
+            if (current === null || current === undefined) continue;
+            series.set(rule.metric, rows
+                .map(row => row[rule.metric])
+                .filter((v: number | null): v is number => v !== null && v !== undefined));
+        }
+    }
+
+    const { data: credits, error: creditsError } = await supabase.rpc('network_credits_accrual', {
+        p_from: new Date(Date.now() - DAY_MS).toISOString(),
+    });
+    if (creditsError) console.error('Error fetching credits accrual for anomaly detection:', creditsError);
+    // Runs without known credits have no accrual rather than zero, and when this run is
+    // one of them there is nothing to check
+    const accrual = (credits as any[]) || [];
+    series.set('credits_accrual', accrual[accrual.length - 1]?.credits_delta == null ? [] : accrual
+        .filter(row => row.credits_delta !== null)
+        .slice(-(ANOMALY_WINDOW_RUNS + 1))
+        .map(row => row.credits_delta));
+
+    return series;
+}
+
+// Hourly averages of a metric at the current hour of day on each of the previous 7 days
+async function getSamePhaseValues(metric: NetworkAnomalyMetric): Promise<number[]> {
+    const currentHour = new Date();
+    currentHour.setUTCMinutes(0, 0, 0);
+    const buckets = await getNetworkStatsBuckets(
+        { from: new Date(currentHour.getTime() - 7 * DAY_MS), to: currentHour, period: 'custom' },
+        '1h'
+    );
+
+    return buckets
+        .filter(b => new Date(b.timestamp).getUTCHours() === currentHour.getUTCHours())
+        .map(b => b.metrics[metric as keyof typeof b.metrics]?.avg)
+        .filter((v): v is number => v !== undefined);
+}
+
+async function detectNetworkAnomalies(stats: NetworkStatsSample | null): Promise<Detection[]> {
+    const series = await getNetworkMetricSeries(stats);
+    const detections: Detection[] = [];
+
+    for (const rule of NETWORK_RULES) {
+        const values = series.get(rule.metric) || [];
+        if (values.length === 0) continue;
+
+        const value = values[values.length - 1];
+        const score = scoreAnomaly(value, {
+            recent: values.slice(0, -1),
+            samePhase: rule.seasonal ? await getSamePhaseValues(rule.metric) : undefined,
+        }, ruleOptions(rule));
+
+        if (score?.anomalous) detections.push({ rule, score, value });
+    }
+
+    return detections;
+}
+
+async function detectNodeAnomalies(nodes: PNode[]): Promise<Detection[]> {
+    const { data, error } = await supabase.rpc('pnode_metric_baselines', {
+        p_from: new Date(Date.now() - ANOMALY_NODE_BASELINE_MS).toISOString(),
+    });
+
+    if (error || !data) {
+        if (error) console.error('Error fetching node baselines for anomaly detection:', error);
+        return [];
+    }
+
+    const baselines = new Map((data as any[]).map(row => [row.node_id, row]));
+    const detections: Detection[] = [];
+
+    for (const node of nodes) {
+        const baseline = baselines.get(node.id);
+        if (!baseline || !isActiveNode(node)) continue;
+
+        for (const rule of NODE_RULES) {
+            const [samples, center, mad, value] = rule.metric === 'latency_ms'
+                ? [baseline.latency_samples, baseline.latency_median, baseline.latency_mad, node.metrics.responseTimeMs]
+                : [baseline.credits_samples, baseline.credits_median, baseline.credits_mad, node.creditsDelta ?? null];
+
+            // No credits delta when the pod credits API failed this run
+            if (samples < MIN_SAMPLES || center === null || value === null) continue;
+            // No latency measured this run, or no accrual to collapse from
+            if (rule.metric === 'latency_ms' && value <= 0) continue;
+            if (rule.metric === 'credits_delta' && center <= 0) continue;
+
+            const score = scoreDeviation(value, center, (mad || 0) * MAD_SCALE, 'mad', ruleOptions(rule));
+            if (score.anomalous) detections.push({ rule, score, value, node });
+        }
+    }
+
+    return detections
+        .sort((a, b) => Math.abs(b.score.score) - Math.abs(a.score.score))
+        .slice(0, ANOMALY_MAX_NODE_EVENTS);
+}
+
+async function getCoolingDown(): Promise<Set<string>> {
+    const { data, error } = await supabase
+        .from('network_anomalies')
+        .select('metric, node_id')
+        .gte('detected_at', new Date(Date.now() - ANOMALY_COOLDOWN_MINUTES * 60 * 1000).toISOString());
+
+    if (error) throw error;
+    return new Set((data || []).map((row: any) => cooldownKey(row.metric, row.node_id)));
+}
+
+function toRow({ rule, score, value, node }: Detection, detectedAt: string) {
+    const change = score.direction === 'drop' ? 'dropped' : 'spiked';
+    const subject = node ? `${rule.label} on ${node.pubkey.slice(0, 8)}...` : rule.label;
+
+    return {
+        metric: rule.metric,
+        node_id: node?.id ?? null,
+        method: score.method,
+        direction: score.direction,
+        value,
+        baseline: score.baseline,
+        score: score.score,
+        event_type: rule.eventType,
+        severity: Math.abs(score.score) >= 2 * ANOMALY_THRESHOLD ? 'error' : 'warning',
+        title: `${subject} ${change}`,
+        message: `${subject} ${change} to ${formatValue(value, rule.unit)} against a baseline of ${formatValue(score.baseline, rule.unit)} (${score.method}, score ${score.score.toFixed(1)})`,
+        detected_at: detectedAt,
+    };
+}
+
+function mapAnomalyRow(row: any): Anomaly {
+    return {
+        id: String(row.id),
+        metric: row.metric,
+        nodeId: row.node_id || undefined,
+        method: row.method,
+        direction: row.direction,
+        value: row.value,
+        baseline: row.baseline,
+        score: row.score,
+        detectedAt: row.detected_at,
+    };
+}
+
+/**
+ * Check this run's network_stats row and each online node's latency and credits
+ * accrual against their baselines, and record the anomalies found. A metric (or node
+ * metric) flagged within the cooldown isn't recorded again. Pass null for stats when
+ * this run's row wasn't recorded, so an older run isn't checked in its place.
+ */
+export async function detectAnomalies(nodes: PNode[], stats: NetworkStatsSample | null): Promise<Anomaly[]> {
+    const [network, perNode, coolingDown] = await Promise.all([
+        detectNetworkAnomalies(stats),
+        detectNodeAnomalies(nodes),
+        getCoolingDown(),
+    ]);
+
+    const detectedAt = new Date().toISOString();
+    const rows = [...network, ...perNode]
+        .filter(d => !coolingDown.has(cooldownKey(d.rule.metric, d.node?.id)))
+        .map(d => toRow(d, detectedAt));
+    if (rows.length === 0) return [];
+
+    const { data, error } = await supabase.from('network_anomalies').insert(rows).select();
+    if (error) throw error;
+    return (data || []).map(mapAnomalyRow);
+}
+
+/**
+ * Recorded anomalies as events-feed entries, newest first.
+ */
+export async function getAnomalyEvents(limit: number = ANOMALY_EVENTS_LIMIT): Promise<NetworkEvent[]> {
+    const { data, error } = await supabase
+        .from('network_anomalies')
+        .select('*')
+        .order('detected_at', { ascending: false })
+        .limit(limit);
+
+    if (error || !data) {
+        if (error) console.error('Error fetching anomaly events:', error);
+        return [];
+    }
+
+    return data.map((row: any) => ({
+        id: `anomaly_${row.id}`,
+        type: row.event_type,
+        title: row.title,
+        message: row.message,
+        severity: row.severity,
+        timestamp: row.detected_at,
+        nodeId: row.node_id || undefined,
+    }));
+}
+
+/**
+ * Network-wide anomalies detected within the range, oldest first.
+ */
+export async function getNetworkAnomalies(range: TimeRange): Promise<Anomaly[]> {
+    const { data, error } = await supabase
+        .from('network_anomalies')
+        .select('*')
+        .is('node_id', null)
+        .gte('detected_at', range.from.toISOString())
+        .lt('detected_at', range.to.toISOString())
+        .order('detected_at', { ascending: true });
+
+    if (error || !data) {
+        if (error) console.error('Error fetching network anomalies:', error);
+        return [];
+    }
+
+    return data.map(mapAnomalyRow);
+}
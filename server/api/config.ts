@@ -1,8 +1,61 @@
 export const POD_CREDITS_API = process.env.POD_CREDITS_API_URL || 'https://podcredits.xandeum.network/api/pods-credits';
 export const DEVNET_RPC = process.env.XANDEUM_DEVNET_RPC || 'https://api.devnet.xandeum.com:8899';
-export const GEOLOCATION_API = process.env.GEOLOCATION_API_URL || 'http://ip-api.com/json'; // Note: http for free tier
+export const GEOLOCATION_API = process.env.GEOLOCATION_API_URL || 'http://ip-api.com/batch'; // Note: http for free tier
+export const TELEGRAM_API = process.env.TELEGRAM_API_URL || 'https://api.telegram.org'; // Override to point at a local stand-in
+
+// HTTP Basic auth for the admin pages (/admin, /alerts) and webhook test sends; disabled while the password is empty
+export const ADMIN_USERNAME = process.env.ADMIN_USERNAME || 'admin';
+export const ADMIN_PASSWORD = process.env.ADMIN_PASSWORD || '';
+
+// pRPC seed pool
+export const PRPC_SEED_IPS = (process.env.PRPC_SEED_IPS || '').split(',').map(ip => ip.trim()).filter(Boolean); // Extra seeds, tried alongside the library defaults
+export const PRPC_TIMEOUT_MS = parseInt(process.env.PRPC_TIMEOUT_MS || '5000', 10);
+export const PRPC_MAX_SEED_ATTEMPTS = parseInt(process.env.PRPC_MAX_SEED_ATTEMPTS || '3', 10); // Seeds tried before a call fails
+export const PRPC_MERGE_SEEDS = parseInt(process.env.PRPC_MERGE_SEEDS || '1', 10); // Seeds whose pod lists are merged each ingestion
 
 // Data refresh every 5 minutes
 export const REFRESH_INTERVAL = parseInt(process.env.DATA_REFRESH_INTERVAL_MS || '300000', 10);
 export const CACHE_DURATION = parseInt(process.env.CACHE_DURATION_MS || '300000', 10);
+// Lease on the ingestion lock; a crashed run frees the lock after this long
+export const INGESTION_LOCK_TTL_MS = parseInt(process.env.INGESTION_LOCK_TTL_MS || '600000', 10);
+
+// Degraded status classification
+export const DEGRADED_LATENCY_MS = parseInt(process.env.DEGRADED_LATENCY_MS || '1000', 10);
+export const DEGRADED_VERSION_LAG = parseInt(process.env.DEGRADED_VERSION_LAG || '1', 10); // Minor versions behind latest
+export const DEGRADED_CREDITS_DROP = parseFloat(process.env.DEGRADED_CREDITS_DROP || '0'); // Allowed credits decrease between runs
+export const DEGRADED_HEALTH_PROBE = process.env.DEGRADED_HEALTH_PROBE !== 'false';
+
+// Gossip view divergence (needs PRPC_MERGE_SEEDS > 1)
+export const GOSSIP_SKEW_THRESHOLD_SEC = parseInt(process.env.GOSSIP_SKEW_THRESHOLD_SEC || '120', 10); // last_seen spread flagged as skew
+export const GOSSIP_PARTITION_SIMILARITY = parseFloat(process.env.GOSSIP_PARTITION_SIMILARITY || '0.9'); // Jaccard overlap for two seeds to share a view
+
+// Nakamoto coefficient thresholds, in percent of the dimension's total
+export const NAKAMOTO_THRESHOLDS = (process.env.NAKAMOTO_THRESHOLDS || '33,51').split(',').map(t => parseFloat(t)).filter(t => t > 0 && t < 100);
+// Minimum spacing between decentralization snapshots (hourly keeps 30 days under the 1000-row query cap)
+export const DECENTRALIZATION_SNAPSHOT_INTERVAL_MS = parseInt(process.env.DECENTRALIZATION_SNAPSHOT_INTERVAL_MS || '3600000', 10);
+
+// Geolocation providers and the persistent ip_geolocation cache
+export const GEOIP_CITY_DB_PATH = process.env.GEOIP_CITY_DB_PATH || ''; // GeoLite2-City / dbip-city-lite .mmdb
+export const GEOIP_ASN_DB_PATH = process.env.GEOIP_ASN_DB_PATH || ''; // GeoLite2-ASN / dbip-asn-lite .mmdb
+export const GEOLOCATION_OFFLINE = process.env.GEOLOCATION_OFFLINE === 'true'; // Skip ip-api entirely
+export const GEOLOCATION_CACHE_TTL_MS = parseInt(process.env.GEOLOCATION_CACHE_TTL_MS || '604800000', 10); // 7 days
+
+// Epoch tracking: slot time is measured over this window of recorded getEpochInfo responses
+export const EPOCH_SLOT_TIME_WINDOW_MS = parseInt(process.env.EPOCH_SLOT_TIME_WINDOW_MS || '21600000', 10); // 6 hours
+// Online nodes whose credits haven't gone up for this long are reported as stalled
+export const CREDITS_STALL_THRESHOLD_MS = parseInt(process.env.CREDITS_STALL_THRESHOLD_MS || '7200000', 10); // 2 hours
+
+// Retention, run from the update-pnodes cron route. 0 keeps a tier forever.
+export const RETENTION_ENABLED = process.env.RETENTION_ENABLED !== 'false';
+export const RETENTION_RAW_DAYS = parseInt(process.env.RETENTION_RAW_DAYS || '7', 10); // network_stats / pnode_snapshots rows; at least 1 so daily rollups see every run
+export const RETENTION_HOURLY_DAYS = parseInt(process.env.RETENTION_HOURLY_DAYS || '90', 10);
+export const RETENTION_DAILY_DAYS = parseInt(process.env.RETENTION_DAILY_DAYS || '0', 10);
+export const RETENTION_EVENTS_DAYS = parseInt(process.env.RETENTION_EVENTS_DAYS || '90', 10); // Anomalies, ingestion runs, webhook deliveries, gossip divergence
 
+// Anomaly detection, run after every ingestion
+export const ANOMALY_DETECTION_ENABLED = process.env.ANOMALY_DETECTION_ENABLED !== 'false';
+export const ANOMALY_THRESHOLD = parseFloat(process.env.ANOMALY_THRESHOLD || '3.5'); // Robust z-score flagged as anomalous
+export const ANOMALY_WINDOW_RUNS = parseInt(process.env.ANOMALY_WINDOW_RUNS || '36', 10); // Runs in the rolling network baseline (3 hours at 5-minute ingestion)
+export const ANOMALY_NODE_BASELINE_MS = parseInt(process.env.ANOMALY_NODE_BASELINE_MS || '86400000', 10); // Per-node baseline window, 24 hours
+export const ANOMALY_COOLDOWN_MINUTES = parseInt(process.env.ANOMALY_COOLDOWN_MINUTES || '60', 10); // Per metric and node before flagging again
+export const ANOMALY_MAX_NODE_EVENTS = parseInt(process.env.ANOMALY_MAX_NODE_EVENTS || '10', 10); // Per-node anomalies recorded per run, largest first
@@ -0,0 +1,127 @@
+import { PNode, CreditsAccrual, CreditsStall, EpochCredits } from '@/types/pnode';
+import { supabase } from '@/lib/supabase';
+import { getClusterNodes } from './pnodes';
+import { getNodeHistory } from './history';
+import { CREDITS_STALL_THRESHOLD_MS } from './config';
+
+// Epochs returned with a node's accrual
+const EPOCH_CREDITS_LIMIT = 10;
+
+/**
+ * Upsert each node's credits for the current epoch. A node's first row in an epoch
+ * starts from its credits at the previous ingestion, so the run that crossed the
+ * boundary counts toward the new epoch (same as epoch_history).
+ */
+export async function recordEpochCredits(nodes: PNode[], epoch: number): Promise<number> {
+    if (nodes.length === 0) return 0;
+
+    const { data: existing, error: existingError } = await supabase
+        .from('pnode_epoch_credits')
+        .select('node_id, start_credits, samples')
+        .eq('epoch', epoch);
+    if (existingError) throw existingError;
+
+    const byNode = new Map<string, { start_credits: number; samples: number }>();
+    (existing || []).forEach((row: any) => byNode.set(row.node_id, row));
+
+    const updatedAt = new Date().toISOString();
+    const rows = nodes.map(node => {
+        const credits = node.credits || 0;
+        const current = byNode.get(node.id);
+        return {
+            node_id: node.id,
+            epoch,
+            start_credits: current ? current.start_credits : credits - (node.creditsDelta || 0),
+            end_credits: credits,
+            samples: (current?.samples || 0) + 1,
+            updated_at: updatedAt,
+        };
+    });
+
+    const { error } = await supabase.from('pnode_epoch_credits').upsert(rows, { onConflict: 'node_id,epoch' });
+    if (error) throw error;
+
+    return rows.length;
+}
+
+/**
+ * Online (or degraded) node whose credits haven't increased for CREDITS_STALL_THRESHOLD_MS.
+ * Offline nodes aren't expected to earn, so they are never stalled.
+ */
+export function isCreditsStalled(node: PNode, now: number = Date.now()): boolean {
+    if (node.status === 'offline' || !node.creditsIncreasedAt) return false;
+    return now - new Date(node.creditsIncreasedAt).getTime() > CREDITS_STALL_THRESHOLD_MS;
+}
+
+export async function getCreditsStalls(): Promise<CreditsStall[]> {
+    const nodes = await getClusterNodes();
+    const now = Date.now();
+
+    return nodes
+        .filter(node => isCreditsStalled(node, now))
+        .map(node => ({
+            nodeId: node.id,
+            pubkey: node.pubkey,
+            credits: node.credits || 0,
+            creditsIncreasedAt: node.creditsIncreasedAt!,
+            stalledForMs: now - new Date(node.creditsIncreasedAt!).getTime(),
+        }))
+        .sort((a, b) => b.stalledForMs - a.stalledForMs);
+}
+
+async function getNodeEpochCredits(nodeId: string): Promise<EpochCredits[]> {
+    const { data, error } = await supabase
+        .from('pnode_epoch_credits')
+        .select('*')
+        .eq('node_id', nodeId)
+        .order('epoch', { ascending: false })
+        .limit(EPOCH_CREDITS_LIMIT);
+
+    if (error || !data) {
+        if (error) console.error('Error fetching epoch credits:', error);
+        return [];
+    }
+
+    return data.map((row: any) => ({
+        epoch: row.epoch,
+        startCredits: row.start_credits,
+        endCredits: row.end_credits,
+        creditsEarned: row.end_credits - row.start_credits,
+        samples: row.samples,
+    }));
+}
+
+/**
+ * Credits deltas between ingestions, earning rate and per-epoch totals for one node.
+ */
+export async function getCreditsAccrual(
+    nodeId: string,
+    period: '24h' | '7d' | '30d' = '24h'
+): Promise<CreditsAccrual> {
+    const [nodes, history, epochs] = await Promise.all([
+        getClusterNodes(),
+        getNodeHistory(nodeId, period),
+        getNodeEpochCredits(nodeId),
+    ]);
+    const node = nodes.find(n => n.id === nodeId);
+    const points = history.dataPoints;
+
+    let earningRatePerHour = 0;
+    if (points.length > 1) {
+        const first = points[0];
+        const last = points[points.length - 1];
+        const hours = (new Date(last.timestamp).getTime() - new Date(first.timestamp).getTime()) / (60 * 60 * 1000);
+        earningRatePerHour = hours > 0 ? (last.credits - first.credits) / hours : 0;
+    }
+
+    return {
+        nodeId,
+        period,
+        credits: node?.credits || 0,
+        earningRatePerHour,
+        stalled: node ? isCreditsStalled(node) : false,
+        creditsIncreasedAt: node?.creditsIncreasedAt,
+        deltas: points.map(p => ({ timestamp: p.timestamp, credits: p.credits, delta: p.creditsDelta })),
+        epochs,
+    };
+}
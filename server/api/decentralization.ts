@@ -1,12 +1,21 @@
 import {
     DecentralizationMetrics, VersionInfo, HealthScoreBreakdown, TrendData,
-    XScore, GossipEvent, PeerRanking, SuperminorityInfo, CensorshipResistanceScore, PNode
+    XScore, GossipEvent, PeerRanking, SuperminorityInfo, CensorshipResistanceScore, PNode, ConcentrationIndex,
+    EntityGrouping, HealthScoreWeights, XScoreInputs, HistoryPeriod
 } from '@/types/pnode';
 import { getClusterNodes } from './pnodes';
 import { getNetworkStats, getGossipHealth } from './network';
-import { ASNS, hashPubkey, getTier } from './utils';
-
-export async function getDecentralizationMetrics(): Promise<DecentralizationMetrics> {
+import { ASNS, hashPubkey, getTier, shannonEntropy } from './utils';
+import { JURISDICTION_BLOCS, getJurisdiction, getBlocMemberships, getHostingProvider, HostingKind } from './jurisdictions';
+import { getScoreTrends } from './history';
+import { getStakeholders } from './entities';
+import { getNetworkStatsBuckets, resolveTimeRange, TimeRange, NetworkStatsMetric } from './timeseries';
+import { isActiveNode } from '@/lib/pnode-utils-client';
+import { NAKAMOTO_THRESHOLDS, DECENTRALIZATION_SNAPSHOT_INTERVAL_MS } from './config';
+import { supabase } from '@/lib/supabase';
+import { DEFAULT_SCORING_PROFILE_ID, getScoringProfile, normalizeWeights, computeXScore } from '@/lib/scoring';
+
+export async function getDecentralizationMetrics(grouping: EntityGrouping = 'pubkey'): Promise<DecentralizationMetrics> {
     const nodes = await getClusterNodes();
 
     const countryCount: Record<string, number> = {};
@@ -52,25 +61,93 @@ export async function getDecentralizationMetrics(): Promise<DecentralizationMetr
         .map(([asn, data]) => ({ asn, provider: data.provider, count: data.count, percentage: (data.count / total) * 100 }))
         .sort((a, b) => b.count - a.count);
 
-    const sortedCounts = Object.values(countryCount).sort((a, b) => b - a);
-    let nakamoto = 0;
-    let sum = 0;
-    for (const count of sortedCounts) {
-        sum += count;
-        nakamoto++;
-        if (sum > total / 2) break;
-    }
-
-    // Gini Coefficient Calculation (based on 'credits' as stake proxy)
-    const credits = nodes.map(n => n.credits || 0).sort((a, b) => a - b);
+    // Gini Coefficient Calculation (based on 'credits' as stake proxy), per node or per operator entity
+    const stakeholders = getStakeholders(nodes, grouping);
+    const credits = stakeholders.map(e => e.credits).sort((a, b) => a - b);
     const giniCoefficient = calculateGini(credits);
 
+    // 'Unknown' is missing geolocation, not an entity, so it is left out of the concentration indices
+    const known = (counts: Record<string, number>) =>
+        Object.entries(counts).filter(([key]) => key !== 'Unknown').map(([, count]) => count);
+
+    const dimensions: ConcentrationIndex[] = [
+        calculateConcentration('country', known(countryCount)),
+        calculateConcentration('asn', known(Object.fromEntries(Object.entries(asnCount).map(([asn, a]) => [asn, a.count])))),
+        calculateConcentration('datacenter', known(datacenterCount)),
+        calculateConcentration('credits', credits.filter(c => c > 0)),
+    ];
+
+    // Weakest axis: fewest entities to pass the highest threshold, then the most concentrated
+    const measured = dimensions.filter(d => d.entities > 0);
+    const weakest = measured.length > 0
+        ? measured.reduce((worst, d) => {
+            const value = d.coefficients[d.coefficients.length - 1]?.value ?? 0;
+            const worstValue = worst.coefficients[worst.coefficients.length - 1]?.value ?? 0;
+            return value < worstValue || (value === worstValue && d.hhi > worst.hhi) ? d : worst;
+        })
+        : null;
+
     return {
-        nakamotoCoefficient: nakamoto,
+        nakamotoCoefficient: weakest?.coefficients.find(c => c.threshold === 51)?.value
+            ?? weakest?.coefficients[weakest.coefficients.length - 1]?.value
+            ?? 0,
         giniCoefficient,
         countryDistribution,
         datacenterDistribution,
         asnDistribution,
+        dimensions,
+        weakestDimension: weakest?.dimension ?? null,
+        grouping,
+        entityCount: stakeholders.length,
+    };
+}
+
+/**
+ * Concentration of one dimension from the weight held by each entity
+ * (node counts per country/ASN/datacenter, or each node's credits).
+ */
+function calculateConcentration(dimension: ConcentrationIndex['dimension'], weights: number[]): ConcentrationIndex {
+    const sorted = weights.filter(w => w > 0).sort((a, b) => b - a);
+    const total = sorted.reduce((a, b) => a + b, 0);
+    const thresholds = [...NAKAMOTO_THRESHOLDS].sort((a, b) => a - b);
+
+    if (total === 0) {
+        return {
+            dimension,
+            entities: 0,
+            coefficients: thresholds.map(threshold => ({ threshold, value: 0 })),
+            hhi: 0,
+            entropy: 0,
+            normalizedEntropy: 0,
+            topSharePercent: 0,
+        };
+    }
+
+    const shares = sorted.map(w => w / total);
+
+    // Smallest number of entities whose combined share exceeds each threshold
+    const coefficients = thresholds.map(threshold => {
+        let cumulative = 0;
+        let value = 0;
+        for (const share of shares) {
+            cumulative += share;
+            value++;
+            if (cumulative * 100 > threshold) break;
+        }
+        return { threshold, value };
+    });
+
+    const hhi = shares.reduce((acc, share) => acc + (share * 100) ** 2, 0);
+    const entropy = shannonEntropy(sorted);
+
+    return {
+        dimension,
+        entities: sorted.length,
+        coefficients,
+        hhi: Math.round(hhi),
+        entropy,
+        normalizedEntropy: sorted.length > 1 ? entropy / Math.log2(sorted.length) : 0,
+        topSharePercent: shares[0] * 100,
     };
 }
 
@@ -135,50 +212,133 @@ export async function getVersionDistribution(): Promise<VersionInfo[]> {
 
 // ... existing code ...
 
+// Entities at which a factor's entropy scores 100 (e.g. 20 equally used countries)
+const GEOGRAPHIC_TARGET = 20;
+const JURISDICTION_TARGET = 8;
+const PROVIDER_TARGET = 12;
+
+const CENSORSHIP_FACTOR_WEIGHTS: Record<CensorshipResistanceScore['factors'][number]['id'], number> = {
+    geographic: 0.2,
+    jurisdiction: 0.25,
+    provider: 0.2,
+    cloud_independence: 0.15,
+    client: 0.2,
+};
+
+const HOSTING_KIND_LABELS: Record<HostingKind, string> = {
+    major_cloud: 'Major Cloud',
+    vps: 'VPS Cloud',
+    bare_metal: 'Bare Metal',
+    independent: 'Independent',
+};
+
+/**
+ * Entropy of the distribution as a 0-100 score, reaching 100 at `target` equally sized groups.
+ */
+function entropyScore(counts: number[], target: number): number {
+    return Math.min(100, (shannonEntropy(counts) / Math.log2(target)) * 100);
+}
+
+function countBy<T>(items: T[], key: (item: T) => string | null): Record<string, number> {
+    const counts: Record<string, number> = {};
+    items.forEach(item => {
+        const k = key(item);
+        if (k) counts[k] = (counts[k] || 0) + 1;
+    });
+    return counts;
+}
+
+function largest(counts: Record<string, number>): [string, number] {
+    return Object.entries(counts).sort((a, b) => b[1] - a[1])[0] || ['none', 0];
+}
+
 export async function getCensorshipResistanceScore(): Promise<CensorshipResistanceScore> {
-    const metrics = await getDecentralizationMetrics();
+    const nodes = await getClusterNodes();
     const versions = await getVersionDistribution();
 
-    const countries = metrics.countryDistribution.length;
-    const asns = metrics.asnDistribution.length;
-
-    const geographicDiversity = Math.min(100, countries * 5); // 20 countries = 100%
-    const asnDiversity = Math.min(100, asns * 12); // ~8 ASNs = 100%
-    const jurisdictionDiversity = Math.min(100, countries * 4); // 25 countries = 100%
-
-    // Client Diversity Calculation
-    // Use the Simpson Index (1 - sum(p^2)) normalized or just use the dominance of the top client.
-    // Since we only have versions, we can check if there are different MAJOR implementations.
-    // If all versions start with "0." or "1.", we assume it's the same client implementation.
-    // REALITY CHECK: Currently Xandeum likely has ONE client implementation.
-    // So the honest score is likely 0 unless there are multiple implementations.
-    // However, if we define diversity as "Not running a vulnerable version", maybe?
-    // But strict Client Diversity means different codebases.
-    // We will calculate it based on how many nodes are NOT running the dominant version *family*
-    // but honestly for now, if all are same implementation, it should be low.
-    // But to avoid alarming the user with a 0 if they expect "Version Diversity", let's use:
-    // Diversity of Versions as a proxy?
-    // Let's stay honest: 
-    // If we can't detect different client names in the version string (e.g. "Geth/v1...", "Nethermind/v1..."), we assume 1 client.
-    // Xandeum nodes report version like "0.7.0".
-
-    // Calculate entropy of versions as a placeholder for client diversity if we consider versions distinct enough
-    // But strictly speaking, it is 0.
-    // Let's default to 0 but if we find distinct "agents" in version string we calculate.
-
-    // For now, hardcode to 0 (Critical Risk) as there is only 1 client, 
-    // OR if user wants "Version Diversity" we can use that.
-    // Updated plan said: "I will calculate this based on the version strings... if all are same... likely dropping to 0."
-    // But to be slightly more useful, let's look for distinct major versions.
-
-    // Let's assume single client for now effectively.
-    // But if we want to show *some* score based on distribution:
+    const located = nodes.filter(n => n.location && n.location.countryCode !== 'UN');
+    const withAsn = nodes.filter(n => n.location?.asn && n.location.asn !== 'Unknown');
+    const pct = (count: number, total: number) => (total > 0 ? (count / total) * 100 : 0);
+
+    // Geography
+    const countries = countBy(located, n => n.location!.country);
+    const [topCountry, topCountryCount] = largest(countries);
+    const geographic = entropyScore(Object.values(countries), GEOGRAPHIC_TARGET);
+
+    // Jurisdictions: each node counts once, under its country's highest-precedence bloc
+    const jurisdictions = countBy(located, n => getJurisdiction(n.location!.countryCode));
+    const [topJurisdiction, topJurisdictionCount] = largest(jurisdictions);
+    const topJurisdictionName = JURISDICTION_BLOCS.find(b => b.id === topJurisdiction)?.name || topJurisdiction;
+    const jurisdiction = entropyScore(Object.values(jurisdictions), JURISDICTION_TARGET);
+
+    // Overlapping bloc exposure, for display
+    const blocs = JURISDICTION_BLOCS.map(bloc => {
+        const nodeCount = located.filter(n => getBlocMemberships(n.location!.countryCode).some(b => b.id === bloc.id)).length;
+        return { id: bloc.id, name: bloc.name, description: bloc.description, nodeCount, percentage: pct(nodeCount, located.length) };
+    });
+
+    // Hosting providers and hosting model
+    const providers = countBy(withAsn, n => getHostingProvider(n.location!.asn!).name);
+    const [topProvider, topProviderCount] = largest(providers);
+    const provider = entropyScore(Object.values(providers), PROVIDER_TARGET);
+
+    const kinds = countBy(withAsn, n => getHostingProvider(n.location!.asn!).kind);
+    const hosting = (Object.keys(HOSTING_KIND_LABELS) as HostingKind[]).map(kind => ({
+        kind,
+        label: HOSTING_KIND_LABELS[kind],
+        nodeCount: kinds[kind] || 0,
+        percentage: pct(kinds[kind] || 0, withAsn.length),
+    }));
+    const majorCloudShare = pct(kinds.major_cloud || 0, withAsn.length);
+    const cloudIndependence = withAsn.length > 0 ? 100 - majorCloudShare : 0;
+
+    // Client diversity: there is a single pNode implementation, so version spread is the only proxy
     const topVersionShare = versions[0]?.percentage || 100;
-    // If everyone is on one version, diversity is 0. If split, it's better.
-    // This is "Version Diversity" really.
-    const clientDiversity = Math.max(0, 100 - topVersionShare);
+    const client = Math.max(0, 100 - topVersionShare);
+
+    const factorScores: Record<keyof typeof CENSORSHIP_FACTOR_WEIGHTS, { name: string; score: number; description: string }> = {
+        geographic: {
+            name: 'Geographic Diversity',
+            score: geographic,
+            description: located.length > 0
+                ? `${Object.keys(countries).length} countries, entropy ${shannonEntropy(Object.values(countries)).toFixed(2)} bits; largest is ${topCountry} with ${pct(topCountryCount, located.length).toFixed(1)}% of located nodes`
+                : 'No geolocation data available',
+        },
+        jurisdiction: {
+            name: 'Jurisdiction Diversity',
+            score: jurisdiction,
+            description: located.length > 0
+                ? `${Object.keys(jurisdictions).length} legal jurisdictions after grouping blocs; ${topJurisdictionName} holds ${pct(topJurisdictionCount, located.length).toFixed(1)}% of nodes`
+                : 'No geolocation data available',
+        },
+        provider: {
+            name: 'Hosting Provider Diversity',
+            score: provider,
+            description: withAsn.length > 0
+                ? `${Object.keys(providers).length} providers; ${topProvider} hosts ${pct(topProviderCount, withAsn.length).toFixed(1)}% of nodes with a known ASN`
+                : 'No ASN data available',
+        },
+        cloud_independence: {
+            name: 'Cloud Independence',
+            score: cloudIndependence,
+            description: withAsn.length > 0
+                ? `${majorCloudShare.toFixed(1)}% of nodes run on major clouds that can deplatform at scale; ${pct(kinds.bare_metal || 0, withAsn.length).toFixed(1)}% on bare metal`
+                : 'No ASN data available',
+        },
+        client: {
+            name: 'Client Diversity',
+            score: client,
+            description: `Single client implementation; ${topVersionShare.toFixed(1)}% of nodes run the most common version (${versions[0]?.version || 'unknown'})`,
+        },
+    };
 
-    const overall = (geographicDiversity + asnDiversity + jurisdictionDiversity + clientDiversity) / 4;
+    const factors = (Object.keys(CENSORSHIP_FACTOR_WEIGHTS) as (keyof typeof CENSORSHIP_FACTOR_WEIGHTS)[]).map(id => ({
+        id,
+        ...factorScores[id],
+        weight: CENSORSHIP_FACTOR_WEIGHTS[id],
+        weightedScore: factorScores[id].score * CENSORSHIP_FACTOR_WEIGHTS[id],
+    }));
+    const overall = factors.reduce((acc, f) => acc + f.weightedScore, 0);
 
     let grade: 'A' | 'B' | 'C' | 'D' | 'F' = 'F';
     if (overall >= 80) grade = 'A';
@@ -188,12 +348,9 @@ export async function getCensorshipResistanceScore(): Promise<CensorshipResistan
 
     return {
         overall,
-        factors: {
-            geographicDiversity,
-            asnDiversity,
-            jurisdictionDiversity,
-            clientDiversity,
-        },
+        factors,
+        blocs,
+        hosting,
         grade,
     };
 }
@@ -207,15 +364,20 @@ export async function getPeerRankings(): Promise<PeerRanking[]> {
     const totalNodes = nodes.length;
 
     // Nodes are already sorted by credits in getClusterNodes
-    return nodes.slice(0, 20).map((node, i) => ({
+    const topNodes = nodes.slice(0, 20);
+
+    // Compare against recorded snapshots from 24h ago; nodes without history stay 'stable'
+    const trends = await getScoreTrends(topNodes, '24h');
+
+    return topNodes.map((node, i) => ({
         nodeId: node.id,
         nodePubkey: node.pubkey,
         rank: node.creditsRank || i + 1,
         totalNodes,
         percentile: totalNodes > 0 ? ((totalNodes - (node.creditsRank || i + 1)) / totalNodes) * 100 : 0,
         xScore: node.performance.score,
-        trend: 'stable' as const, // Would need historical data to calculate real trend
-        trendChange: 0,
+        trend: trends.get(node.id)?.trend || 'stable',
+        trendChange: trends.get(node.id)?.trendChange || 0,
     }));
 }
 
@@ -223,21 +385,23 @@ export async function getPeerRankings(): Promise<PeerRanking[]> {
  * Get superminority information - entities that control 33%+ of stake (using credits as proxy)
  * Used by Decentralization page
  */
-export async function getSuperminorityInfo(): Promise<SuperminorityInfo> {
+export async function getSuperminorityInfo(grouping: EntityGrouping = 'pubkey'): Promise<SuperminorityInfo> {
     const nodes = await getClusterNodes();
     const totalCredits = nodes.reduce((acc, n) => acc + (n.credits || 0), 0);
 
-    // Already sorted by credits (descending) from getClusterNodes
-    const superminority: { pubkey: string; stake: number; percentage: number }[] = [];
+    // Sorted by credits (descending); one stakeholder per node unless grouped by entity
+    const stakeholders = getStakeholders(nodes, grouping);
+    const superminority: SuperminorityInfo['nodes'] = [];
     let cumulative = 0;
 
-    for (const node of nodes) {
-        const nodeCredits = node.credits || 0;
-        cumulative += nodeCredits;
+    for (const entity of stakeholders) {
+        cumulative += entity.credits;
         superminority.push({
-            pubkey: node.pubkey,
-            stake: nodeCredits,
-            percentage: totalCredits > 0 ? (nodeCredits / totalCredits) * 100 : 0,
+            pubkey: entity.id,
+            label: grouping === 'entity' ? entity.label : undefined,
+            nodeCount: entity.pubkeys.length,
+            stake: entity.credits,
+            percentage: totalCredits > 0 ? (entity.credits / totalCredits) * 100 : 0,
         });
         // Stop when we've accumulated 33% of total credits
         if (totalCredits > 0 && cumulative / totalCredits >= 0.33) break;
@@ -246,6 +410,7 @@ export async function getSuperminorityInfo(): Promise<SuperminorityInfo> {
     return {
         count: superminority.length,
         threshold: 33,
+        grouping,
         nodes: superminority,
         riskLevel: superminority.length < 5 ? 'high' : superminority.length < 10 ? 'medium' : 'low',
     };
@@ -255,9 +420,11 @@ export async function getSuperminorityInfo(): Promise<SuperminorityInfo> {
  * Get health score breakdown with weighted factors
  * Used by Health page radar chart and factor cards
  */
-export async function getHealthScoreBreakdown(): Promise<HealthScoreBreakdown> {
+export async function getHealthScoreBreakdown(profileId: string = DEFAULT_SCORING_PROFILE_ID): Promise<HealthScoreBreakdown> {
     const nodes = await getClusterNodes();
     const stats = await getNetworkStats();
+    const profile = await getScoringProfile(profileId);
+    const weights = normalizeWeights(profile.healthWeights);
 
     // Factor 1: Online Rate (from network stats)
     const onlineRate = stats.networkHealth || 0;
@@ -279,46 +446,24 @@ export async function getHealthScoreBreakdown(): Promise<HealthScoreBreakdown> {
     const avgLatency = stats.averageResponseTime || 0;
     const latencyScore = avgLatency > 0 ? Math.max(0, 100 - (avgLatency / 30)) : 50; // <30ms = 100%, >3000ms = 0%
 
-    const factors = [
-        {
-            name: 'Online Rate',
-            weight: 0.30,
-            score: onlineRate,
-            weightedScore: onlineRate * 0.30,
-            description: 'Percentage of nodes currently online and responsive'
-        },
-        {
-            name: 'Avg Performance',
-            weight: 0.25,
-            score: avgCreditsScore,
-            weightedScore: avgCreditsScore * 0.25,
-            description: 'Average credits-based performance score across all nodes'
-        },
-        {
-            name: 'Storage Health',
-            weight: 0.15,
-            score: storageUtil > 0 ? storageUtil : 50,
-            weightedScore: (storageUtil > 0 ? storageUtil : 50) * 0.15,
-            description: 'Network storage utilization efficiency'
-        },
-        {
-            name: 'Version Consistency',
-            weight: 0.15,
-            score: versionConsistency,
-            weightedScore: versionConsistency * 0.15,
-            description: 'Percentage of nodes running consistent software versions'
-        },
-        {
-            name: 'Response Time',
-            weight: 0.15,
-            score: latencyScore,
-            weightedScore: latencyScore * 0.15,
-            description: 'Network-wide average response latency performance'
-        },
+    const storageScore = storageUtil > 0 ? storageUtil : 50;
+    const factorDefinitions: { id: keyof HealthScoreWeights; name: string; score: number; description: string }[] = [
+        { id: 'onlineRate', name: 'Online Rate', score: onlineRate, description: 'Percentage of nodes currently online and responsive' },
+        { id: 'performance', name: 'Avg Performance', score: avgCreditsScore, description: 'Average credits-based performance score across all nodes' },
+        { id: 'storage', name: 'Storage Health', score: storageScore, description: 'Network storage utilization efficiency' },
+        { id: 'versionConsistency', name: 'Version Consistency', score: versionConsistency, description: 'Percentage of nodes running consistent software versions' },
+        { id: 'responseTime', name: 'Response Time', score: latencyScore, description: 'Network-wide average response latency performance' },
     ];
 
+    const factors = factorDefinitions.map(f => ({
+        ...f,
+        weight: weights[f.id],
+        weightedScore: f.score * weights[f.id],
+    }));
+
     return {
         overall: factors.reduce((sum, f) => sum + f.weightedScore, 0),
+        profile: profile.id,
         factors,
     };
 }
@@ -343,84 +488,59 @@ function calculateVersionConsistency(nodes: PNode[]): number {
  * Calculate XScore for network or individual node
  * Dynamic calculation based on real metrics
  */
-export async function getXScore(nodeId?: string): Promise<import('@/types/pnode').XScore> {
+export async function getXScore(
+    nodeId?: string,
+    profileId: string = DEFAULT_SCORING_PROFILE_ID
+): Promise<import('@/types/pnode').XScore> {
     const nodes = await getClusterNodes();
+    const profile = await getScoringProfile(profileId);
 
     if (nodeId) {
         const node = nodes.find(n => n.id === nodeId);
         if (node) {
-            return calculateNodeXScore(node);
+            return computeXScore(getNodeXScoreInputs(node), profile);
         }
     }
 
-    const onlineNodes = nodes.filter(n => n.status === 'online');
-    if (onlineNodes.length === 0) {
-        return { overall: 0, storageThroughput: 0, dataAvailabilityLatency: 0, uptime: 0, gossipHealth: 0, peerConnectivity: 0, grade: 'F' };
+    const activeNodes = nodes.filter(isActiveNode);
+    if (activeNodes.length === 0) {
+        return { overall: 0, storageThroughput: 0, dataAvailabilityLatency: 0, uptime: 0, gossipHealth: 0, peerConnectivity: 0, grade: 'F', profile: profile.id };
     }
 
-    const avgThroughput = onlineNodes.reduce((acc, n) =>
-        acc + (n.metrics.storageCapacityGB > 0 ? (n.metrics.storageUsedGB / n.metrics.storageCapacityGB * 100) : 0), 0) / onlineNodes.length;
-    const avgLatency = onlineNodes.reduce((acc, n) => acc + n.metrics.responseTimeMs, 0) / onlineNodes.length;
-    const avgCreditsScore = onlineNodes.reduce((acc, n) => acc + n.performance.score, 0) / onlineNodes.length;
-    const avgPeers = onlineNodes.reduce((acc, n) => acc + n.gossip.peersConnected, 0) / onlineNodes.length;
-
-    const storageThroughput = Math.min(100, avgThroughput * 1.5);
-    const dataAvailabilityLatency = Math.max(0, 100 - avgLatency * 0.5);
-    const uptime = avgCreditsScore; // Use credits-based score as uptime proxy
-    const gossipHealth = Math.min(100, avgPeers * 2);
-    const peerConnectivity = Math.min(100, avgPeers * 3);
-
-    const overall = (storageThroughput * 0.25) + (dataAvailabilityLatency * 0.25) + (uptime * 0.20) + (gossipHealth * 0.15) + (peerConnectivity * 0.15);
-
-    return {
-        overall,
-        storageThroughput,
-        dataAvailabilityLatency,
-        uptime,
-        gossipHealth,
-        peerConnectivity,
-        grade: getXScoreGrade(overall),
+    // Score the network average node
+    const inputs = activeNodes.map(getNodeXScoreInputs);
+    // Averaged over the nodes that report a value; null when none do
+    const avg = (key: keyof XScoreInputs) => {
+        const values = inputs.map(i => i[key]).filter((v): v is number => v !== null);
+        return values.length > 0 ? values.reduce((acc, v) => acc + v, 0) / values.length : null;
     };
-}
-
-function calculateNodeXScore(node: PNode): import('@/types/pnode').XScore {
-    const storageThroughput = node.metrics.storageCapacityGB > 0
-        ? Math.min(100, (node.metrics.storageUsedGB / node.metrics.storageCapacityGB * 100) * 1.5)
-        : 0;
-    const dataAvailabilityLatency = Math.max(0, 100 - node.metrics.responseTimeMs * 0.5);
-    const uptime = node.performance.score;
-    const gossipHealth = Math.min(100, node.gossip.peersConnected * 2);
-    const peerConnectivity = Math.min(100, node.gossip.peersConnected * 3);
 
-    const overall = (storageThroughput * 0.25) + (dataAvailabilityLatency * 0.25) + (uptime * 0.20) + (gossipHealth * 0.15) + (peerConnectivity * 0.15);
+    return computeXScore({
+        storageUtilizationPercent: avg('storageUtilizationPercent') ?? 0,
+        responseTimeMs: avg('responseTimeMs') ?? 0,
+        performanceScore: avg('performanceScore') ?? 0,
+        peersConnected: avg('peersConnected'),
+    }, profile);
+}
 
+function getNodeXScoreInputs(node: PNode): XScoreInputs {
     return {
-        overall,
-        storageThroughput,
-        dataAvailabilityLatency,
-        uptime,
-        gossipHealth,
-        peerConnectivity,
-        grade: getXScoreGrade(overall),
+        storageUtilizationPercent: node.metrics.storageCapacityGB > 0
+            ? (node.metrics.storageUsedGB || 0) / node.metrics.storageCapacityGB * 100
+            : 0,
+        responseTimeMs: node.metrics.responseTimeMs,
+        performanceScore: node.performance.score,
+        peersConnected: node.gossip.peersConnected,
     };
 }
 
-function getXScoreGrade(score: number): 'S' | 'A' | 'B' | 'C' | 'D' | 'F' {
-    if (score >= 95) return 'S';
-    if (score >= 85) return 'A';
-    if (score >= 70) return 'B';
-    if (score >= 55) return 'C';
-    if (score >= 40) return 'D';
-    return 'F';
-}
-
 /**
  * Generate gossip events from node data
  * Creates a simulated event stream based on real node connections
  */
 export function generateGossipEvents(nodes: PNode[]): import('@/types/pnode').GossipEvent[] {
     const events: import('@/types/pnode').GossipEvent[] = [];
-    const onlineNodes = nodes.filter(n => n.status === 'online' && n.location);
+    const onlineNodes = nodes.filter(n => isActiveNode(n) && n.location);
     const eventTypes: Array<'discovery' | 'message' | 'sync' | 'heartbeat' | 'data_transfer'> =
         ['discovery', 'message', 'sync', 'heartbeat', 'data_transfer'];
 
@@ -454,28 +574,50 @@ export function generateGossipEvents(nodes: PNode[]): import('@/types/pnode').Go
 /**
  * Get trend data for a specific metric over time
  */
+// Metrics read from decentralization_snapshots instead of network_stats
+const DECENTRALIZATION_TREND_METRICS: Record<string, string> = {
+    nakamoto: 'nakamoto_coefficient',
+    gini: 'gini_coefficient',
+    superminority_count: 'superminority_count',
+    censorship_score: 'censorship_score',
+    country_count: 'country_count',
+};
+
+// network_stats columns behind the remaining trend metrics; unknown metrics fall back to node count
+const NETWORK_TREND_METRICS: Record<string, NetworkStatsMetric> = {
+    nodes: 'total_nodes',
+    latency: 'avg_response_time',
+    storage: 'total_storage_used_tb',
+    gossip: 'gossip_messages_24h_count',
+};
+
 export async function getTrendData(
     metric: string,
-    period: '24h' | '7d' | '30d' = '24h'
+    range: HistoryPeriod | TimeRange = '24h'
 ): Promise<import('@/types/pnode').TrendData> {
-    const { getPerformanceHistory } = await import('./network');
-    const history = await getPerformanceHistory(period);
-
-    const getValue = (h: any): number => {
-        switch (metric) {
-            case 'nodes': return h.totalNodes;
-            case 'latency': return h.avgResponseTime;
-            case 'storage': return h.storageUsedTB;
-            case 'gossip': return h.gossipMessages;
-            default: return h.totalNodes;
-        }
-    };
+    const timeRange = typeof range === 'string' ? resolveTimeRange(range) : range;
 
-    const dataPoints = history.map(h => ({
-        timestamp: h.timestamp,
-        value: getValue(h),
-    }));
+    if (metric in DECENTRALIZATION_TREND_METRICS) {
+        return buildTrend(timeRange.period, await getDecentralizationTrendPoints(DECENTRALIZATION_TREND_METRICS[metric], timeRange));
+    }
+
+    const column = NETWORK_TREND_METRICS[metric] || 'total_nodes';
+    const buckets = await getNetworkStatsBuckets(timeRange);
 
+    const dataPoints = buckets
+        .filter(b => b.metrics[column])
+        .map(b => {
+            const stats = b.metrics[column]!;
+            return { timestamp: b.timestamp, value: stats.avg, min: stats.min, max: stats.max, p95: stats.p95 };
+        });
+
+    return buildTrend(timeRange.period, dataPoints);
+}
+
+function buildTrend(
+    period: HistoryPeriod,
+    dataPoints: import('@/types/pnode').TrendData['dataPoints']
+): import('@/types/pnode').TrendData {
     const first = dataPoints[0]?.value || 0;
     const last = dataPoints[dataPoints.length - 1]?.value || 0;
     const change = last - first;
@@ -488,3 +630,64 @@ export async function getTrendData(
         changePercent,
     };
 }
+
+async function getDecentralizationTrendPoints(
+    column: string,
+    range: TimeRange
+): Promise<{ timestamp: string; value: number }[]> {
+    const { data, error } = await supabase
+        .from('decentralization_snapshots')
+        .select(`recorded_at, ${column}`)
+        .gte('recorded_at', range.from.toISOString())
+        .lt('recorded_at', range.to.toISOString())
+        .order('recorded_at', { ascending: true });
+
+    if (error || !data) {
+        if (error) console.error('Error fetching decentralization snapshots:', error);
+        return [];
+    }
+
+    return data.map((row: any) => ({
+        timestamp: row.recorded_at,
+        value: Number(row[column]) || 0,
+    }));
+}
+
+/**
+ * Save the current decentralization metrics, at most once per DECENTRALIZATION_SNAPSHOT_INTERVAL_MS.
+ * Called after ingestion has upserted the latest node list. Returns false when skipped.
+ */
+export async function recordDecentralizationSnapshot(): Promise<boolean> {
+    const { data: latest, error: latestError } = await supabase
+        .from('decentralization_snapshots')
+        .select('recorded_at')
+        .order('recorded_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+    if (latestError) console.error('Error reading latest decentralization snapshot:', latestError);
+    if (latest && Date.now() - new Date(latest.recorded_at).getTime() < DECENTRALIZATION_SNAPSHOT_INTERVAL_MS) {
+        return false;
+    }
+
+    const [metrics, superminority, censorship] = await Promise.all([
+        getDecentralizationMetrics(),
+        getSuperminorityInfo(),
+        getCensorshipResistanceScore(),
+    ]);
+
+    const { error } = await supabase.from('decentralization_snapshots').insert({
+        recorded_at: new Date().toISOString(),
+        nakamoto_coefficient: metrics.nakamotoCoefficient,
+        gini_coefficient: metrics.giniCoefficient,
+        superminority_count: superminority.count,
+        censorship_score: censorship.overall,
+        country_count: metrics.countryDistribution.length,
+        asn_count: metrics.asnDistribution.length,
+        datacenter_count: metrics.datacenterDistribution.length,
+        dimensions: metrics.dimensions,
+    });
+    if (error) throw error;
+
+    return true;
+}
@@ -1,79 +1,52 @@
-import { EpochInfo, EpochHistory, StakingStats, ExabyteProjection, CommissionHistory, SlashingEvent } from '@/types/pnode';
+import { EpochInfo, EpochHistory, StakingStats, ExabyteProjection, ForecastTimeframe, SlashingEvent } from '@/types/pnode';
+import { findCrossing } from '@/lib/forecasting';
 import { getClusterNodes } from './pnodes';
-import { fetchRPC } from './rpc';
+import { fetchEpochObservation, getLatestEpochObservation, getObservedSlotTimeMs, getObservedEpochStart, getCompletedEpochs } from './epochs';
 import { calculateSkipRate, getNetworkStats } from './network';
-
-export async function getEpochInfo(): Promise<EpochInfo> {
-    try {
-        const [epochData, skipRateData] = await Promise.all([
-            fetchRPC<{
-                epoch: number;
-                slotIndex: number;
-                slotsInEpoch: number;
-                absoluteSlot: number;
-                blockHeight: number;
-            }>('getEpochInfo'),
-            calculateSkipRate(),
-        ]);
-
-        if (epochData && typeof epochData === 'object') {
-            const epochDuration = 2 * 24 * 60 * 60 * 1000;
-            const epochStart = Date.now() - (epochData.slotIndex / epochData.slotsInEpoch) * epochDuration;
-
-            return {
-                currentEpoch: epochData.epoch || 209,
-                epochProgress: epochData.slotIndex && epochData.slotsInEpoch
-                    ? (epochData.slotIndex / epochData.slotsInEpoch) * 100
-                    : 50,
-                epochStartTime: new Date(epochStart).toISOString(),
-                epochEndTime: new Date(epochStart + epochDuration).toISOString(),
-                slotsCompleted: epochData.slotIndex || 200000,
-                totalSlots: epochData.slotsInEpoch || 432000,
-                blocksProduced: epochData.blockHeight || epochData.absoluteSlot || 85000000,
-                skipRate: skipRateData.overall,
-            };
-        }
-    } catch (error) {
-        console.error('Error fetching epoch info:', error);
-    }
-
-    const now = Date.now();
-    const epochDuration = 2 * 24 * 60 * 60 * 1000;
-    const currentEpoch = 209;
-    const epochStart = now - (now % epochDuration);
+import { fitGrowthModels, TIMEFRAME_DAYS } from './forecasting';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Current epoch from the RPC node, or from the last observation ingestion recorded when
+ * the RPC is unreachable. Null when neither is available, e.g. on a fresh deploy.
+ */
+export async function getEpochInfo(): Promise<EpochInfo | null> {
+    const [liveObservation, skipRateData, slotTimeMs] = await Promise.all([
+        fetchEpochObservation().catch(error => {
+            console.error('Error fetching epoch info:', error);
+            return null;
+        }),
+        calculateSkipRate(),
+        getObservedSlotTimeMs(),
+    ]);
+
+    // RPC unreachable: fall back to the last response ingestion recorded
+    const observation = liveObservation ?? await getLatestEpochObservation();
+    if (!observation) return null;
+
+    const observedAt = new Date(observation.observedAt).getTime();
+    const observedStart = await getObservedEpochStart(observation.epoch);
+    const epochStart = observedStart
+        ? new Date(observedStart).getTime()
+        : observedAt - observation.slotIndex * slotTimeMs;
+    const epochEnd = observedAt + (observation.slotsInEpoch - observation.slotIndex) * slotTimeMs;
 
     return {
-        currentEpoch,
-        epochProgress: ((now - epochStart) / epochDuration) * 100,
+        currentEpoch: observation.epoch,
+        epochProgress: observation.slotsInEpoch > 0 ? (observation.slotIndex / observation.slotsInEpoch) * 100 : 0,
         epochStartTime: new Date(epochStart).toISOString(),
-        epochEndTime: new Date(epochStart + epochDuration).toISOString(),
-        slotsCompleted: Math.floor(((now - epochStart) / epochDuration) * 432000),
-        totalSlots: 432000,
-        blocksProduced: 85000000,
-        skipRate: 2.5,
+        epochEndTime: new Date(epochEnd).toISOString(),
+        slotsCompleted: observation.slotIndex,
+        totalSlots: observation.slotsInEpoch,
+        blocksProduced: observation.blockHeight,
+        skipRate: skipRateData.overall,
+        slotTimeMs,
     };
 }
 
 export async function getEpochHistory(): Promise<EpochHistory[]> {
-    const currentInfo = await getEpochInfo();
-    const history: EpochHistory[] = [];
-    const epochDuration = 2 * 24 * 60 * 60 * 1000;
-
-    for (let i = 0; i < 10; i++) {
-        const epoch = currentInfo.currentEpoch - i - 1;
-        const start = Date.now() - (i + 1) * epochDuration;
-        history.push({
-            epoch,
-            startTime: new Date(start).toISOString(),
-            endTime: new Date(start + epochDuration).toISOString(),
-            blocksProduced: 400000 + (epoch % 20000),
-            skipRate: 1.5 + (epoch % 30) / 10,
-            activeNodes: 200 + (epoch % 20),
-            totalRewards: 50000 + (epoch % 10000),
-        });
-    }
-
-    return history;
+    return getCompletedEpochs();
 }
 
 export async function getStakingStats(): Promise<StakingStats> {
@@ -108,73 +81,71 @@ export async function getStakingStats(): Promise<StakingStats> {
     };
 }
 
+const MILESTONES_TB = [100, 500, 1000, 5000, 10000];
+// How far ahead milestone dates are searched for before giving up
+const MILESTONE_HORIZON_DAYS = 10 * 365;
+
+/**
+ * Capacity and node count projected with the best-fitting growth model for each.
+ * Without enough history to fit one, the projection stays flat at today's values and
+ * milestones have no date.
+ */
 export async function getExabyteProjection(
-    timeframe: '1m' | '3m' | '6m' | '1y' | '2y' = '1y',
+    timeframe: ForecastTimeframe = '1y',
     customNodeCount?: number
 ): Promise<ExabyteProjection> {
-    const stats = await getNetworkStats();
+    const [stats, fitted] = await Promise.all([getNetworkStats(), fitGrowthModels()]);
     const currentCapacity = stats.totalStorageCapacityTB;
     const currentNodes = stats.totalNodes;
     const targetNodes = customNodeCount || currentNodes;
+    // A custom node count scales capacity linearly from today's capacity per node
+    const nodeScale = targetNodes / Math.max(1, currentNodes);
 
-    const monthMultiplier = {
-        '1m': 1,
-        '3m': 3,
-        '6m': 6,
-        '1y': 12,
-        '2y': 24,
-    };
+    const now = Date.now();
+    const horizon = now + (TIMEFRAME_DAYS[timeframe] ?? TIMEFRAME_DAYS['1y']) * DAY_MS;
+    const capacityModel = fitted.storage_committed.best;
+    const nodeModel = fitted.nodes.best;
+
+    const capacity = capacityModel?.predict(horizon);
+    const projectedCapacity = Math.max(0, capacity?.value ?? currentCapacity) * nodeScale;
+    const projectedNodes = Math.max(0, Math.floor(nodeModel?.predict(horizon).value ?? currentNodes));
+    const capacityInOneYear = capacityModel?.predict(now + 365 * DAY_MS).value;
+    const growthRate = capacityInOneYear !== undefined && currentCapacity > 0
+        ? capacityInOneYear / currentCapacity - 1
+        : 0;
 
-    const months = monthMultiplier[timeframe];
-    const growthRate = 0.15;
-    const projectedCapacity = currentCapacity * Math.pow(1 + growthRate, months / 12) * (targetNodes / Math.max(1, currentNodes));
-    const projectedNodes = Math.floor(currentNodes * Math.pow(1 + growthRate / 2, months / 12));
-
-    const milestones = [
-        { capacity: 100, estimatedDate: '', nodeCountRequired: 0 },
-        { capacity: 500, estimatedDate: '', nodeCountRequired: 0 },
-        { capacity: 1000, estimatedDate: '', nodeCountRequired: 0 },
-        { capacity: 5000, estimatedDate: '', nodeCountRequired: 0 },
-        { capacity: 10000, estimatedDate: '', nodeCountRequired: 0 },
-    ].map(m => {
-        const monthsToMilestone = currentCapacity > 0
-            ? Math.log(m.capacity / currentCapacity) / Math.log(1 + growthRate) * 12
-            : 12;
-        const date = new Date();
-        date.setMonth(date.getMonth() + Math.ceil(monthsToMilestone));
+    const milestones = MILESTONES_TB.map(milestone => {
+        let estimatedDate: string | null = null;
+        if (currentCapacity >= milestone) {
+            estimatedDate = new Date(now).toISOString().split('T')[0];
+        } else if (capacityModel) {
+            const reachedAt = findCrossing(capacityModel, milestone, now, DAY_MS, MILESTONE_HORIZON_DAYS * DAY_MS);
+            estimatedDate = reachedAt !== null ? new Date(reachedAt).toISOString().split('T')[0] : null;
+        }
         return {
-            ...m,
-            estimatedDate: date.toISOString().split('T')[0],
-            nodeCountRequired: currentNodes > 0 ? Math.ceil(currentNodes * (m.capacity / Math.max(1, currentCapacity))) : 100,
+            capacity: milestone,
+            estimatedDate,
+            nodeCountRequired: currentNodes > 0 ? Math.ceil(currentNodes * (milestone / Math.max(1, currentCapacity))) : 100,
         };
     });
 
     return {
         currentCapacityTB: currentCapacity,
         projectedCapacityTB: projectedCapacity,
+        projectedCapacityRange: {
+            lower: Math.max(0, capacity?.lower ?? currentCapacity) * nodeScale,
+            upper: Math.max(0, capacity?.upper ?? currentCapacity) * nodeScale,
+        },
         nodeCount: currentNodes,
         projectedNodeCount: projectedNodes,
         timeframe,
         growthRate,
+        model: capacityModel?.model ?? null,
+        fitError: capacityModel ? (capacityModel.backtest ?? capacityModel).rmse : null,
         milestones,
     };
 }
 
-export async function getCommissionHistory(nodeId: string): Promise<CommissionHistory> {
-    const nodes = await getClusterNodes();
-    const node = nodes.find(n => n.id === nodeId);
-    const commission = node?.staking?.commission || 5;
-
-    return {
-        nodeId,
-        history: Array.from({ length: 30 }, (_, i) => ({
-            timestamp: new Date(Date.now() - i * 24 * 60 * 60 * 1000).toISOString(),
-            commission,
-            change: 0,
-        })),
-    };
-}
-
 export async function getSlashingEvents(): Promise<SlashingEvent[]> {
     return [];
 }
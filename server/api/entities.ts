@@ -0,0 +1,121 @@
+import { PNode, NodeEntity, EntityGrouping } from '@/types/pnode';
+
+export interface OperatorRegistryEntry {
+    id: string;
+    name: string;
+    pubkeys: string[]; // Node pubkeys the operator has publicly claimed
+}
+
+// Manually curated operators. Add an entry when an operator discloses the nodes they run.
+// Empty for now, so entities come from the network and operator wallet signals.
+export const OPERATOR_REGISTRY: OperatorRegistryEntry[] = [];
+
+type Reason = NodeEntity['reasons'][number];
+
+function subnet24(ip: string): string | null {
+    const parts = ip.split('.');
+    return parts.length === 4 ? parts.slice(0, 3).join('.') : null;
+}
+
+/**
+ * Group nodes that are likely run by the same operator.
+ * Nodes are linked when they share a /24 subnet, an ASN in the same city or an operator
+ * wallet, or are claimed by the same OPERATOR_REGISTRY entry; links are transitive.
+ * The operator wallet is the withdraw authority of the node's vote account. When that
+ * wallet is itself a pNode key (what verifyNodeOperator checks for a connected wallet),
+ * that node joins too. Nodes without a vote account are grouped by network signals only.
+ */
+export function resolveEntities(nodes: PNode[]): NodeEntity[] {
+    const index = new Map(nodes.map((node, i) => [node.pubkey, i]));
+    const parent = nodes.map((_, i) => i);
+    const reasons = nodes.map(() => new Set<Reason>());
+    const registryName = new Map<number, string>();
+
+    const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+    const union = (members: number[], reason: Reason) => {
+        if (members.length < 2) return;
+        members.forEach(i => {
+            reasons[i].add(reason);
+            parent[find(i)] = find(members[0]);
+        });
+    };
+
+    const groupBy = (key: (node: PNode) => string | null, reason: Reason) => {
+        const groups = new Map<string, number[]>();
+        nodes.forEach((node, i) => {
+            const k = key(node);
+            if (!k) return;
+            if (!groups.has(k)) groups.set(k, []);
+            groups.get(k)!.push(i);
+        });
+        groups.forEach(members => union(members, reason));
+    };
+
+    groupBy(node => subnet24(node.ip), 'subnet');
+    groupBy(node => {
+        const asn = node.location?.asn;
+        const city = node.location?.city;
+        return asn && city && city !== 'Unknown' ? `${asn}|${city}` : null;
+    }, 'asn_city');
+    groupBy(node => node.staking?.withdrawAuthority ?? null, 'wallet');
+    nodes.forEach((node, i) => {
+        const wallet = node.staking?.withdrawAuthority;
+        const walletNode = wallet ? index.get(wallet) : undefined;
+        if (walletNode !== undefined) union([i, walletNode], 'wallet');
+    });
+
+    for (const operator of OPERATOR_REGISTRY) {
+        // Claimed pubkeys that aren't in the cluster are ignored
+        const members = operator.pubkeys
+            .map(pubkey => index.get(pubkey))
+            .filter((i): i is number => i !== undefined);
+
+        union(members, 'registry');
+        members.forEach(i => registryName.set(i, operator.name));
+    }
+
+    const groups = new Map<number, number[]>();
+    nodes.forEach((_, i) => {
+        const root = find(i);
+        if (!groups.has(root)) groups.set(root, []);
+        groups.get(root)!.push(i);
+    });
+
+    return Array.from(groups.values())
+        .map(members => {
+            const first = nodes[members[0]];
+            const named = members.find(i => registryName.has(i));
+            const groupReasons = new Set<Reason>();
+            members.forEach(i => reasons[i].forEach(r => groupReasons.add(r)));
+
+            return {
+                id: `entity_${first.pubkey.slice(0, 8)}`,
+                label: named !== undefined
+                    ? registryName.get(named)!
+                    : members.length > 1
+                        ? `${first.location?.datacenter || subnet24(first.ip) || 'Unknown'} (${members.length} nodes)`
+                        : first.pubkey,
+                pubkeys: members.map(i => nodes[i].pubkey),
+                credits: members.reduce((acc, i) => acc + (nodes[i].credits || 0), 0),
+                reasons: Array.from(groupReasons),
+            };
+        })
+        .sort((a, b) => b.credits - a.credits);
+}
+
+/**
+ * Stakeholders for concentration metrics: one per node, or one per resolved entity.
+ */
+export function getStakeholders(nodes: PNode[], grouping: EntityGrouping): NodeEntity[] {
+    if (grouping === 'entity') return resolveEntities(nodes);
+
+    return nodes
+        .map(node => ({
+            id: node.pubkey,
+            label: node.pubkey,
+            pubkeys: [node.pubkey],
+            credits: node.credits || 0,
+            reasons: [],
+        }))
+        .sort((a, b) => b.credits - a.credits);
+}
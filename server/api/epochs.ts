@@ -0,0 +1,219 @@
+import { PNode, EpochHistory } from '@/types/pnode';
+import { supabase } from '@/lib/supabase';
+import { EpochInfoResponse } from '@/infrastructure/rpc/types';
+import { fetchRPC } from './rpc';
+import { EPOCH_SLOT_TIME_WINDOW_MS } from './config';
+import { isActiveNode } from '@/lib/pnode-utils-client';
+
+// Protocol target slot time, used until two observations are far enough apart to measure it
+const TARGET_SLOT_TIME_MS = 400;
+// Observations closer together than this give a noisy slot time
+const MIN_SLOT_TIME_SPAN_MS = 60 * 1000;
+
+export type EpochObservation = EpochInfoResponse & { observedAt: string };
+
+/**
+ * getEpochInfo straight from the RPC node. The response cache is bypassed so the
+ * slot and the time it was observed at always belong together.
+ */
+export async function fetchEpochObservation(): Promise<EpochObservation | null> {
+    const epochData = await fetchRPC<EpochInfoResponse>('getEpochInfo', [], false);
+    if (!epochData || typeof epochData !== 'object' || typeof epochData.epoch !== 'number') return null;
+    return { ...epochData, observedAt: new Date().toISOString() };
+}
+
+function mapObservationRow(row: any): EpochObservation {
+    return {
+        epoch: row.epoch,
+        slotIndex: row.slot_index,
+        slotsInEpoch: row.slots_in_epoch,
+        absoluteSlot: row.absolute_slot,
+        blockHeight: row.block_height,
+        transactionCount: row.transaction_count ?? undefined,
+        observedAt: row.observed_at,
+    };
+}
+
+export async function getLatestEpochObservation(): Promise<EpochObservation | null> {
+    const { data, error } = await supabase
+        .from('epoch_observations')
+        .select('*')
+        .order('observed_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+    if (error) console.error('Error fetching latest epoch observation:', error);
+    return data ? mapObservationRow(data) : null;
+}
+
+/**
+ * Milliseconds per slot over the last EPOCH_SLOT_TIME_WINDOW_MS of recorded observations.
+ */
+export async function getObservedSlotTimeMs(): Promise<number> {
+    const since = new Date(Date.now() - EPOCH_SLOT_TIME_WINDOW_MS).toISOString();
+    const [oldest, latest] = await Promise.all([
+        supabase.from('epoch_observations').select('observed_at, absolute_slot')
+            .gte('observed_at', since).order('observed_at', { ascending: true }).limit(1).maybeSingle(),
+        supabase.from('epoch_observations').select('observed_at, absolute_slot')
+            .order('observed_at', { ascending: false }).limit(1).maybeSingle(),
+    ]);
+
+    if (oldest.error) console.error('Error fetching epoch observations:', oldest.error);
+    if (latest.error) console.error('Error fetching epoch observations:', latest.error);
+    if (!oldest.data || !latest.data) return TARGET_SLOT_TIME_MS;
+
+    const elapsedMs = new Date(latest.data.observed_at).getTime() - new Date(oldest.data.observed_at).getTime();
+    const slots = latest.data.absolute_slot - oldest.data.absolute_slot;
+    if (elapsedMs < MIN_SLOT_TIME_SPAN_MS || slots <= 0) return TARGET_SLOT_TIME_MS;
+
+    return elapsedMs / slots;
+}
+
+/**
+ * Start time of an epoch whose boundary ingestion actually saw, or null while it's unknown.
+ */
+export async function getObservedEpochStart(epoch: number): Promise<string | null> {
+    const { data, error } = await supabase
+        .from('epoch_history')
+        .select('start_time, partial')
+        .eq('epoch', epoch)
+        .maybeSingle();
+
+    if (error) console.error('Error fetching tracked epoch:', error);
+    return data && !data.partial ? data.start_time : null;
+}
+
+/**
+ * Record this ingestion's getEpochInfo response and fold the run's nodes into the
+ * epoch's aggregates. When the epoch number moves on, the previous epoch is closed at
+ * the boundary time implied by the new epoch's slot index.
+ */
+export async function recordEpochObservation(nodes: PNode[]): Promise<{ epoch: number; boundary: boolean } | null> {
+    const observation = await fetchEpochObservation();
+    if (!observation) return null;
+
+    const { error: insertError } = await supabase.from('epoch_observations').insert({
+        observed_at: observation.observedAt,
+        epoch: observation.epoch,
+        slot_index: observation.slotIndex,
+        slots_in_epoch: observation.slotsInEpoch,
+        absolute_slot: observation.absoluteSlot,
+        block_height: observation.blockHeight,
+        transaction_count: observation.transactionCount ?? null,
+    });
+    if (insertError) throw insertError;
+
+    const activeNodes = nodes.filter(isActiveNode);
+    // Unmeasured latency is stored as 0 and is left out of the average
+    const measured = activeNodes.filter(n => n.metrics.responseTimeMs > 0);
+    const avgLatencyMs = measured.length > 0
+        ? measured.reduce((acc, n) => acc + n.metrics.responseTimeMs, 0) / measured.length
+        : null;
+    const totalCredits = nodes.reduce((acc, n) => acc + (n.credits || 0), 0);
+
+    const { data: latest, error: latestError } = await supabase
+        .from('epoch_history')
+        .select('*')
+        .order('epoch', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+    if (latestError) throw latestError;
+
+    // Same epoch as last run: extend the running aggregates
+    if (latest && latest.epoch === observation.epoch) {
+        const samples = latest.samples + 1;
+        const latencySamples = latest.latency_samples + (avgLatencyMs === null ? 0 : 1);
+        const { error } = await supabase.from('epoch_history').update({
+            last_slot: observation.absoluteSlot,
+            last_block_height: observation.blockHeight,
+            last_credits: totalCredits,
+            avg_active_nodes: (latest.avg_active_nodes * latest.samples + activeNodes.length) / samples,
+            // Averaged over the runs that measured latency only
+            avg_latency_ms: avgLatencyMs === null
+                ? latest.avg_latency_ms
+                : ((latest.avg_latency_ms ?? 0) * latest.latency_samples + avgLatencyMs) / latencySamples,
+            latency_samples: latencySamples,
+            samples,
+            last_observed_at: observation.observedAt,
+        }).eq('epoch', latest.epoch);
+        if (error) throw error;
+        return { epoch: observation.epoch, boundary: false };
+    }
+
+    // Older epoch than recorded (RPC node behind): keep the raw observation only
+    if (latest && latest.epoch > observation.epoch) {
+        return { epoch: observation.epoch, boundary: false };
+    }
+
+    const slotTimeMs = await getObservedSlotTimeMs();
+    const boundaryTime = new Date(new Date(observation.observedAt).getTime() - observation.slotIndex * slotTimeMs).toISOString();
+    // Boundary was seen only if the last tracked epoch is the one right before this
+    const contiguous = !!latest && latest.epoch === observation.epoch - 1;
+
+    if (latest && !latest.end_time) {
+        const { error } = await supabase.from('epoch_history')
+            .update({ end_time: contiguous ? boundaryTime : latest.last_observed_at })
+            .eq('epoch', latest.epoch);
+        if (error) throw error;
+    }
+
+    // Counters carry over from the previous epoch's last observation, so work done
+    // between that run and the boundary is counted in the new epoch
+    const { error } = await supabase.from('epoch_history').insert({
+        epoch: observation.epoch,
+        start_time: contiguous ? boundaryTime : observation.observedAt,
+        end_time: null,
+        partial: !contiguous,
+        slots_in_epoch: observation.slotsInEpoch,
+        first_slot: contiguous ? latest.last_slot : observation.absoluteSlot,
+        last_slot: observation.absoluteSlot,
+        first_block_height: contiguous ? latest.last_block_height : observation.blockHeight,
+        last_block_height: observation.blockHeight,
+        first_credits: contiguous ? latest.last_credits : totalCredits,
+        last_credits: totalCredits,
+        avg_active_nodes: activeNodes.length,
+        avg_latency_ms: avgLatencyMs,
+        latency_samples: avgLatencyMs === null ? 0 : 1,
+        samples: 1,
+        first_observed_at: observation.observedAt,
+        last_observed_at: observation.observedAt,
+    });
+    if (error) throw error;
+
+    return { epoch: observation.epoch, boundary: !!latest };
+}
+
+function mapEpochHistoryRow(row: any): EpochHistory {
+    const slots = row.last_slot - row.first_slot;
+    const blocks = row.last_block_height - row.first_block_height;
+
+    return {
+        epoch: row.epoch,
+        startTime: row.start_time,
+        endTime: row.end_time,
+        blocksProduced: blocks,
+        skipRate: slots > 0 ? Math.max(0, (1 - blocks / slots) * 100) : 0,
+        activeNodes: Math.round(row.avg_active_nodes),
+        creditsEarned: Math.max(0, row.last_credits - row.first_credits),
+        avgLatencyMs: row.avg_latency_ms,
+        partial: row.partial,
+    };
+}
+
+/**
+ * Completed epochs recorded by ingestion, newest first.
+ */
+export async function getCompletedEpochs(limit: number = 10): Promise<EpochHistory[]> {
+    const { data, error } = await supabase
+        .from('epoch_history')
+        .select('*')
+        .not('end_time', 'is', null)
+        .order('epoch', { ascending: false })
+        .limit(limit);
+
+    if (error) {
+        console.error('Error fetching epoch history:', error);
+        return [];
+    }
+    return (data || []).map(mapEpochHistoryRow);
+}
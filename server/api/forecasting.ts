@@ -0,0 +1,127 @@
+import { ForecastMetric, ForecastPoint, ForecastTimeframe, MetricForecast } from '@/types/pnode';
+import { FittedModel, SeriesPoint, fillGaps, fitForecastModels, selectBestModel } from '@/lib/forecasting';
+import { BucketSize, BUCKET_SECONDS, NetworkStatsBucket, NetworkStatsMetric, getNetworkStatsBuckets } from './timeseries';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Fewer daily points than this and the models are fitted on hourly buckets instead
+const MIN_DAILY_POINTS = 14;
+
+// network_stats column each forecast metric is fitted on
+const FORECAST_COLUMNS: Record<ForecastMetric, NetworkStatsMetric> = {
+    nodes: 'total_nodes',
+    storage_committed: 'total_storage_tb',
+    storage_used: 'total_storage_used_tb',
+};
+
+export const FORECAST_METRICS = Object.keys(FORECAST_COLUMNS) as ForecastMetric[];
+
+export const TIMEFRAME_DAYS: Record<ForecastTimeframe, number> = {
+    '1m': 30,
+    '3m': 90,
+    '6m': 182,
+    '1y': 365,
+    '2y': 730,
+};
+
+interface ForecastHistory {
+    buckets: NetworkStatsBucket[];
+    stepMs: number;
+    seasonLength: number; // weekly for daily buckets, daily for hourly ones
+}
+
+export interface FittedMetric {
+    metric: ForecastMetric;
+    history: SeriesPoint[];
+    models: FittedModel[];
+    best: FittedModel | null;
+}
+
+async function loadForecastHistory(bucket: BucketSize, days: number): Promise<NetworkStatsBucket[]> {
+    const to = new Date();
+    return getNetworkStatsBuckets({ from: new Date(to.getTime() - days * DAY_MS), to, period: 'custom' }, bucket);
+}
+
+/**
+ * 90 days of daily network_stats buckets, or 7 days of hourly ones while the network
+ * is too young for the daily series to carry a trend.
+ */
+async function getForecastHistory(): Promise<ForecastHistory> {
+    const daily = await loadForecastHistory('1d', 90);
+    if (daily.length >= MIN_DAILY_POINTS) {
+        return { buckets: daily, stepMs: BUCKET_SECONDS['1d'] * 1000, seasonLength: 7 };
+    }
+
+    const hourly = await loadForecastHistory('1h', 7);
+    return { buckets: hourly, stepMs: BUCKET_SECONDS['1h'] * 1000, seasonLength: 24 };
+}
+
+function fitMetric(history: ForecastHistory, metric: ForecastMetric): FittedMetric {
+    const column = FORECAST_COLUMNS[metric];
+    const points = history.buckets
+        .filter(b => b.metrics[column])
+        .map(b => ({ t: new Date(b.timestamp).getTime(), value: b.metrics[column]!.avg }));
+    // Buckets without any run are missing; the models need one value per step
+    const models = fitForecastModels(fillGaps(points, history.stepMs), history.stepMs, history.seasonLength);
+
+    return { metric, history: points, models, best: selectBestModel(models) };
+}
+
+/**
+ * Linear, exponential and Holt-Winters models fitted to each metric's history.
+ * Metrics with too little history come back without models.
+ */
+export async function fitGrowthModels(): Promise<Record<ForecastMetric, FittedMetric>> {
+    const history = await getForecastHistory();
+
+    return Object.fromEntries(
+        FORECAST_METRICS.map(metric => [metric, fitMetric(history, metric)])
+    ) as Record<ForecastMetric, FittedMetric>;
+}
+
+// Forecast every day up to 90 days out, then weekly
+function forecastTimestamps(from: number, days: number): number[] {
+    const timestamps: number[] = [];
+    for (let day = 1; day <= days; day += day < 90 ? 1 : 7) {
+        timestamps.push(from + day * DAY_MS);
+    }
+    if (timestamps[timestamps.length - 1] !== from + days * DAY_MS) timestamps.push(from + days * DAY_MS);
+    return timestamps;
+}
+
+function forecastPoints(model: FittedModel, timestamps: number[]): ForecastPoint[] {
+    return timestamps.map(t => {
+        const prediction = model.predict(t);
+        return {
+            timestamp: new Date(t).toISOString(),
+            // Counts and capacities can't go negative, whatever the interval says
+            value: Math.max(0, prediction.value),
+            lower: Math.max(0, prediction.lower),
+            upper: Math.max(0, prediction.upper),
+        };
+    });
+}
+
+/**
+ * Node count and committed/used storage forecasts over the timeframe, one per model
+ * that could be fitted, with the best fit (lowest backtest RMSE) flagged.
+ */
+export async function getGrowthForecasts(timeframe: ForecastTimeframe = '1y'): Promise<MetricForecast[]> {
+    const fitted = await fitGrowthModels();
+    const timestamps = forecastTimestamps(Date.now(), TIMEFRAME_DAYS[timeframe] ?? TIMEFRAME_DAYS['1y']);
+
+    return FORECAST_METRICS.map(metric => {
+        const { history, models, best } = fitted[metric];
+        return {
+            metric,
+            current: history.length > 0 ? history[history.length - 1].value : null,
+            history: history.map(p => ({ timestamp: new Date(p.t).toISOString(), value: p.value })),
+            bestModel: best?.model ?? null,
+            models: models.map(m => ({
+                model: m.model,
+                rmse: (m.backtest ?? m).rmse,
+                mape: (m.backtest ?? m).mape,
+                points: forecastPoints(m, timestamps),
+            })),
+        };
+    });
+}
@@ -0,0 +1,92 @@
+import { supabase } from '@/lib/supabase';
+import { GeolocationData } from '@/infrastructure/rpc/types';
+import { getGeolocationProviders } from '@/infrastructure/geolocation';
+import { GEOLOCATION_CACHE_TTL_MS } from './config';
+
+// Keeps .in() filters well under URL length limits
+const CACHE_QUERY_CHUNK = 200;
+
+// In-process layer in front of the ip_geolocation table, for repeated runs on a warm instance
+const geoCache = new Map<string, { data: GeolocationData; fetchedAt: number }>();
+
+export interface GeolocationBatch {
+    locations: Record<string, GeolocationData>;
+    bySource: Record<string, number>; // IPs resolved by each source ('cache' or a provider name)
+}
+
+function isFresh(fetchedAt: number): boolean {
+    return Date.now() - fetchedAt < GEOLOCATION_CACHE_TTL_MS;
+}
+
+async function readCachedLocations(ips: string[]): Promise<Record<string, GeolocationData>> {
+    const results: Record<string, GeolocationData> = {};
+
+    for (let i = 0; i < ips.length; i += CACHE_QUERY_CHUNK) {
+        const { data, error } = await supabase
+            .from('ip_geolocation')
+            .select('ip, data, fetched_at')
+            .in('ip', ips.slice(i, i + CACHE_QUERY_CHUNK))
+            .gte('fetched_at', new Date(Date.now() - GEOLOCATION_CACHE_TTL_MS).toISOString());
+
+        if (error || !data) {
+            if (error) console.error('Error reading geolocation cache:', error);
+            continue;
+        }
+
+        data.forEach((row: any) => {
+            results[row.ip] = row.data;
+            geoCache.set(row.ip, { data: row.data, fetchedAt: new Date(row.fetched_at).getTime() });
+        });
+    }
+
+    return results;
+}
+
+async function writeCachedLocations(entries: { ip: string; data: GeolocationData; source: string }[]): Promise<void> {
+    if (entries.length === 0) return;
+
+    const fetchedAt = new Date().toISOString();
+    const { error } = await supabase.from('ip_geolocation').upsert(
+        entries.map(e => ({ ip: e.ip, data: e.data, source: e.source, fetched_at: fetchedAt })),
+        { onConflict: 'ip' }
+    );
+    if (error) console.error('Error writing geolocation cache:', error);
+}
+
+/**
+ * Geolocate IPs: in-process cache, then the ip_geolocation table, then each configured
+ * provider in turn for whatever is still unresolved. New results are written back to the table.
+ */
+export async function fetchBatchGeolocation(ips: string[]): Promise<GeolocationBatch> {
+    const unique = Array.from(new Set(ips));
+    const locations: Record<string, GeolocationData> = {};
+    const bySource: Record<string, number> = {};
+
+    unique.forEach(ip => {
+        const cached = geoCache.get(ip);
+        if (cached && isFresh(cached.fetchedAt)) locations[ip] = cached.data;
+    });
+
+    let missing = unique.filter(ip => !locations[ip]);
+    Object.assign(locations, await readCachedLocations(missing));
+    bySource.cache = unique.length - unique.filter(ip => !locations[ip]).length;
+    missing = unique.filter(ip => !locations[ip]);
+
+    const fresh: { ip: string; data: GeolocationData; source: string }[] = [];
+    for (const provider of getGeolocationProviders()) {
+        if (missing.length === 0) break;
+
+        const resolved = await provider.lookup(missing);
+        Object.entries(resolved).forEach(([ip, data]) => {
+            locations[ip] = data;
+            geoCache.set(ip, { data, fetchedAt: Date.now() });
+            fresh.push({ ip, data, source: provider.name });
+        });
+        bySource[provider.name] = Object.keys(resolved).length;
+        missing = missing.filter(ip => !locations[ip]);
+    }
+
+    await writeCachedLocations(fresh);
+
+    return { locations, bySource };
+}
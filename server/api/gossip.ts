@@ -0,0 +1,124 @@
+import { GossipDivergence, GossipDivergenceNode } from '@/types/pnode';
+import { supabase } from '@/lib/supabase';
+import type { Pod } from 'xandeum-prpc';
+import { GOSSIP_SKEW_THRESHOLD_SEC, GOSSIP_PARTITION_SIMILARITY } from './config';
+
+// Partially seen / skewed nodes kept per measurement
+const DIVERGENCE_MAX_NODES = 100;
+// Measurements older than this no longer describe the current network
+const DIVERGENCE_MAX_AGE_MS = 60 * 60 * 1000;
+
+type SeedView = { ip: string; pods: Pod[] };
+
+/**
+ * Group seeds whose pod sets overlap by at least GOSSIP_PARTITION_SIMILARITY (Jaccard).
+ * Seeds are linked transitively, so each group is one consistent view of the network.
+ */
+function countViewGroups(sets: Set<string>[]): number {
+    const parent = sets.map((_, i) => i);
+    const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+    for (let a = 0; a < sets.length; a++) {
+        for (let b = a + 1; b < sets.length; b++) {
+            let shared = 0;
+            sets[a].forEach(key => { if (sets[b].has(key)) shared++; });
+            const union = sets[a].size + sets[b].size - shared;
+            const similarity = union > 0 ? shared / union : 1;
+            if (similarity >= GOSSIP_PARTITION_SIMILARITY) parent[find(a)] = find(b);
+        }
+    }
+
+    return new Set(sets.map((_, i) => find(i))).size;
+}
+
+/**
+ * Compare the pod lists returned by several seeds.
+ * Reports nodes that only some seeds see, last_seen skew per pubkey, and how many
+ * distinct views the seeds split into.
+ */
+export function computeGossipDivergence(views: SeedView[]): GossipDivergence {
+    const seeds = views.map(v => v.ip);
+    const sets = views.map(v => new Set(v.pods.map(p => p.pubkey).filter((k): k is string => !!k)));
+
+    const lastSeen = new Map<string, Map<string, number>>();
+    views.forEach(view => {
+        view.pods.forEach(pod => {
+            if (!pod.pubkey) return;
+            if (!lastSeen.has(pod.pubkey)) lastSeen.set(pod.pubkey, new Map());
+            lastSeen.get(pod.pubkey)!.set(view.ip, pod.last_seen_timestamp || 0);
+        });
+    });
+
+    let partialCount = 0;
+    let maxSkewSec = 0;
+    const nodes: GossipDivergenceNode[] = [];
+
+    lastSeen.forEach((bySeed, pubkey) => {
+        const timestamps = Array.from(bySeed.values()).filter(t => t > 0);
+        const lastSeenSkewSec = timestamps.length > 1 ? Math.max(...timestamps) - Math.min(...timestamps) : 0;
+        const partial = bySeed.size < views.length;
+
+        if (partial) partialCount++;
+        maxSkewSec = Math.max(maxSkewSec, lastSeenSkewSec);
+
+        if (partial || lastSeenSkewSec > GOSSIP_SKEW_THRESHOLD_SEC) {
+            nodes.push({
+                pubkey,
+                seenBy: seeds.filter(ip => bySeed.has(ip)),
+                missingFrom: seeds.filter(ip => !bySeed.has(ip)),
+                lastSeenSkewSec,
+            });
+        }
+    });
+
+    // Nodes missing from the most seeds first, then by skew
+    nodes.sort((a, b) => b.missingFrom.length - a.missingFrom.length || b.lastSeenSkewSec - a.lastSeenSkewSec);
+
+    return {
+        measuredAt: new Date().toISOString(),
+        seeds,
+        partitions: views.length > 1 ? countViewGroups(sets) - 1 : 0,
+        partialCount,
+        maxSkewSec,
+        nodes: nodes.slice(0, DIVERGENCE_MAX_NODES),
+    };
+}
+
+export async function recordGossipDivergence(divergence: GossipDivergence): Promise<void> {
+    const { error } = await supabase.from('gossip_divergence').insert({
+        measured_at: divergence.measuredAt,
+        seeds: divergence.seeds,
+        partitions: divergence.partitions,
+        partial_count: divergence.partialCount,
+        max_skew_sec: divergence.maxSkewSec,
+        nodes: divergence.nodes,
+    });
+    if (error) throw error;
+}
+
+/**
+ * Latest recent divergence measurement, or null when multi-seed ingestion hasn't run lately.
+ */
+export async function getLatestGossipDivergence(): Promise<GossipDivergence | null> {
+    const { data, error } = await supabase
+        .from('gossip_divergence')
+        .select('*')
+        .gte('measured_at', new Date(Date.now() - DIVERGENCE_MAX_AGE_MS).toISOString())
+        .order('measured_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+    if (error || !data) {
+        if (error) console.error('Error fetching gossip divergence:', error);
+        return null;
+    }
+
+    return {
+        measuredAt: data.measured_at,
+        seeds: data.seeds || [],
+        partitions: data.partitions || 0,
+        partialCount: data.partial_count || 0,
+        maxSkewSec: data.max_skew_sec || 0,
+        nodes: data.nodes || [],
+    };
+}
@@ -0,0 +1,236 @@
+import { PNode, NodeHistory, NodeHistoryPoint } from '@/types/pnode';
+import { supabase } from '@/lib/supabase';
+import { resolveTimeRange, pickHistoryTier, BucketSize, BUCKET_SECONDS } from './timeseries';
+
+// Number of samples kept inline on each pnodes row (≈4h at a 5 minute ingestion interval)
+const NODE_HISTORY_WINDOW = 48;
+// Upper bound on rows returned by a single node-history query
+const NODE_HISTORY_MAX_POINTS = 1000;
+// Width of the window used to find the baseline sample for trend calculations
+const TREND_BASELINE_WINDOW_MS = 60 * 60 * 1000;
+// Score changes smaller than this are reported as 'stable'
+const TREND_STABLE_DELTA = 0.5;
+
+const PERIOD_MS: Record<NodeHistory['period'], number> = {
+    '24h': 24 * 60 * 60 * 1000,
+    '7d': 7 * 24 * 60 * 60 * 1000,
+    '30d': 30 * 24 * 60 * 60 * 1000,
+};
+
+type NodeHistoryWindow = NonNullable<PNode['history']>;
+
+export interface PreviousNodeRow {
+    history?: NodeHistoryWindow;
+    credits: number;
+    creditsIncreasedAt?: string;
+    commission?: number; // Only set once the node was matched to a vote account
+    staking?: PNode['staking']; // Carried forward when the vote account lookup fails
+}
+
+/**
+ * Load the inline history window and credits currently stored on each pnodes row.
+ * Used by ingestion to extend the window instead of overwriting it.
+ */
+export async function getPreviousNodeRows(): Promise<Map<string, PreviousNodeRow>> {
+    const previous = new Map<string, PreviousNodeRow>();
+
+    const { data, error } = await supabase.from('pnodes').select('id, history, credits, credits_increased_at, staking');
+    if (error || !data) {
+        if (error) console.error('Error loading previous node rows:', error);
+        return previous;
+    }
+
+    data.forEach((row: any) => {
+        previous.set(row.id, {
+            history: row.history || undefined,
+            credits: row.credits || 0,
+            creditsIncreasedAt: row.credits_increased_at || undefined,
+            commission: row.staking?.votePubkey ? row.staking.commission : undefined,
+            staking: row.staking || undefined,
+        });
+    });
+
+    return previous;
+}
+
+/**
+ * Append the node's current sample to its previous history window,
+ * keeping only the most recent NODE_HISTORY_WINDOW samples.
+ */
+export function appendHistorySample(previous: NodeHistoryWindow | undefined, node: PNode): NodeHistoryWindow {
+    const trim = (values: number[] | undefined, next: number) =>
+        [...(values || []), next].slice(-NODE_HISTORY_WINDOW);
+
+    return {
+        uptimeHistory: trim(previous?.uptimeHistory, node.uptime || 0),
+        latencyHistory: trim(previous?.latencyHistory, node.metrics.responseTimeMs || 0),
+        scoreHistory: trim(previous?.scoreHistory, node.performance.score || 0),
+    };
+}
+
+/**
+ * Credits change since the previous ingestion, and when credits last went up.
+ * A node seen for the first time counts as just increased so it isn't flagged as stalled.
+ * When this run's credits are unknown (the pod credits API failed) there is no delta and
+ * the previous increase time is kept.
+ */
+export function trackCreditsAccrual(
+    previous: PreviousNodeRow | undefined,
+    node: PNode,
+    now: string,
+    creditsKnown: boolean = true
+): Pick<PNode, 'creditsDelta' | 'creditsIncreasedAt'> {
+    if (!creditsKnown) return { creditsDelta: undefined, creditsIncreasedAt: previous?.creditsIncreasedAt ?? now };
+    if (!previous) return { creditsDelta: 0, creditsIncreasedAt: now };
+
+    const creditsDelta = (node.credits || 0) - previous.credits;
+    return {
+        creditsDelta,
+        creditsIncreasedAt: creditsDelta > 0 || !previous.creditsIncreasedAt ? now : previous.creditsIncreasedAt,
+    };
+}
+
+/**
+ * Insert one pnode_snapshots row per node for the current ingestion run.
+ */
+export async function recordNodeSnapshots(nodes: PNode[]): Promise<void> {
+    if (nodes.length === 0) return;
+
+    const recordedAt = new Date().toISOString();
+    const rows = nodes.map(node => ({
+        node_id: node.id,
+        pubkey: node.pubkey,
+        status: node.status,
+        uptime: node.uptime || 0,
+        latency_ms: node.metrics.responseTimeMs || 0,
+        score: node.performance.score || 0,
+        credits: node.credits || 0,
+        credits_delta: node.creditsDelta ?? null, // Unknown when the pod credits API failed
+        credits_rank: node.creditsRank || null,
+        storage_used_gb: node.metrics.storageUsedGB ?? null,
+        storage_capacity_gb: node.metrics.storageCapacityGB || 0,
+        peers_connected: node.gossip.peersConnected ?? null,
+        recorded_at: recordedAt,
+    }));
+
+    const { error } = await supabase.from('pnode_snapshots').insert(rows);
+    if (error) console.error('Snapshot Insert Error:', error);
+}
+
+function mapSnapshotRow(row: any): NodeHistoryPoint {
+    return {
+        timestamp: row.recorded_at,
+        status: row.status,
+        uptime: row.uptime || 0,
+        latencyMs: row.latency_ms || 0,
+        score: row.score || 0,
+        credits: row.credits || 0,
+        creditsDelta: row.credits_delta || 0,
+        storageUsedGB: row.storage_used_gb || 0,
+    };
+}
+
+// Raw snapshots aggregated per bucket in SQL, so a long range isn't cut off at the row limit
+async function getRawNodeHistory(nodeId: string, from: Date, bucket: BucketSize): Promise<NodeHistoryPoint[]> {
+    const { data, error } = await supabase.rpc('pnode_snapshot_buckets', {
+        p_node_id: nodeId,
+        p_from: from.toISOString(),
+        p_to: new Date().toISOString(),
+        p_bucket_seconds: BUCKET_SECONDS[bucket],
+    });
+
+    if (error || !data) {
+        if (error) console.error('Error fetching node history:', error);
+        return [];
+    }
+    return (data as any[]).map(row => mapSnapshotRow({ ...row, recorded_at: new Date(row.bucket).toISOString() }));
+}
+
+async function getNodeHistoryRollups(nodeId: string, from: Date, resolution: BucketSize): Promise<NodeHistoryPoint[]> {
+    const { data, error } = await supabase
+        .from('pnode_snapshot_rollups')
+        .select('*')
+        .eq('node_id', nodeId)
+        .eq('resolution', resolution)
+        .gte('bucket', from.toISOString())
+        .order('bucket', { ascending: false })
+        .limit(NODE_HISTORY_MAX_POINTS);
+
+    if (error || !data) {
+        if (error) console.error('Error fetching node history rollups:', error);
+        return [];
+    }
+    return data.map((row: any) => mapSnapshotRow({ ...row, recorded_at: new Date(row.bucket).toISOString() })).reverse();
+}
+
+/**
+ * Get the recorded samples for a single node over the requested period.
+ * 24h is served from raw snapshots in 5-minute buckets; longer periods from hourly
+ * rollups (or daily ones past their retention), followed by the raw snapshots not
+ * rolled up yet, bucketed at the same resolution.
+ */
+export async function getNodeHistory(
+    nodeId: string,
+    period: '24h' | '7d' | '30d' = '24h'
+): Promise<NodeHistory> {
+    const range = resolveTimeRange(period);
+    const bucket: BucketSize = period === '24h' ? '5m' : '1h';
+    const tier = pickHistoryTier(range, bucket);
+
+    if (tier === '5m') {
+        return { nodeId, period, dataPoints: await getRawNodeHistory(nodeId, range.from, bucket) };
+    }
+
+    const rolledUp = await getNodeHistoryRollups(nodeId, range.from, tier);
+    const last = rolledUp[rolledUp.length - 1];
+    const tailFrom = last ? new Date(new Date(last.timestamp).getTime() + BUCKET_SECONDS[tier] * 1000) : range.from;
+    const tail = await getRawNodeHistory(nodeId, tailFrom, tier);
+
+    return { nodeId, period, dataPoints: [...rolledUp, ...tail] };
+}
+
+/**
+ * Get the score change for each node between the start of the period and now.
+ * Nodes without a baseline sample in the period are omitted from the result.
+ */
+export async function getScoreTrends(
+    nodes: PNode[],
+    period: '24h' | '7d' | '30d' = '24h'
+): Promise<Map<string, { trend: 'up' | 'down' | 'stable'; trendChange: number }>> {
+    const trends = new Map<string, { trend: 'up' | 'down' | 'stable'; trendChange: number }>();
+    if (nodes.length === 0) return trends;
+
+    const start = Date.now() - PERIOD_MS[period];
+
+    // Only read the first hour of the period so the query stays small
+    const { data, error } = await supabase
+        .from('pnode_snapshots')
+        .select('node_id, score, recorded_at')
+        .in('node_id', nodes.map(n => n.id))
+        .gte('recorded_at', new Date(start).toISOString())
+        .lte('recorded_at', new Date(start + TREND_BASELINE_WINDOW_MS).toISOString())
+        .order('recorded_at', { ascending: true });
+
+    if (error || !data) {
+        if (error) console.error('Error fetching score trends:', error);
+        return trends;
+    }
+
+    const baseline = new Map<string, number>();
+    data.forEach((row: any) => {
+        if (!baseline.has(row.node_id)) baseline.set(row.node_id, row.score || 0);
+    });
+
+    nodes.forEach(node => {
+        const previous = baseline.get(node.id);
+        if (previous === undefined) return;
+
+        const trendChange = node.performance.score - previous;
+        const trend = trendChange > TREND_STABLE_DELTA ? 'up'
+            : trendChange < -TREND_STABLE_DELTA ? 'down'
+                : 'stable';
+        trends.set(node.id, { trend, trendChange });
+    });
+
+    return trends;
+}
@@ -0,0 +1,177 @@
+import { IngestionRun, IngestionStage } from '@/types/pnode';
+import { supabase } from '@/lib/supabase';
+import { INGESTION_LOCK_TTL_MS } from './config';
+
+const INGESTION_LOCK_NAME = 'pnode_ingestion';
+const INGESTION_RUNS_MAX = 100;
+
+export type IngestionTrigger = IngestionRun['trigger'];
+
+// Structured log filled in by ingestNodeData as it works through its stages
+export interface IngestionLog {
+    seedIp?: string;
+    stages: IngestionStage[];
+}
+
+export function createIngestionLog(): IngestionLog {
+    return { stages: [] };
+}
+
+/**
+ * Readable message for thrown values; Supabase errors are plain objects with a message.
+ */
+export function describeError(err: unknown): string {
+    if (err instanceof Error) return err.message;
+    if (err && typeof err === 'object' && 'message' in err) return String((err as { message: unknown }).message);
+    return String(err);
+}
+
+type StageSummary = Partial<Pick<IngestionStage, 'status' | 'inputCount' | 'outputCount' | 'detail' | 'error'>>;
+
+/**
+ * Run one ingestion stage, appending its timing and outcome to the log.
+ * `summarize` derives counts and status from the result; errors are recorded and rethrown.
+ */
+export async function runStage<T>(
+    log: IngestionLog,
+    name: string,
+    fn: () => Promise<T>,
+    summarize?: (result: T) => StageSummary
+): Promise<T> {
+    const startedAt = new Date();
+    try {
+        const result = await fn();
+        log.stages.push({
+            name,
+            status: 'success',
+            startedAt: startedAt.toISOString(),
+            durationMs: Date.now() - startedAt.getTime(),
+            ...summarize?.(result),
+        });
+        return result;
+    } catch (err) {
+        log.stages.push({
+            name,
+            status: 'failed',
+            startedAt: startedAt.toISOString(),
+            durationMs: Date.now() - startedAt.getTime(),
+            error: describeError(err),
+        });
+        throw err;
+    }
+}
+
+export function createIngestionRunId(): string {
+    return `run_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Try to take the shared ingestion lock for this run.
+ * Returns false when another run (in any server instance) holds an unexpired lease.
+ */
+export async function acquireIngestionLock(runId: string): Promise<boolean> {
+    const { data, error } = await supabase.rpc('try_acquire_ingestion_lock', {
+        p_name: INGESTION_LOCK_NAME,
+        p_holder: runId,
+        p_ttl_seconds: Math.ceil(INGESTION_LOCK_TTL_MS / 1000),
+    });
+
+    if (error) {
+        // Lock function missing or unreachable: run unlocked rather than never refreshing
+        console.error('Error acquiring ingestion lock, continuing without it:', error);
+        return true;
+    }
+    return data === true;
+}
+
+export async function releaseIngestionLock(runId: string): Promise<void> {
+    const { error } = await supabase
+        .from('ingestion_locks')
+        .delete()
+        .eq('name', INGESTION_LOCK_NAME)
+        .eq('holder', runId);
+    if (error) console.error('Error releasing ingestion lock:', error);
+}
+
+export async function startIngestionRun(runId: string, trigger: IngestionTrigger): Promise<IngestionRun> {
+    const run: IngestionRun = {
+        id: runId,
+        trigger,
+        status: 'running',
+        startedAt: new Date().toISOString(),
+        stages: [],
+        errors: [],
+    };
+
+    const { error } = await supabase.from('ingestion_runs').insert({
+        id: run.id,
+        trigger: run.trigger,
+        status: run.status,
+        started_at: run.startedAt,
+    });
+    if (error) console.error('Error recording ingestion run:', error);
+
+    return run;
+}
+
+export async function finishIngestionRun(
+    run: IngestionRun,
+    result: { nodeCount?: number; errors: string[]; log: IngestionLog }
+): Promise<IngestionRun> {
+    const finishedAt = new Date();
+    const finished: IngestionRun = {
+        ...run,
+        status: result.errors.length > 0 ? 'failed' : 'success',
+        finishedAt: finishedAt.toISOString(),
+        durationMs: finishedAt.getTime() - new Date(run.startedAt).getTime(),
+        nodeCount: result.nodeCount,
+        seedIp: result.log.seedIp,
+        stages: result.log.stages,
+        errors: result.errors,
+    };
+
+    const { error } = await supabase
+        .from('ingestion_runs')
+        .update({
+            status: finished.status,
+            finished_at: finished.finishedAt,
+            duration_ms: finished.durationMs,
+            node_count: finished.nodeCount ?? null,
+            seed_ip: finished.seedIp ?? null,
+            stages: finished.stages,
+            errors: finished.errors,
+        })
+        .eq('id', run.id);
+    if (error) console.error('Error updating ingestion run:', error);
+
+    return finished;
+}
+
+/**
+ * Most recent ingestion runs, newest first.
+ */
+export async function getIngestionRuns(limit = 50): Promise<IngestionRun[]> {
+    const { data, error } = await supabase
+        .from('ingestion_runs')
+        .select('*')
+        .order('started_at', { ascending: false })
+        .limit(Math.min(limit, INGESTION_RUNS_MAX));
+
+    if (error || !data) {
+        if (error) console.error('Error fetching ingestion runs:', error);
+        return [];
+    }
+
+    return data.map((row: any) => ({
+        id: row.id,
+        trigger: row.trigger,
+        status: row.status,
+        startedAt: row.started_at,
+        finishedAt: row.finished_at || undefined,
+        durationMs: row.duration_ms ?? undefined,
+        nodeCount: row.node_count ?? undefined,
+        seedIp: row.seed_ip || undefined,
+        stages: row.stages || [],
+        errors: row.errors || [],
+    }));
+}
@@ -0,0 +1,39 @@
+import jurisdictionData from '@/server/data/jurisdictions.json';
+import hostingData from '@/server/data/hosting-providers.json';
+
+export type HostingKind = 'major_cloud' | 'vps' | 'bare_metal' | 'independent';
+
+interface JurisdictionBloc {
+    id: string;
+    name: string;
+    description: string;
+    countries: string[];
+}
+
+interface HostingProvider {
+    name: string;
+    kind: Exclude<HostingKind, 'independent'>;
+    asns: string[];
+}
+
+export const JURISDICTION_BLOCS: JurisdictionBloc[] = jurisdictionData.blocs;
+const HOSTING_PROVIDERS = hostingData.providers as HostingProvider[];
+
+/**
+ * Jurisdiction a country falls under: the first bloc listing it, or the country itself.
+ */
+export function getJurisdiction(countryCode: string): string {
+    return JURISDICTION_BLOCS.find(bloc => bloc.countries.includes(countryCode))?.id ?? countryCode;
+}
+
+/**
+ * Blocs a country belongs to. Blocs overlap (an EU member can also be in Fourteen Eyes).
+ */
+export function getBlocMemberships(countryCode: string): JurisdictionBloc[] {
+    return JURISDICTION_BLOCS.filter(bloc => bloc.countries.includes(countryCode));
+}
+
+export function getHostingProvider(asn: string): { name: string; kind: HostingKind } {
+    const provider = HOSTING_PROVIDERS.find(p => p.asns.includes(asn));
+    return provider ? { name: provider.name, kind: provider.kind } : { name: asn, kind: 'independent' };
+}
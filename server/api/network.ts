@@ -1,25 +1,25 @@
-import { NetworkStats, NetworkEvent, PerformanceHistory, GossipHealth, StorageDistribution } from '@/types/pnode';
+import { NetworkStats, NetworkEvent, PerformanceHistory, GossipHealth, StorageDistribution, HistoryPeriod } from '@/types/pnode';
 import { getClusterNodes } from './pnodes';
+import { estimateGossipMessages24h, calculateTPSFromSamples, calculateSkipRates } from './utils';
+import { fetchPerformanceSamples, fetchBlockProduction } from './rpc';
+import { getLatestGossipDivergence } from './gossip';
+import { getNetworkStatsBuckets, resolveTimeRange, TimeRange, BUCKET_SECONDS, bucketSizeFor, pickHistoryTier } from './timeseries';
+import { getAnomalyEvents, getNetworkAnomalies } from './anomalies';
 import { supabase } from '@/lib/supabase';
+import { isActiveNode } from '@/lib/pnode-utils-client';
 
 // Real Data Only.
 
+// Performance samples are one per minute, so the default 10 samples average the last 10 minutes
 export async function calculateNetworkTPS(): Promise<number> {
-    // Current RPC implementation might not support this fully, 
-    // but if we had performance samples, we'd use them.
-    // For now, return 0 if we can't get it from getClusterNodes or RPC directly without mocks.
-    // The previous implementation used 'fetchPerformanceSamples' from './rpc'.
-    // If that is real, we can keep it.
-    // I will assume fetchPerformanceSamples is REAL if it calls RPC.
-    // But to be safe and stick to Supabase architecture, we might want to store this in network_stats.
-
-    // For now, let's just return 0 to avoid "Bullshit" until we have a real source.
-    return 0;
+    const samples = await fetchPerformanceSamples();
+    return calculateTPSFromSamples(samples);
 }
 
 export async function calculateSkipRate(): Promise<{ overall: number; byValidator: Map<string, number> }> {
-    // Same here. Using real data or returning 0.
-    return { overall: 0, byValidator: new Map() };
+    const production = await fetchBlockProduction();
+    if (!production) return { overall: 0, byValidator: new Map() };
+    return calculateSkipRates(production);
 }
 
 export async function getNetworkStats(): Promise<NetworkStats> {
@@ -41,7 +41,7 @@ export async function getNetworkStats(): Promise<NetworkStats> {
                     totalNodes: cachedStats.total_nodes,
                     onlineNodes: cachedStats.online_nodes,
                     offlineNodes: cachedStats.offline_nodes,
-                    degradedNodes: 0,
+                    degradedNodes: cachedStats.degraded_nodes || 0,
                     totalStorageCapacityTB: cachedStats.total_storage_tb,
                     totalStorageUsedTB: cachedStats.total_storage_used_tb,
                     averageUptime: cachedStats.avg_uptime,
@@ -63,9 +63,9 @@ export async function getNetworkStats(): Promise<NetworkStats> {
         const totalCapacity = nodes.reduce((acc, n) => acc + (n.metrics.storageCapacityGB || 0), 0) / 1000;
         const totalUsed = nodes.reduce((acc, n) => acc + (n.metrics.storageUsedGB || 0), 0) / 1000;
 
-        const onlineNodesData = nodes.filter(n => n.status === 'online');
-        const avgUptime = onlineNodesData.length > 0
-            ? onlineNodesData.reduce((acc, n) => acc + n.uptime, 0) / onlineNodesData.length
+        const activeNodes = nodes.filter(isActiveNode);
+        const avgUptime = activeNodes.length > 0
+            ? activeNodes.reduce((acc, n) => acc + n.uptime, 0) / activeNodes.length
             : 0;
 
         // Calculate average response time from real measured latencies
@@ -74,7 +74,7 @@ export async function getNetworkStats(): Promise<NetworkStats> {
             ? nodesWithLatency.reduce((acc, n) => acc + n.metrics.responseTimeMs, 0) / nodesWithLatency.length
             : 0;
 
-        const networkHealth = nodes.length > 0 ? (onlineNodes / nodes.length) * 100 : 0;
+        const networkHealth = nodes.length > 0 ? (activeNodes.length / nodes.length) * 100 : 0;
 
         return {
             totalNodes: nodes.length,
@@ -86,7 +86,7 @@ export async function getNetworkStats(): Promise<NetworkStats> {
             averageUptime: avgUptime,
             averageResponseTime: avgResponseTime, // REAL measured latency
             networkHealth,
-            gossipMessages24h: onlineNodes * 60 * 24, // Estimated
+            gossipMessages24h: estimateGossipMessages24h(nodes),
             lastUpdated: new Date().toISOString(),
         };
     } catch (err) {
@@ -142,67 +142,88 @@ export async function getNetworkEvents(): Promise<NetworkEvent[]> {
         timestamp: now
     });
 
-    return events;
-}
-
-export async function getPerformanceHistory(period: '24h' | '7d' | '30d' = '24h'): Promise<PerformanceHistory[]> {
-    // Query Supabase 'network_stats' table for history.
-    // This requires us to have historical rows.
-
-    const limit = period === '24h' ? 24 : period === '7d' ? 168 : 720; // Hourly points?
-    // We ingest every 5 mins.
-    // If we just pull last N rows, it maps to time.
-
-    // For now, return empty real history rather than fake sine waves.
-
-    const { data, error } = await supabase
-        .from('network_stats')
-        .select('*')
-        .order('updated_at', { ascending: false })
-        .limit(limit);
+    // Metrics the anomaly detector flagged after recent ingestions
+    events.push(...await getAnomalyEvents());
 
-    if (error || !data) return [];
+    return events.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+}
 
-    return data.map((row: any) => ({
-        timestamp: row.updated_at,
-        avgResponseTime: row.avg_response_time || 0,
-        totalNodes: row.total_nodes,
-        onlineNodes: row.online_nodes,
-        storageUsedTB: row.total_storage_used_tb || 0,
-        gossipMessages: row.gossip_messages_24h_count || 0
-    })).reverse();
+/**
+ * network_stats history over a preset period or explicit range, bucketed by
+ * bucketSizeFor(range). Each point holds the bucket's averages and the network-wide
+ * anomalies detected within it.
+ */
+export async function getPerformanceHistory(range: HistoryPeriod | TimeRange = '24h'): Promise<PerformanceHistory[]> {
+    const timeRange = typeof range === 'string' ? resolveTimeRange(range) : range;
+    const [buckets, anomalies] = await Promise.all([
+        getNetworkStatsBuckets(timeRange),
+        getNetworkAnomalies(timeRange),
+    ]);
+    // Width the buckets are actually served at, which may be coarser than requested
+    const bucketMs = BUCKET_SECONDS[pickHistoryTier(timeRange, bucketSizeFor(timeRange))] * 1000;
+
+    return buckets.map(({ timestamp, samples, metrics }) => ({
+        timestamp,
+        samples,
+        avgResponseTime: metrics.avg_response_time?.avg || 0,
+        responseTimeP95: metrics.avg_response_time?.p95 || 0,
+        responseTimeMax: metrics.avg_response_time?.max || 0,
+        totalNodes: Math.round(metrics.total_nodes?.avg || 0),
+        onlineNodes: Math.round(metrics.online_nodes?.avg || 0),
+        storageUsedTB: metrics.total_storage_used_tb?.avg || 0,
+        gossipMessages: Math.round(metrics.gossip_messages_24h_count?.avg || 0),
+        tps: metrics.tps?.avg ?? null,
+        skipRate: metrics.skip_rate?.avg ?? null,
+        anomalies: anomalies.filter(a => {
+            const offset = new Date(a.detectedAt).getTime() - new Date(timestamp).getTime();
+            return offset >= 0 && offset < bucketMs;
+        }),
+    }));
 }
 
 export async function getGossipHealth(): Promise<GossipHealth> {
     const nodes = await getClusterNodes();
-    const onlineNodes = nodes.filter(n => n.status === 'online');
-    console.log(`Debug Gossip: total=${nodes.length} online=${onlineNodes.length}`);
-
-    // Calculate real aggregate metrics from online nodes
-    const totalPeers = onlineNodes.length * 8; // Estimate: dense network usually has ~8-12 peers/node
-    const avgPeersPerNode = onlineNodes.length > 0 ? 8 : 0; // Simplified for MVP if individual peer count isn't in metrics
-
-    // Derive message rate from node activity (if not explicitly tracked)
-    const messageRate = onlineNodes.length > 0 ? Math.floor(onlineNodes.length * 3.5) : 0; // Simulated reasonable baseline
+    const activeNodes = nodes.filter(isActiveNode);
+    console.log(`Debug Gossip: total=${nodes.length} active=${activeNodes.length}`);
+
+    // Peer counts and packet counters only exist for nodes where they were measured
+    const nodesWithPeers = activeNodes.filter(n => n.gossip.peersConnected != null);
+    const totalPeers = nodesWithPeers.length > 0
+        ? nodesWithPeers.reduce((acc, n) => acc + (n.gossip.peersConnected || 0), 0)
+        : null;
+    const avgPeersPerNode = totalPeers !== null ? totalPeers / nodesWithPeers.length : null;
+
+    // Packets per second across the network, from counters accumulated since each node started
+    const nodesWithPackets = activeNodes.filter(n =>
+        n.gossip.messagesReceived != null && n.gossip.messagesSent != null && n.uptime > 0);
+    const messageRate = nodesWithPackets.length > 0
+        ? Math.round(nodesWithPackets.reduce((acc, n) =>
+            acc + ((n.gossip.messagesReceived || 0) + (n.gossip.messagesSent || 0)) / n.uptime, 0))
+        : null;
 
     // Average Latency
-    const nodesWithLatency = onlineNodes.filter(n => n.metrics.responseTimeMs > 0);
+    const nodesWithLatency = activeNodes.filter(n => n.metrics.responseTimeMs > 0);
     const networkLatency = nodesWithLatency.length > 0
         ? Math.round(nodesWithLatency.reduce((acc, n) => acc + n.metrics.responseTimeMs, 0) / nodesWithLatency.length)
         : 0;
 
     // Calculate health score based on connectivity and latency
     let healthScore = 100;
-    if (onlineNodes.length < nodes.length * 0.7) healthScore -= 20; // Penalty if <70% online
+    if (activeNodes.length < nodes.length * 0.7) healthScore -= 20; // Penalty if <70% online or degraded
     if (networkLatency > 200) healthScore -= 10;
     if (networkLatency > 500) healthScore -= 20;
 
+    // Seeds disagreeing on the pod set (only measured when several seeds are queried)
+    const divergence = await getLatestGossipDivergence();
+    const partitions = divergence?.partitions ?? 0;
+    healthScore -= partitions * 15;
+
     return {
         totalPeers,
         avgPeersPerNode,
         messageRate,
         networkLatency,
-        partitions: 0, // Assuming no partitions for now
+        partitions,
         healthScore: Math.max(0, healthScore),
     };
 }
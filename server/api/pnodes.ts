@@ -1,18 +1,39 @@
-import { PNode } from '@/types/pnode';
-import { POD_CREDITS_API, CACHE_DURATION } from './config';
+import { PNode, IngestionRun } from '@/types/pnode';
+import { after } from 'next/server';
+import { POD_CREDITS_API, CACHE_DURATION, REFRESH_INTERVAL, PRPC_MERGE_SEEDS, ANOMALY_DETECTION_ENABLED } from './config';
 import { supabase } from '@/lib/supabase';
 import { PodCreditsResponse, GeolocationData } from '@/infrastructure/rpc/types';
-import { hashPubkey } from './utils';
-import { getPrpcClient } from '@/infrastructure/xandeum/client';
+import { hashPubkey, estimateGossipMessages24h, calculateTPSFromSamples, calculateSkipRates } from './utils';
+import { fetchPerformanceSamples, fetchBlockProduction } from './rpc';
+import { createPrpcClient } from '@/infrastructure/xandeum/client';
+import { fetchPodsFromSeeds } from '@/infrastructure/xandeum/seed-pool';
+import type { NodeStats } from 'xandeum-prpc';
+import { getPreviousNodeRows, appendHistorySample, trackCreditsAccrual, recordNodeSnapshots } from './history';
+import { attachVoteAccounts, recordCommissionChanges } from './staking';
+import { classifyNodeStatus, getLatestVersion } from './status';
+import { evaluateAlerts } from './alerts';
+import { fetchBatchGeolocation } from './geolocation';
+import { computeGossipDivergence, recordGossipDivergence } from './gossip';
+import { recordEpochObservation } from './epochs';
+import {
+    IngestionLog, IngestionTrigger, createIngestionLog, createIngestionRunId, runStage, describeError,
+    acquireIngestionLock, releaseIngestionLock, startIngestionRun, finishIngestionRun,
+} from './ingestion';
 
 // Constants for performance calculation
 const MAX_CREDITS = 60000; // Observed max from Pod Credits API
 const PING_TIMEOUT_MS = 3000; // 3 second timeout for latency check
 const PING_BATCH_SIZE = 20; // Concurrent ping limit
+const STATS_TIMEOUT_MS = 3000; // Per-node pRPC get-stats timeout
+const STATS_BATCH_SIZE = 10; // Concurrent get-stats limit
 
-// Simple in-memory cache for geolocation to avoid hitting rate limits too hard during dev
-const geoCache = new Map<string, GeolocationData>();
-const latencyCache = new Map<string, { latency: number; timestamp: number }>();
+// Simple in-memory cache of recent latency probes
+const latencyCache = new Map<string, { probe: ProbeResult; timestamp: number }>();
+
+interface ProbeResult {
+    latencyMs: number;
+    healthy: boolean; // False when /health timed out, was unreachable or returned 5xx
+}
 
 export async function fetchPodCredits(): Promise<PodCreditsResponse | null> {
     try {
@@ -26,103 +47,55 @@ export async function fetchPodCredits(): Promise<PodCreditsResponse | null> {
     }
 }
 
-export async function fetchBatchGeolocation(ips: string[]): Promise<Record<string, GeolocationData>> {
-    // Filter out IPs we already have in cache
-    const uncachedIps = ips.filter(ip => !geoCache.has(ip));
-
-    // Limits: ip-api batch is max 100.
-    const chunks = [];
-    for (let i = 0; i < uncachedIps.length; i += 100) {
-        chunks.push(uncachedIps.slice(i, i + 100));
-    }
-
-    const results: Record<string, GeolocationData> = {};
-
-    for (const chunk of chunks) {
-        try {
-            const response = await fetch('http://ip-api.com/batch', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify(chunk.map(ip => ({ query: ip }))),
-            });
-
-            if (response.ok) {
-                const data = await response.json();
-                if (Array.isArray(data)) {
-                    data.forEach((item: any) => {
-                        if (item.query && item.status === 'success') {
-                            geoCache.set(item.query, item);
-                            results[item.query] = item;
-                        }
-                    });
-                }
-            }
-        } catch (error) {
-            console.error('Batch geolocation error:', error);
-        }
-    }
-
-    // Merge with existing cache for the return value
-    ips.forEach(ip => {
-        if (geoCache.has(ip)) {
-            results[ip] = geoCache.get(ip)!;
-        }
-    });
-
-    return results;
-}
-
 /**
  * Ping a node to measure response time
- * Uses a simple HTTP HEAD request to the node's address
+ * Uses a simple HTTP HEAD request to the node's /health endpoint.
+ * A 404 still counts as healthy: the node answered, it just doesn't expose /health.
  */
-async function measureNodeLatency(ip: string, port: number): Promise<number> {
+async function measureNodeLatency(ip: string, port: number): Promise<ProbeResult> {
     // Check cache first (valid for 5 minutes)
     const cached = latencyCache.get(ip);
     if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
-        return cached.latency;
+        return cached.probe;
     }
 
-    try {
-        const startTime = Date.now();
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), PING_TIMEOUT_MS);
+    const startTime = Date.now();
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), PING_TIMEOUT_MS);
 
+    let probe: ProbeResult;
+    try {
         // Try to connect to the node's RPC port
-        await fetch(`http://${ip}:${port || 8899}/health`, {
+        const response = await fetch(`http://${ip}:${port || 8899}/health`, {
             method: 'HEAD',
             signal: controller.signal,
-        }).catch(() => {
-            // If /health doesn't exist, that's fine - we still measured the connection time
         });
-
-        clearTimeout(timeoutId);
-        const latency = Date.now() - startTime;
-
-        // Cache the result
-        latencyCache.set(ip, { latency, timestamp: Date.now() });
-        return latency;
+        probe = { latencyMs: Date.now() - startTime, healthy: response.status < 500 };
     } catch (error) {
         // Timeout or unreachable - return high latency
-        const highLatency = PING_TIMEOUT_MS;
-        latencyCache.set(ip, { latency: highLatency, timestamp: Date.now() });
-        return highLatency;
+        probe = { latencyMs: controller.signal.aborted ? PING_TIMEOUT_MS : Date.now() - startTime, healthy: false };
+    } finally {
+        clearTimeout(timeoutId);
     }
+
+    // Cache the result
+    latencyCache.set(ip, { probe, timestamp: Date.now() });
+    return probe;
 }
 
 /**
  * Batch ping multiple nodes with concurrency limit
  */
-async function batchMeasureLatency(nodes: { ip: string; port: number }[]): Promise<Map<string, number>> {
-    const results = new Map<string, number>();
+async function batchMeasureLatency(nodes: { ip: string; port: number }[]): Promise<Map<string, ProbeResult>> {
+    const results = new Map<string, ProbeResult>();
 
     // Process in batches to avoid overwhelming the network
     for (let i = 0; i < nodes.length; i += PING_BATCH_SIZE) {
         const batch = nodes.slice(i, i + PING_BATCH_SIZE);
         const promises = batch.map(async (node) => {
             if (node.ip && node.ip !== 'Unknown' && node.ip !== '0.0.0.0') {
-                const latency = await measureNodeLatency(node.ip, node.port);
-                results.set(node.ip, latency);
+                const probe = await measureNodeLatency(node.ip, node.port);
+                results.set(node.ip, probe);
             }
         });
         await Promise.all(promises);
@@ -131,6 +104,28 @@ async function batchMeasureLatency(nodes: { ip: string; port: number }[]): Promi
     return results;
 }
 
+/**
+ * Read each node's own stats over pRPC, with a concurrency limit.
+ * Nodes that don't answer are left out of the map; their metrics stay unknown.
+ */
+async function batchFetchNodeStats(ips: string[]): Promise<Map<string, NodeStats>> {
+    const results = new Map<string, NodeStats>();
+
+    for (let i = 0; i < ips.length; i += STATS_BATCH_SIZE) {
+        const batch = ips.slice(i, i + STATS_BATCH_SIZE);
+        await Promise.all(batch.map(async (ip) => {
+            try {
+                const stats = await createPrpcClient(ip, { timeout: STATS_TIMEOUT_MS }).getStats();
+                if (stats) results.set(ip, stats);
+            } catch {
+                // Private or unreachable pRPC port - nothing measured
+            }
+        }));
+    }
+
+    return results;
+}
+
 /**
  * Calculate performance score from credits
  */
@@ -149,7 +144,8 @@ function mapRpcNodeToPNode(
     creditData: any,
     index: number,
     geoData?: GeolocationData,
-    latencyMs?: number
+    latencyMs?: number,
+    stats?: NodeStats
 ): PNode {
     const pubkey = rpcNode.pubkey || `unknown-${index}`;
     // Use real IP if available.
@@ -169,13 +165,15 @@ function mapRpcNodeToPNode(
     const status = isOnline ? 'online' : 'offline';
 
     // Location (Real or Null)
+    // Datacenter is the AS organization, which every geolocation provider reports the same way
+    const asOrg = geoData?.as?.split(' ').slice(1).join(' ');
     const location = geoData ? {
         country: geoData.country || 'Unknown',
         countryCode: geoData.countryCode || 'UN',
         city: geoData.city || 'Unknown',
         lat: geoData.lat || 0,
         lng: geoData.lon || 0,
-        datacenter: geoData.org || 'Unknown',
+        datacenter: asOrg || geoData.org || 'Unknown',
         asn: geoData.as?.split(' ')[0] || 'Unknown',
     } : {
         country: 'Unknown',
@@ -187,20 +185,16 @@ function mapRpcNodeToPNode(
         asn: 'Unknown'
     };
 
-    // Metrics (Real or Estimated)
-    // RPC is missing system metrics, so we provide realistic estimates for Online nodes
-    // to prevent the UI from looking broken (0% CPU/Mem looks like an error).
-    // to prevent the UI from looking broken (0% CPU/Mem looks like an error).
-    const estimatedStorageUsed = isOnline ? Math.max(0.5, Math.random() * 5) : 0; // 0.5 - 5 GB
-    const storageUsed = (rpcNode.storage_used ? rpcNode.storage_used / 1024 / 1024 / 1024 : 0) || estimatedStorageUsed;
+    // Metrics (Real or Unknown)
+    // CPU, memory and packet counters come from the node's own pRPC stats;
+    // when those couldn't be read they are null rather than estimated.
+    const storageUsed = typeof rpcNode.storage_used === 'number' ? rpcNode.storage_used / 1024 / 1024 / 1024 : null;
     const storageCapacity = rpcNode.storage_committed ? rpcNode.storage_committed / 1024 / 1024 / 1024 : 0;
 
     // Calculate REAL performance score from credits
     const { score: performanceScore, tier: performanceTier } = calculatePerformanceScore(credits);
 
-    const estimatedPeers = isOnline ? 12 : 0; // Standard gossip peering target
-    const estimatedCpu = isOnline ? Math.max(5, Math.floor(Math.random() * 25)) : 0; // Idle to Light Load
-    const estimatedMem = isOnline ? Math.max(10, Math.floor(Math.random() * 35)) : 0; // Idle to Light Load
+    const memoryPercent = stats && stats.ram_total > 0 ? (stats.ram_used / stats.ram_total) * 100 : null;
 
     return {
         id: `pnode_${pubkey}`, // Stable ID based on pubkey
@@ -215,8 +209,8 @@ function mapRpcNodeToPNode(
         credits,
         creditsRank: 0, // Will calculate after sorting
         metrics: {
-            cpuPercent: estimatedCpu,
-            memoryPercent: estimatedMem,
+            cpuPercent: stats ? stats.cpu_percent : null,
+            memoryPercent,
             storageUsedGB: storageUsed,
             storageCapacityGB: storageCapacity,
             responseTimeMs: latencyMs || 0, // REAL measured latency
@@ -226,18 +220,11 @@ function mapRpcNodeToPNode(
             tier: performanceTier    // REAL tier from credits
         },
         gossip: {
-            peersConnected: estimatedPeers,
-            messagesReceived: isOnline ? Math.floor(Math.random() * 1000) + 500 : 0, // Activity heartbeat
-            messagesSent: isOnline ? Math.floor(Math.random() * 1000) + 500 : 0,
-        },
-        staking: {
-            commission: 0,
-            delegatedStake: 0,
-            activatedStake: 0,
-            apy: 0,
-            lastVote: 0,
-            rootSlot: 0,
+            peersConnected: null, // Not exposed by pRPC
+            messagesReceived: stats ? stats.packets_received : null,
+            messagesSent: stats ? stats.packets_sent : null,
         },
+        staking: undefined, // Filled from vote accounts during ingestion
         history: {
             uptimeHistory: [],
             latencyHistory: [],
@@ -250,21 +237,47 @@ function mapRpcNodeToPNode(
 /**
  * Ingests data from RPC sources and updates Supabase.
  * This is the SOURCE OF TRUTH updater.
+ * Each stage's timing, node counts and failures are appended to `log`.
  */
-export async function ingestNodeData() {
+export async function ingestNodeData(log: IngestionLog = createIngestionLog()) {
     console.log('Starting Ingestion...');
 
     try {
-        const client = getPrpcClient();
-        const [podCredits, rpcResponse] = await Promise.all([
-            fetchPodCredits(),
-            client.getPodsWithStats().catch(err => {
-                console.warn('getPodsWithStats failed, fallback getPods', err);
-                return client.getPods();
-            })
+        const [podCredits, podsResult] = await Promise.all([
+            runStage(log, 'pod-credits', () => fetchPodCredits(), (result) => ({
+                status: result ? 'success' : 'failed',
+                outputCount: result?.pods_credits?.length ?? 0,
+                error: result ? undefined : 'Pod Credits API unavailable',
+            })),
+            runStage(log, 'pods', () => fetchPodsFromSeeds(PRPC_MERGE_SEEDS), ({ pods, seeds, fallbackError, viewDisagreement }) => ({
+                status: fallbackError ? 'fallback' : 'success',
+                outputCount: pods.length,
+                detail: [
+                    seeds.map(s => `${s.ip} ${s.method} (${s.podCount})`).join(', '),
+                    seeds.length > 1 ? `${viewDisagreement} pods not seen by every seed` : undefined,
+                ].filter(Boolean).join('; '),
+                error: fallbackError && `get-pods-with-stats failed: ${fallbackError}`,
+            })),
         ]);
 
-        const rpcPods = (rpcResponse as any)?.pods || (rpcResponse as any) || [];
+        log.seedIp = podsResult.seeds.map(s => s.ip).join(',');
+
+        // 0.5 Compare the seeds' views of the network when more than one answered
+        if (podsResult.views.length > 1) {
+            await runStage(log, 'gossip-divergence', async () => {
+                const divergence = computeGossipDivergence(podsResult.views);
+                await recordGossipDivergence(divergence);
+                return divergence;
+            }, (divergence) => ({
+                inputCount: divergence.seeds.length,
+                outputCount: divergence.nodes.length,
+                detail: `${divergence.partitions} partitions, ${divergence.partialCount} partially seen, max skew ${divergence.maxSkewSec}s`,
+            })).catch(divergenceErr => {
+                console.error('Gossip divergence check failed:', divergenceErr);
+            });
+        }
+
+        const rpcPods = podsResult.pods;
         if (!Array.isArray(rpcPods)) {
             console.error('Invalid RPC response', rpcPods);
             return;
@@ -275,13 +288,20 @@ export async function ingestNodeData() {
             .map((pod: any) => pod.address?.split(':')[0])
             .filter((ip: string) => ip && ip !== '127.0.0.1' && ip !== 'localhost' && ip !== '0.0.0.0');
 
-        const geoBatch = await fetchBatchGeolocation(ipsToFetch);
+        const { locations: geoBatch } = await runStage(log, 'geolocation', () => fetchBatchGeolocation(ipsToFetch), (result) => ({
+            inputCount: ipsToFetch.length,
+            outputCount: Object.keys(result.locations).length,
+            detail: Object.entries(result.bySource).map(([source, count]) => `${source}: ${count}`).join(', '),
+        }));
 
         // 2. Prepare Credit Map
         const creditMap = new Map<string, number>();
         if (podCredits?.pods_credits) {
             podCredits.pods_credits.forEach((pc) => creditMap.set(pc.pod_id, pc.credits));
         }
+        // Without the pod credits API, nodes keep their stored credits instead of dropping to 0
+        const creditsKnown = !!podCredits?.pods_credits;
+        const previousRows = await getPreviousNodeRows();
 
         // 2.5 Measure latency for all nodes
         console.log('Measuring node latencies...');
@@ -290,21 +310,43 @@ export async function ingestNodeData() {
             port: pod.rpc_port || 8899
         })).filter((n: any) => n.ip && n.ip !== 'undefined' && n.ip !== '127.0.0.1' && n.ip !== '0.0.0.0');
 
-        const latencyMap = await batchMeasureLatency(nodesToPing);
+        const latencyMap = await runStage(log, 'latency', () => batchMeasureLatency(nodesToPing), (result) => ({
+            inputCount: nodesToPing.length,
+            outputCount: Array.from(result.values()).filter(probe => probe.healthy).length,
+            detail: 'output = healthy probes',
+        }));
         console.log(`Measured latency for ${latencyMap.size} nodes`);
 
+        // 2.6 Read system stats from every reachable node's own pRPC endpoint
+        const nowSec = Math.floor(Date.now() / 1000);
+        const ipsForStats: string[] = Array.from(new Set<string>(rpcPods
+            .filter((pod: any) => pod.is_public !== false && nowSec - (pod.last_seen_timestamp || 0) < 300)
+            .map((pod: any) => pod.address?.split(':')[0])
+            .filter((ip: string) => ip && latencyMap.get(ip)?.healthy !== false)));
+
+        const statsMap = await runStage(log, 'node-stats', () => batchFetchNodeStats(ipsForStats), (result) => ({
+            inputCount: ipsForStats.length,
+            outputCount: result.size,
+        }));
+        console.log(`Read pRPC stats from ${statsMap.size}/${ipsForStats.length} nodes`);
+
         // 3. Map Data with latency
-        let pnodes = rpcPods.map((rpcNode: any, index: number) => {
+        const pnodes: PNode[] = rpcPods.map((rpcNode: any, index: number) => {
             const ip = rpcNode.address?.split(':')[0];
-            const credits = creditMap.get(rpcNode.pubkey) || 0;
+            const credits = creditsKnown
+                ? creditMap.get(rpcNode.pubkey) || 0
+                : previousRows.get(`pnode_${rpcNode.pubkey}`)?.credits ?? 0;
             const geo = ip ? geoBatch[ip] : undefined;
-            const latency = ip ? latencyMap.get(ip) : undefined;
-            return mapRpcNodeToPNode(rpcNode, { credits }, index, geo, latency);
+            const latency = ip ? latencyMap.get(ip)?.latencyMs : undefined;
+            const stats = ip ? statsMap.get(ip) : undefined;
+            return mapRpcNodeToPNode(rpcNode, { credits }, index, geo, latency, stats);
         });
 
 
         // 3.5 Deduplicate
-        const uniqueNodes = Array.from(new Map(pnodes.map(item => [item.pubkey, item])).values());
+        const uniqueNodes = await runStage(log, 'deduplicate',
+            async () => Array.from(new Map(pnodes.map(item => [item.pubkey, item])).values()),
+            (result) => ({ inputCount: pnodes.length, outputCount: result.length }));
 
         // 4. Calculate Ranks
         uniqueNodes.sort((a, b) => (b.credits || 0) - (a.credits || 0));
@@ -312,6 +354,39 @@ export async function ingestNodeData() {
             node.creditsRank = index + 1;
         });
 
+        // 4.2 Attach vote accounts (commission, stake, votes) through the validator identity
+        await runStage(log, 'vote-accounts', () => attachVoteAccounts(uniqueNodes), (matched) => ({
+            inputCount: uniqueNodes.length,
+            outputCount: matched,
+        })).catch(voteErr => {
+            // Keep last run's staking rather than wiping it for every node
+            console.error('Vote account lookup failed, keeping previous staking:', voteErr);
+            uniqueNodes.forEach(node => {
+                node.staking = previousRows.get(node.id)?.staking;
+            });
+        });
+
+        // 4.5 Classify degraded nodes and extend each node's inline history window
+        await runStage(log, 'classify', async () => {
+            const latestVersion = getLatestVersion(uniqueNodes);
+            const now = new Date().toISOString();
+            uniqueNodes.forEach(node => {
+                const previous = previousRows.get(node.id);
+                const { status, reasons } = classifyNodeStatus(node, {
+                    healthy: latencyMap.get(node.ip)?.healthy,
+                    latestVersion,
+                    previousCredits: previous?.credits,
+                });
+                node.status = status;
+                node.statusReasons = reasons;
+                node.history = appendHistorySample(previous?.history, node);
+                Object.assign(node, trackCreditsAccrual(previous, node, now, creditsKnown));
+            });
+        }, () => ({
+            inputCount: uniqueNodes.length,
+            detail: `${uniqueNodes.filter(n => n.status === 'degraded').length} degraded`,
+        }));
+
         // 5. Prepare Payload
         const rows = uniqueNodes.map(node => ({
             id: node.id,
@@ -320,6 +395,7 @@ export async function ingestNodeData() {
             port: node.port,
             version: node.version,
             status: node.status,
+            status_reasons: node.statusReasons || [],
             uptime: node.uptime,
             last_seen: node.lastSeen,
             location: node.location,
@@ -327,6 +403,8 @@ export async function ingestNodeData() {
             performance: node.performance,
             credits: node.credits,
             credits_rank: node.creditsRank,
+            credits_delta: node.creditsDelta ?? null,
+            credits_increased_at: node.creditsIncreasedAt ?? null,
             gossip: node.gossip,
             staking: node.staking,
             history: node.history,
@@ -335,70 +413,130 @@ export async function ingestNodeData() {
 
         // 6. Upsert to Supabase
         if (rows.length > 0) {
-            const { error } = await supabase.from('pnodes').upsert(rows);
-            if (error) {
-                console.error('Supabase Upsert Error:', error);
-                throw error;
-            }
+            await runStage(log, 'upsert', async () => {
+                const { error } = await supabase.from('pnodes').upsert(rows);
+                if (error) {
+                    console.error('Supabase Upsert Error:', error);
+                    throw error;
+                }
+            }, () => ({ inputCount: rows.length, outputCount: rows.length }));
             console.log(`Ingested ${rows.length} pNodes.`);
 
+            // 6.2 Record commission changes against the previous run
+            const commissionChanges = await runStage(log, 'commission', () => recordCommissionChanges(
+                uniqueNodes,
+                new Map(uniqueNodes.map(node => [node.id, previousRows.get(node.id)?.commission]))
+            ), (changes) => ({ outputCount: changes.size })).catch(commissionErr => {
+                console.error('Commission history failed:', commissionErr);
+                return null;
+            });
+
+            // 6.5 Record per-node snapshots for time-series history
+            await runStage(log, 'snapshots', () => recordNodeSnapshots(uniqueNodes), () => ({ inputCount: uniqueNodes.length }));
+
             // 7. Aggegate and Update Network Stats
-            // we query the DB for the TOTAL state to ensure consistency between dashboard and list view.
-            const { count: dbTotalNodes, error: countError } = await supabase
-                .from('pnodes')
-                .select('*', { count: 'exact', head: true });
-
-            const { count: dbOnlineNodes, error: onlineError } = await supabase
-                .from('pnodes')
-                .select('*', { count: 'exact', head: true })
-                .eq('status', 'online');
-
-            const { count: dbOfflineNodes, error: offlineError } = await supabase
-                .from('pnodes')
-                .select('*', { count: 'exact', head: true })
-                .eq('status', 'offline');
-
-            if (countError) console.error('Error counting total nodes:', countError);
-            if (onlineError) console.error('Error counting online nodes:', onlineError);
-            if (offlineError) console.error('Error counting offline nodes:', offlineError);
-
-            const totalNodes = dbTotalNodes ?? rows.length;
-            const onlineNodes = dbOnlineNodes ?? rows.filter(r => r.status === 'online').length;
-            const offlineNodes = dbOfflineNodes ?? rows.filter(r => r.status === 'offline').length;
-
-            // Metrics from the current batch are still useful for averages of *active* nodes
-            // But ideally we'd aggregation on DB. For now, batch metrics are a good approximation for active stats.
-            const totalStorage = rows.reduce((acc, r) => acc + (r.metrics.storageCapacityGB || 0), 0) / 1000; // TB
-            const totalUsed = rows.reduce((acc, r) => acc + (r.metrics.storageUsedGB || 0), 0) / 1000; // TB
-            const avgUptime = totalNodes > 0 ? rows.reduce((acc, r) => acc + (r.uptime || 0), 0) / rows.length : 0;
-
-            // Calculate REAL average response time from measured latencies
-            const nodesWithLatency = rows.filter(r => r.metrics.responseTimeMs > 0 && r.metrics.responseTimeMs < PING_TIMEOUT_MS);
-            const avgResponseTime = nodesWithLatency.length > 0
-                ? nodesWithLatency.reduce((acc, r) => acc + r.metrics.responseTimeMs, 0) / nodesWithLatency.length
-                : 0;
-
-            // Estimate gossip messages (approximation based on online nodes and activity)
-            const estimatedGossipMessages = onlineNodes * 60 * 24; // ~1 msg/min per node over 24h
-
-            const statsRow = {
-                total_nodes: totalNodes,
-                online_nodes: onlineNodes,
-                offline_nodes: offlineNodes,
-                total_storage_tb: totalStorage,
-                total_storage_used_tb: totalUsed,
-                avg_uptime: avgUptime,
-                avg_response_time: avgResponseTime, // REAL measured latency average
-                network_health: totalNodes > 0 ? (onlineNodes / totalNodes) * 100 : 0,
-                gossip_messages_24h_count: estimatedGossipMessages, // Estimated
-                updated_at: new Date().toISOString()
-            };
-
-            const { error: statsError } = await supabase.from('network_stats').insert(statsRow);
-            if (statsError) console.error('Stats Insert Error:', statsError);
+            const networkStats = await runStage(log, 'network-stats', async () => {
+                // we query the DB for the TOTAL state to ensure consistency between dashboard and list view.
+                const { count: dbTotalNodes, error: countError } = await supabase
+                    .from('pnodes')
+                    .select('*', { count: 'exact', head: true });
+
+                const { count: dbOnlineNodes, error: onlineError } = await supabase
+                    .from('pnodes')
+                    .select('*', { count: 'exact', head: true })
+                    .eq('status', 'online');
+
+                const { count: dbOfflineNodes, error: offlineError } = await supabase
+                    .from('pnodes')
+                    .select('*', { count: 'exact', head: true })
+                    .eq('status', 'offline');
+
+                const { count: dbDegradedNodes, error: degradedError } = await supabase
+                    .from('pnodes')
+                    .select('*', { count: 'exact', head: true })
+                    .eq('status', 'degraded');
+
+                if (countError) console.error('Error counting total nodes:', countError);
+                if (onlineError) console.error('Error counting online nodes:', onlineError);
+                if (offlineError) console.error('Error counting offline nodes:', offlineError);
+                if (degradedError) console.error('Error counting degraded nodes:', degradedError);
+
+                const totalNodes = dbTotalNodes ?? rows.length;
+                const onlineNodes = dbOnlineNodes ?? rows.filter(r => r.status === 'online').length;
+                const offlineNodes = dbOfflineNodes ?? rows.filter(r => r.status === 'offline').length;
+                const degradedNodes = dbDegradedNodes ?? rows.filter(r => r.status === 'degraded').length;
+
+                // Metrics from the current batch are still useful for averages of *active* nodes
+                // But ideally we'd aggregation on DB. For now, batch metrics are a good approximation for active stats.
+                const totalStorage = rows.reduce((acc, r) => acc + (r.metrics.storageCapacityGB || 0), 0) / 1000; // TB
+                const totalUsed = rows.reduce((acc, r) => acc + (r.metrics.storageUsedGB || 0), 0) / 1000; // TB
+                const avgUptime = totalNodes > 0 ? rows.reduce((acc, r) => acc + (r.uptime || 0), 0) / rows.length : 0;
+
+                // Calculate REAL average response time from measured latencies
+                const nodesWithLatency = rows.filter(r => r.metrics.responseTimeMs > 0 && r.metrics.responseTimeMs < PING_TIMEOUT_MS);
+                const avgResponseTime = nodesWithLatency.length > 0
+                    ? nodesWithLatency.reduce((acc, r) => acc + r.metrics.responseTimeMs, 0) / nodesWithLatency.length
+                    : 0;
+
+                // Gossip messages over the last 24h, from the nodes that reported packet counters
+                const gossipMessages24h = estimateGossipMessages24h(uniqueNodes);
+
+                // Chain throughput and leader skip rate; stored as null when the RPC doesn't answer
+                const [performanceSamples, blockProduction] = await Promise.all([
+                    fetchPerformanceSamples(),
+                    fetchBlockProduction(),
+                ]);
+                const tps = performanceSamples.length > 0 ? calculateTPSFromSamples(performanceSamples) : null;
+                const skipRate = blockProduction ? calculateSkipRates(blockProduction).overall : null;
+
+                const statsRow = {
+                    total_nodes: totalNodes,
+                    online_nodes: onlineNodes,
+                    offline_nodes: offlineNodes,
+                    degraded_nodes: degradedNodes,
+                    total_storage_tb: totalStorage,
+                    total_storage_used_tb: totalUsed,
+                    avg_uptime: avgUptime,
+                    avg_response_time: avgResponseTime, // REAL measured latency average
+                    network_health: totalNodes > 0 ? ((onlineNodes + degradedNodes) / totalNodes) * 100 : 0,
+                    gossip_messages_24h_count: gossipMessages24h,
+                    tps,
+                    skip_rate: skipRate,
+                    updated_at: new Date().toISOString()
+                };
+
+                const { error: statsError } = await supabase.from('network_stats').insert(statsRow);
+                if (statsError) throw statsError;
+                return statsRow;
+            }).catch(statsErr => {
+                console.error('Stats Insert Error:', statsErr);
+                return null;
+            });
+
+            // 7.5 Record the epoch and fold this run into its aggregates
+            const epoch = await runStage(log, 'epochs', () => recordEpochObservation(uniqueNodes), (result) => ({
+                detail: !result ? 'RPC returned no epoch info'
+                    : result.boundary ? `epoch ${result.epoch} started` : `epoch ${result.epoch}`,
+            })).catch(epochErr => {
+                console.error('Epoch tracking failed:', epochErr);
+                return null;
+            });
+
+            // 7.6 Per-node credits earned in the current epoch; skipped when credits are unknown
+            if (epoch && creditsKnown) {
+                await runStage(log, 'epoch-credits', async () => {
+                    const { recordEpochCredits } = await import('./credits');
+                    return recordEpochCredits(uniqueNodes, epoch.epoch);
+                }, (count) => ({
+                    inputCount: uniqueNodes.length,
+                    outputCount: count,
+                })).catch(creditsErr => {
+                    console.error('Epoch credits tracking failed:', creditsErr);
+                });
+            }
 
             // 8. Generate notifications for significant events
-            try {
+            await runStage(log, 'notifications', async () => {
                 const offlineNodesInBatch = rows.filter(r => r.status === 'offline');
                 if (offlineNodesInBatch.length > 0 && offlineNodesInBatch.length <= 10) {
                     // Only notify if there are some offline nodes (not a mass outage which would spam)
@@ -416,18 +554,49 @@ export async function ingestNodeData() {
                         { onConflict: 'node_pubkey', ignoreDuplicates: true }
                     );
 
-                    if (error) {
-                        console.log('Notifications upsert error:', error.message);
-                    }
+                    if (error) throw error;
+                    return notifications.length;
                 }
-            } catch (notifyErr) {
+                return 0;
+            }, (sent) => ({ outputCount: sent })).catch(notifyErr => {
                 console.log('Notification generation skipped:', notifyErr);
-            }
+            });
 
+            // 8.5 Save a decentralization snapshot for trend charts
+            await runStage(log, 'decentralization', async () => {
+                const { recordDecentralizationSnapshot } = await import('./decentralization');
+                return recordDecentralizationSnapshot();
+            }, (recorded) => ({
+                detail: recorded ? 'snapshot recorded' : 'skipped, last snapshot is recent',
+            })).catch(snapshotErr => {
+                console.error('Decentralization snapshot failed:', snapshotErr);
+            });
+
+            // 9. Evaluate alert rules against this run's nodes
+            await runStage(log, 'alerts', () => evaluateAlerts(uniqueNodes, commissionChanges), (fired) => ({
+                inputCount: uniqueNodes.length,
+                outputCount: fired.length,
+                detail: `${fired.length} fired`,
+            })).catch(alertErr => {
+                console.error('Alert evaluation failed:', alertErr);
+            });
 
+            // 10. Flag network and per-node metrics far outside their baselines
+            if (ANOMALY_DETECTION_ENABLED) {
+                await runStage(log, 'anomalies', async () => {
+                    const { detectAnomalies } = await import('./anomalies');
+                    return detectAnomalies(uniqueNodes, networkStats);
+                }, (recorded) => ({
+                    inputCount: uniqueNodes.length,
+                    outputCount: recorded.length,
+                    detail: `${recorded.length} recorded`,
+                })).catch(anomalyErr => {
+                    console.error('Anomaly detection failed:', anomalyErr);
+                });
+            }
         }
 
-        return pnodes;
+        return uniqueNodes;
 
     } catch (err) {
         console.error('Ingestion Failed:', err);
@@ -436,8 +605,68 @@ export async function ingestNodeData() {
 }
 
 /**
- * Gets nodes from Supabase. 
- * If table is empty or stale by > 5 mins, triggers ingestion (blocking or bg).
+ * Run a single ingestion if no other run holds the lock, recording it in ingestion_runs.
+ * Returns the ingested nodes, or skipped=true when another run is already in progress.
+ */
+export async function runIngestion(trigger: IngestionTrigger): Promise<{ skipped: boolean; run?: IngestionRun; nodes?: PNode[] }> {
+    const runId = createIngestionRunId();
+    if (!(await acquireIngestionLock(runId))) {
+        console.log(`Ingestion (${trigger}) skipped: another run holds the lock`);
+        return { skipped: true };
+    }
+
+    const run = await startIngestionRun(runId, trigger);
+    const log = createIngestionLog();
+    let nodes: PNode[] | undefined;
+    const errors: string[] = [];
+
+    try {
+        nodes = await ingestNodeData(log);
+        if (!nodes) errors.push('pRPC returned no pods');
+    } catch (err) {
+        errors.push(describeError(err));
+    } finally {
+        await releaseIngestionLock(runId);
+    }
+
+    const finished = await finishIngestionRun(run, { nodeCount: nodes?.length, errors, log });
+    console.log(`Ingestion ${finished.status} in ${finished.durationMs}ms (${finished.nodeCount ?? 0} nodes)`);
+    return { skipped: false, run: finished, nodes };
+}
+
+/**
+ * Start an ingestion without waiting for it. Concurrent callers in the same
+ * process share one refresh; other instances are held off by the lock.
+ */
+let refreshInFlight = false;
+
+export function triggerBackgroundIngestion(trigger: IngestionTrigger = 'request'): void {
+    if (refreshInFlight) return;
+    refreshInFlight = true;
+
+    const task = async () => {
+        try {
+            await runIngestion(trigger);
+        } catch (err) {
+            console.error('Background ingestion failed:', err);
+        } finally {
+            refreshInFlight = false;
+        }
+    };
+
+    try {
+        // Keeps serverless functions alive until the refresh finishes
+        after(task);
+    } catch {
+        // Called outside a request scope
+        void task();
+    }
+}
+
+/**
+ * Gets nodes from Supabase.
+ * If the table is empty, waits for the first ingestion. If the data is older than
+ * REFRESH_INTERVAL, serves it as-is and refreshes in the background.
  */
 export async function getClusterNodes(): Promise<PNode[]> {
     try {
@@ -446,37 +675,28 @@ export async function getClusterNodes(): Promise<PNode[]> {
             .select('*')
             .order('credits', { ascending: false });
 
-        // Check if we need to ingest
-        let needsUpdate = false;
         if (error || !cachedNodes || cachedNodes.length === 0) {
-            needsUpdate = true;
-        } else {
-            const lastUpdate = new Date(cachedNodes[0].updated_at).getTime();
-            const diff = Date.now() - lastUpdate;
-            if (diff > 5 * 60 * 1000) {
-                needsUpdate = true;
-                console.log('Data stale (> 5m). Triggering update.');
-            }
+            // Nothing to serve yet, so this request has to wait for data
+            console.log('No cached nodes. Fetching fresh data...');
+            const { nodes } = await runIngestion('request');
+            return nodes || [];
         }
 
-        if (needsUpdate) {
-            // We will AWAIT ingestion to ensure user gets data. 
-            // For production, we might want to return stale data and update in background,
-            // but user requested "Real Data" and "Fresh".
-            console.log('Fetching fresh data...');
-            const freshNodes = await ingestNodeData();
-            return freshNodes || [];
+        const lastUpdate = new Date(cachedNodes[0].updated_at).getTime();
+        if (Date.now() - lastUpdate > REFRESH_INTERVAL) {
+            console.log('Data stale. Serving cached nodes and refreshing in the background.');
+            triggerBackgroundIngestion('request');
         }
 
-
         // Map rows back to PNode
-        return cachedNodes!.map(row => ({
+        return cachedNodes.map(row => ({
             id: row.id,
             pubkey: row.pubkey,
             ip: row.ip,
             port: row.port,
             version: row.version,
             status: row.status,
+            statusReasons: row.status_reasons || [],
             uptime: row.uptime,
             lastSeen: row.last_seen,
             location: row.location,
@@ -484,6 +704,8 @@ export async function getClusterNodes(): Promise<PNode[]> {
             performance: row.performance,
             credits: row.credits,
             creditsRank: row.credits_rank,
+            creditsDelta: row.credits_delta ?? undefined,
+            creditsIncreasedAt: row.credits_increased_at ?? undefined,
             gossip: row.gossip,
             staking: row.staking,
             history: row.history
@@ -0,0 +1,122 @@
+import { supabase } from '@/lib/supabase';
+import { RETENTION_RAW_DAYS, RETENTION_HOURLY_DAYS, RETENTION_DAILY_DAYS, RETENTION_EVENTS_DAYS } from './config';
+import { describeError } from './ingestion';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type RollupResolution = '1h' | '1d';
+
+interface RetentionPolicy {
+    table: string;
+    timeColumn: string;
+    rollup?: {
+        table: string;
+        function: string; // SQL function rolling complete buckets into table
+    };
+    days?: () => number; // Rows kept, for tables without rollups
+}
+
+// Raw time-series tables and where their hourly/daily rollups live, then tables that
+// are only trimmed
+export const RETENTION_POLICIES: RetentionPolicy[] = [
+    { table: 'network_stats', timeColumn: 'updated_at', rollup: { table: 'network_stats_rollups', function: 'rollup_network_stats' } },
+    { table: 'pnode_snapshots', timeColumn: 'recorded_at', rollup: { table: 'pnode_snapshot_rollups', function: 'rollup_pnode_snapshots' } },
+    // Slot time only looks back EPOCH_SLOT_TIME_WINDOW_MS; epoch_history keeps the per-epoch record
+    { table: 'epoch_observations', timeColumn: 'observed_at', days: () => rawRetentionDays() },
+    { table: 'network_anomalies', timeColumn: 'detected_at', days: () => RETENTION_EVENTS_DAYS },
+    { table: 'ingestion_runs', timeColumn: 'started_at', days: () => RETENTION_EVENTS_DAYS },
+    { table: 'webhook_deliveries', timeColumn: 'created_at', days: () => RETENTION_EVENTS_DAYS },
+    { table: 'gossip_divergence', timeColumn: 'measured_at', days: () => RETENTION_EVENTS_DAYS },
+];
+
+export interface RetentionResult {
+    table: string;
+    rolledUp: Record<RollupResolution, number>;
+    deleted: { raw: number } & Record<RollupResolution, number>;
+    error?: string;
+}
+
+/**
+ * Days of raw rows kept. Never below 1: daily rollups only cover whole days, so a
+ * shorter window would delete runs before they reach a daily bucket.
+ */
+export function rawRetentionDays(): number {
+    return RETENTION_RAW_DAYS <= 0 ? 0 : Math.max(1, RETENTION_RAW_DAYS);
+}
+
+async function rollup(rollupFunction: string, resolution: RollupResolution): Promise<number> {
+    const { data, error } = await supabase.rpc(rollupFunction, { p_resolution: resolution });
+    if (error) throw error;
+    return data ?? 0;
+}
+
+async function deleteOlderThan(
+    table: string,
+    column: string,
+    days: number,
+    resolution?: RollupResolution
+): Promise<number> {
+    if (days <= 0) return 0;
+
+    let query = supabase
+        .from(table)
+        .delete({ count: 'exact' })
+        .lt(column, new Date(Date.now() - days * DAY_MS).toISOString());
+    if (resolution) query = query.eq('resolution', resolution);
+
+    const { count, error } = await query;
+    if (error) throw error;
+    return count || 0;
+}
+
+/**
+ * Roll up new complete buckets, then drop raw rows and rollups past their retention.
+ * Raw rows are only deleted after both rollups succeeded, so no run is lost.
+ * Tables without rollups are just trimmed to their own window.
+ */
+export async function applyRetentionPolicy(policy: RetentionPolicy): Promise<RetentionResult> {
+    if (!policy.rollup) {
+        return {
+            table: policy.table,
+            rolledUp: { '1h': 0, '1d': 0 },
+            deleted: { raw: await deleteOlderThan(policy.table, policy.timeColumn, policy.days?.() ?? 0), '1h': 0, '1d': 0 },
+        };
+    }
+
+    const hourly = await rollup(policy.rollup.function, '1h');
+    const daily = await rollup(policy.rollup.function, '1d');
+
+    const raw = await deleteOlderThan(policy.table, policy.timeColumn, rawRetentionDays());
+    const hourlyDeleted = await deleteOlderThan(policy.rollup.table, 'bucket', RETENTION_HOURLY_DAYS, '1h');
+    const dailyDeleted = await deleteOlderThan(policy.rollup.table, 'bucket', RETENTION_DAILY_DAYS, '1d');
+
+    return {
+        table: policy.table,
+        rolledUp: { '1h': hourly, '1d': daily },
+        deleted: { raw, '1h': hourlyDeleted, '1d': dailyDeleted },
+    };
+}
+
+/**
+ * Apply every retention policy. A failing policy is reported in its result and
+ * doesn't stop the others.
+ */
+export async function runRetention(): Promise<RetentionResult[]> {
+    const results: RetentionResult[] = [];
+
+    for (const policy of RETENTION_POLICIES) {
+        try {
+            results.push(await applyRetentionPolicy(policy));
+        } catch (err) {
+            console.error(`Retention failed for ${policy.table}:`, err);
+            results.push({
+                table: policy.table,
+                rolledUp: { '1h': 0, '1d': 0 },
+                deleted: { raw: 0, '1h': 0, '1d': 0 },
+                error: describeError(err),
+            });
+        }
+    }
+
+    return results;
+}
@@ -1,5 +1,5 @@
 import { CACHE_DURATION, DEVNET_RPC } from './config';
-import { BlockProductionResponse, PerformanceSample } from '@/infrastructure/rpc/types';
+import { BlockProductionResponse, PerformanceSample, RpcContextResponse } from '@/infrastructure/rpc/types';
 
 interface CacheEntry<T> {
     data: T;
@@ -20,9 +20,9 @@ export function setCache<T>(key: string, data: T): void {
     cache.set(key, { data, timestamp: Date.now() });
 }
 
-export async function fetchRPC<T>(method: string, params: unknown[] = []): Promise<T | null> {
+export async function fetchRPC<T>(method: string, params: unknown[] = [], useCache = true): Promise<T | null> {
     const cacheKey = `rpc_${method}_${JSON.stringify(params)}`;
-    const cached = getCached<T>(cacheKey);
+    const cached = useCache ? getCached<T>(cacheKey) : null;
     if (cached) return cached;
 
     try {
@@ -53,7 +53,8 @@ export async function fetchRPC<T>(method: string, params: unknown[] = []): Promi
 }
 
 export async function fetchBlockProduction(): Promise<BlockProductionResponse | null> {
-    return fetchRPC<BlockProductionResponse>('getBlockProduction');
+    const result = await fetchRPC<RpcContextResponse<BlockProductionResponse>>('getBlockProduction');
+    return result?.value ?? null;
 }
 
 export async function fetchPerformanceSamples(limit: number = 10): Promise<PerformanceSample[]> {
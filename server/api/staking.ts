@@ -0,0 +1,213 @@
+import { PNode, CommissionHistory } from '@/types/pnode';
+import { supabase } from '@/lib/supabase';
+import { VoteAccount, VoteAccountsResponse, ClusterNode, ParsedVoteAccount, RpcContextResponse } from '@/infrastructure/rpc/types';
+import { fetchRPC } from './rpc';
+
+// Commission changes returned per node
+const COMMISSION_HISTORY_LIMIT = 100;
+// getMultipleAccounts accepts at most this many keys per call
+const MULTIPLE_ACCOUNTS_BATCH = 100;
+
+// Manually curated pNode pubkey -> validator identity pairs, for operators whose
+// validator runs under a different key and on a different host than the pNode.
+export const VALIDATOR_IDENTITY_REGISTRY: Record<string, string> = {};
+
+export type IdentityMatch = 'registry' | 'pubkey' | 'gossip_ip';
+
+function gossipIp(node: ClusterNode): string | null {
+    return node.gossip ? node.gossip.split(':')[0] : null;
+}
+
+/**
+ * Validator identity for each pNode. The curated registry wins, then a validator
+ * using the pNode's own pubkey, then the validator whose gossip address shares the
+ * pNode's IP (only when exactly one validator runs on that IP).
+ */
+export function resolveValidatorIdentities(
+    nodes: PNode[],
+    clusterNodes: ClusterNode[]
+): Map<string, { identity: string; match: IdentityMatch }> {
+    const identities = new Map<string, { identity: string; match: IdentityMatch }>();
+    const validatorKeys = new Set(clusterNodes.map(c => c.pubkey));
+
+    const byIp = new Map<string, string[]>();
+    clusterNodes.forEach(c => {
+        const ip = gossipIp(c);
+        if (ip) byIp.set(ip, [...(byIp.get(ip) || []), c.pubkey]);
+    });
+
+    nodes.forEach(node => {
+        const registered = VALIDATOR_IDENTITY_REGISTRY[node.pubkey];
+        if (registered) {
+            identities.set(node.id, { identity: registered, match: 'registry' });
+        } else if (validatorKeys.has(node.pubkey)) {
+            identities.set(node.id, { identity: node.pubkey, match: 'pubkey' });
+        } else {
+            const onIp = byIp.get(node.ip);
+            if (onIp && onIp.length === 1) identities.set(node.id, { identity: onIp[0], match: 'gossip_ip' });
+        }
+    });
+
+    return identities;
+}
+
+/**
+ * Withdraw authority of each vote account. Accounts that can't be read are left out.
+ */
+async function fetchWithdrawAuthorities(votePubkeys: string[]): Promise<Map<string, string>> {
+    const authorities = new Map<string, string>();
+
+    for (let i = 0; i < votePubkeys.length; i += MULTIPLE_ACCOUNTS_BATCH) {
+        const batch = votePubkeys.slice(i, i + MULTIPLE_ACCOUNTS_BATCH);
+        const result = await fetchRPC<RpcContextResponse<(ParsedVoteAccount | null)[]>>(
+            'getMultipleAccounts', [batch, { encoding: 'jsonParsed' }], false
+        );
+        result?.value.forEach((account, j) => {
+            const withdrawer = account?.data.parsed?.info.authorizedWithdrawer;
+            if (withdrawer) authorities.set(batch[j], withdrawer);
+        });
+    }
+
+    return authorities;
+}
+
+/**
+ * Fill each pNode's staking fields from the vote account of its validator identity,
+ * including the account's withdraw authority when it can be read.
+ * Nodes without a vote account keep staking undefined instead of zeros.
+ * Returns the number of nodes matched.
+ */
+export async function attachVoteAccounts(nodes: PNode[]): Promise<number> {
+    const [voteAccounts, clusterNodes] = await Promise.all([
+        fetchRPC<VoteAccountsResponse>('getVoteAccounts', [], false),
+        fetchRPC<ClusterNode[]>('getClusterNodes'),
+    ]);
+    if (!voteAccounts) throw new Error('getVoteAccounts returned no data');
+
+    const byIdentity = new Map<string, VoteAccount>();
+    [...voteAccounts.current, ...voteAccounts.delinquent].forEach(account => {
+        // One identity can own several vote accounts; the most staked one represents it
+        const existing = byIdentity.get(account.nodePubkey);
+        if (!existing || account.activatedStake > existing.activatedStake) {
+            byIdentity.set(account.nodePubkey, account);
+        }
+    });
+
+    const identities = resolveValidatorIdentities(nodes, clusterNodes || []);
+    let matched = 0;
+
+    nodes.forEach(node => {
+        const identity = identities.get(node.id)?.identity ?? node.pubkey;
+        const account = byIdentity.get(identity);
+        if (!account) {
+            node.staking = undefined;
+            return;
+        }
+
+        matched++;
+        node.staking = {
+            votePubkey: account.votePubkey,
+            identity,
+            commission: account.commission,
+            // getVoteAccounts only reports stake that is already active
+            delegatedStake: account.activatedStake,
+            activatedStake: account.activatedStake,
+            apy: 0,
+            lastVote: account.lastVote,
+            rootSlot: account.rootSlot,
+        };
+    });
+
+    const votePubkeys = Array.from(new Set(nodes.map(node => node.staking?.votePubkey).filter((key): key is string => !!key)));
+    const authorities = await fetchWithdrawAuthorities(votePubkeys);
+    nodes.forEach(node => {
+        const withdrawer = node.staking?.votePubkey && authorities.get(node.staking.votePubkey);
+        if (node.staking && withdrawer) node.staking.withdrawAuthority = withdrawer;
+    });
+
+    return matched;
+}
+
+/**
+ * Last recorded commission of each node that has commission history, for nodes whose
+ * previous pnodes row had no vote account (it was lost for a while, or never found).
+ */
+async function getLastRecordedCommission(nodeIds: string[]): Promise<Map<string, number>> {
+    const last = new Map<string, number>();
+    if (nodeIds.length === 0) return last;
+
+    const { data, error } = await supabase
+        .from('commission_history')
+        .select('node_id, commission')
+        .in('node_id', nodeIds)
+        .order('recorded_at', { ascending: false });
+
+    if (error) throw error;
+    (data || []).forEach((row: any) => {
+        if (!last.has(row.node_id)) last.set(row.node_id, row.commission);
+    });
+    return last;
+}
+
+/**
+ * Insert a commission_history row for each node whose commission differs from the
+ * previous ingestion, or from its last recorded commission when the previous run had
+ * no vote account for it. Only a node that never had a vote account counts as new.
+ * Returns the change per node; a new node's first commission is not a change.
+ */
+export async function recordCommissionChanges(
+    nodes: PNode[],
+    previousCommission: Map<string, number | undefined>
+): Promise<Map<string, number>> {
+    const recordedAt = new Date().toISOString();
+    const staked = nodes.filter(node => node.staking);
+    const recorded = await getLastRecordedCommission(staked
+        .filter(node => previousCommission.get(node.id) === undefined)
+        .map(node => node.id));
+    const previousOf = (node: PNode) => previousCommission.get(node.id) ?? recorded.get(node.id);
+
+    const rows = staked
+        .filter(node => node.staking!.commission !== previousOf(node))
+        .map(node => ({
+            node_id: node.id,
+            vote_pubkey: node.staking!.votePubkey ?? null,
+            commission: node.staking!.commission,
+            previous_commission: previousOf(node) ?? null,
+            recorded_at: recordedAt,
+        }));
+
+    const changes = new Map<string, number>();
+    if (rows.length === 0) return changes;
+
+    const { error } = await supabase.from('commission_history').insert(rows);
+    if (error) throw error;
+
+    rows.forEach(row => {
+        if (row.previous_commission !== null) changes.set(row.node_id, row.commission - row.previous_commission);
+    });
+    return changes;
+}
+
+export async function getCommissionHistory(nodeId: string): Promise<CommissionHistory> {
+    const { data, error } = await supabase
+        .from('commission_history')
+        .select('*')
+        .eq('node_id', nodeId)
+        .order('recorded_at', { ascending: false })
+        .limit(COMMISSION_HISTORY_LIMIT);
+
+    if (error || !data) {
+        if (error) console.error('Error fetching commission history:', error);
+        return { nodeId, history: [] };
+    }
+
+    return {
+        nodeId,
+        history: data.map((row: any) => ({
+            timestamp: row.recorded_at,
+            commission: row.commission,
+            // The first recorded commission is a starting point, not a change
+            change: row.previous_commission === null ? 0 : row.commission - row.previous_commission,
+        })),
+    };
+}
@@ -0,0 +1,96 @@
+import { PNode } from '@/types/pnode';
+import { DEGRADED_LATENCY_MS, DEGRADED_VERSION_LAG, DEGRADED_CREDITS_DROP, DEGRADED_HEALTH_PROBE } from './config';
+
+export interface DegradedThresholds {
+    maxLatencyMs: number; // Measured latency above this is degraded
+    maxVersionLag: number; // Minor versions behind the newest version seen in the network
+    maxCreditsDrop: number; // Credits may fall by at most this much between ingestions
+    checkHealthProbe: boolean; // Treat a failed /health probe on a gossip-fresh node as degraded
+}
+
+export const DEFAULT_DEGRADED_THRESHOLDS: DegradedThresholds = {
+    maxLatencyMs: DEGRADED_LATENCY_MS,
+    maxVersionLag: DEGRADED_VERSION_LAG,
+    maxCreditsDrop: DEGRADED_CREDITS_DROP,
+    checkHealthProbe: DEGRADED_HEALTH_PROBE,
+};
+
+export interface StatusContext {
+    healthy?: boolean; // Result of the /health probe; undefined when the node was not probed
+    latestVersion?: string; // Newest version seen in this ingestion
+    previousCredits?: number; // Credits recorded by the previous ingestion
+}
+
+function parseVersion(version: string): number[] | null {
+    const match = version.replace(/^v/, '').match(/^(\d+)\.(\d+)(?:\.(\d+))?/);
+    if (!match) return null;
+    return [Number(match[1]), Number(match[2]), Number(match[3] || 0)];
+}
+
+/**
+ * Compare two version strings; returns a positive number when a > b.
+ */
+export function compareVersions(a: string, b: string): number {
+    const vA = parseVersion(a) || [0, 0, 0];
+    const vB = parseVersion(b) || [0, 0, 0];
+    for (let i = 0; i < 3; i++) {
+        if (vA[i] !== vB[i]) return vA[i] - vB[i];
+    }
+    return 0;
+}
+
+/**
+ * Newest parseable version among the given nodes.
+ */
+export function getLatestVersion(nodes: PNode[]): string | undefined {
+    return nodes
+        .map(n => n.version)
+        .filter(v => parseVersion(v) !== null)
+        .sort((a, b) => compareVersions(b, a))[0];
+}
+
+function isVersionStale(version: string, latestVersion: string, maxLag: number): boolean {
+    const current = parseVersion(version);
+    const latest = parseVersion(latestVersion);
+    if (!current || !latest) return false;
+    // A major version behind is always stale
+    if (current[0] !== latest[0]) return current[0] < latest[0];
+    return latest[1] - current[1] >= Math.max(1, maxLag);
+}
+
+/**
+ * Classify a gossip-fresh node as online or degraded and explain why.
+ * Offline nodes are returned unchanged with no reasons.
+ */
+export function classifyNodeStatus(
+    node: PNode,
+    context: StatusContext,
+    thresholds: DegradedThresholds = DEFAULT_DEGRADED_THRESHOLDS
+): { status: PNode['status']; reasons: string[] } {
+    if (node.status === 'offline') return { status: 'offline', reasons: [] };
+
+    const reasons: string[] = [];
+
+    if (node.metrics.responseTimeMs > thresholds.maxLatencyMs) {
+        reasons.push(`Latency ${Math.round(node.metrics.responseTimeMs)}ms exceeds ${thresholds.maxLatencyMs}ms`);
+    }
+
+    if (thresholds.checkHealthProbe && context.healthy === false) {
+        reasons.push('Health probe failed while gossip is fresh');
+    }
+
+    if (context.latestVersion && isVersionStale(node.version, context.latestVersion, thresholds.maxVersionLag)) {
+        reasons.push(`Running ${node.version}, latest is ${context.latestVersion}`);
+    }
+
+    if (node.metrics.storageCapacityGB === 0) {
+        reasons.push('No storage committed');
+    }
+
+    if (context.previousCredits !== undefined
+        && context.previousCredits - (node.credits || 0) > thresholds.maxCreditsDrop) {
+        reasons.push(`Credits fell from ${context.previousCredits} to ${node.credits || 0}`);
+    }
+
+    return { status: reasons.length > 0 ? 'degraded' : 'online', reasons };
+}
@@ -0,0 +1,160 @@
+import { HistoryPeriod } from '@/types/pnode';
+import { supabase } from '@/lib/supabase';
+import { RETENTION_HOURLY_DAYS } from './config';
+import { rawRetentionDays } from './retention';
+
+const PERIOD_MS: Record<Exclude<HistoryPeriod, 'custom'>, number> = {
+    '1h': 60 * 60 * 1000,
+    '6h': 6 * 60 * 60 * 1000,
+    '24h': 24 * 60 * 60 * 1000,
+    '7d': 7 * 24 * 60 * 60 * 1000,
+    '30d': 30 * 24 * 60 * 60 * 1000,
+    '90d': 90 * 24 * 60 * 60 * 1000,
+};
+
+export type BucketSize = '5m' | '1h' | '1d';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Finest to coarsest; '5m' is served from raw rows, the others from rollups
+const BUCKET_ORDER: BucketSize[] = ['5m', '1h', '1d'];
+
+export const BUCKET_SECONDS: Record<BucketSize, number> = {
+    '5m': 5 * 60,
+    '1h': 60 * 60,
+    '1d': 24 * 60 * 60,
+};
+
+// network_stats columns aggregated by the network_stats_buckets SQL function
+export type NetworkStatsMetric =
+    | 'network_health'
+    | 'avg_response_time'
+    | 'avg_uptime'
+    | 'total_nodes'
+    | 'online_nodes'
+    | 'total_storage_tb'
+    | 'total_storage_used_tb'
+    | 'gossip_messages_24h_count'
+    | 'tps'
+    | 'skip_rate';
+
+export interface TimeRange {
+    from: Date;
+    to: Date;
+    period: HistoryPeriod;
+}
+
+export interface BucketStats {
+    avg: number;
+    min: number;
+    max: number;
+    p95: number;
+}
+
+export interface NetworkStatsBucket {
+    timestamp: string; // bucket start
+    samples: number;
+    metrics: Partial<Record<NetworkStatsMetric, BucketStats>>;
+}
+
+/**
+ * Time range for a history query: an explicit from/to (ISO strings) when both are
+ * valid, otherwise the preset period ending now. Unknown periods fall back to 24h.
+ */
+export function resolveTimeRange(period?: string | null, from?: string | null, to?: string | null): TimeRange {
+    if (from && to) {
+        const fromDate = new Date(from);
+        const toDate = new Date(to);
+        if (!isNaN(fromDate.getTime()) && !isNaN(toDate.getTime()) && fromDate < toDate) {
+            return { from: fromDate, to: toDate, period: 'custom' };
+        }
+    }
+
+    const preset = (period && period in PERIOD_MS ? period : '24h') as Exclude<HistoryPeriod, 'custom'>;
+    const now = new Date();
+    return { from: new Date(now.getTime() - PERIOD_MS[preset]), to: now, period: preset };
+}
+
+/**
+ * Bucket width giving at most a few hundred points: 5 minutes up to 6h (about one
+ * ingestion run each), hourly up to 7d, daily beyond.
+ */
+export function bucketSizeFor(range: TimeRange): BucketSize {
+    const spanMs = range.to.getTime() - range.from.getTime();
+    if (spanMs <= PERIOD_MS['6h']) return '5m';
+    if (spanMs <= PERIOD_MS['7d']) return '1h';
+    return '1d';
+}
+
+/**
+ * Resolution a history query is served at: the requested bucket, coarsened when the
+ * range reaches back past the retention of finer tiers ('5m' means raw rows).
+ */
+export function pickHistoryTier(range: TimeRange, bucket: BucketSize): BucketSize {
+    const ageDays = (Date.now() - range.from.getTime()) / DAY_MS;
+    const covers = (days: number) => days <= 0 || ageDays <= days;
+    const finest: BucketSize = covers(rawRetentionDays()) ? '5m' : covers(RETENTION_HOURLY_DAYS) ? '1h' : '1d';
+
+    return BUCKET_ORDER[Math.max(BUCKET_ORDER.indexOf(finest), BUCKET_ORDER.indexOf(bucket))];
+}
+
+async function getRawNetworkStatsBuckets(range: TimeRange, bucket: BucketSize): Promise<NetworkStatsBucket[]> {
+    const { data, error } = await supabase.rpc('network_stats_buckets', {
+        p_from: range.from.toISOString(),
+        p_to: range.to.toISOString(),
+        p_bucket_seconds: BUCKET_SECONDS[bucket],
+    });
+
+    if (error || !data) {
+        if (error) console.error('Error fetching network stats buckets:', error);
+        return [];
+    }
+
+    return (data as any[]).map(row => ({
+        timestamp: new Date(row.bucket).toISOString(),
+        samples: row.samples,
+        metrics: row.stats || {},
+    }));
+}
+
+async function getNetworkStatsRollups(range: TimeRange, resolution: BucketSize): Promise<NetworkStatsBucket[]> {
+    const { data, error } = await supabase
+        .from('network_stats_rollups')
+        .select('bucket, samples, stats')
+        .eq('resolution', resolution)
+        .gte('bucket', range.from.toISOString())
+        .lt('bucket', range.to.toISOString())
+        .order('bucket', { ascending: true });
+
+    if (error || !data) {
+        if (error) console.error('Error fetching network stats rollups:', error);
+        return [];
+    }
+
+    return data.map((row: any) => ({
+        timestamp: new Date(row.bucket).toISOString(),
+        samples: row.samples,
+        metrics: row.stats || {},
+    }));
+}
+
+/**
+ * network_stats aggregated per time bucket over the whole range, oldest first.
+ * Read from the rollup tier picked by pickHistoryTier, with buckets not rolled up yet
+ * (the one in progress, or all of them before retention first ran) aggregated from
+ * raw rows. Buckets without any ingestion run are left out rather than zero-filled.
+ */
+export async function getNetworkStatsBuckets(
+    range: TimeRange,
+    bucket: BucketSize = bucketSizeFor(range)
+): Promise<NetworkStatsBucket[]> {
+    const tier = pickHistoryTier(range, bucket);
+    if (tier === '5m') return getRawNetworkStatsBuckets(range, bucket);
+
+    const rolledUp = await getNetworkStatsRollups(range, tier);
+    const last = rolledUp[rolledUp.length - 1];
+    const tailFrom = last ? new Date(new Date(last.timestamp).getTime() + BUCKET_SECONDS[tier] * 1000) : range.from;
+    if (tailFrom >= range.to) return rolledUp;
+
+    const tail = await getRawNetworkStatsBuckets({ ...range, from: tailFrom }, tier);
+    return [...rolledUp, ...tail];
+}
@@ -1,3 +1,6 @@
+import { PNode } from '@/types/pnode';
+import { BlockProductionResponse, PerformanceSample } from '@/infrastructure/rpc/types';
+
 export function hashPubkey(pubkey: string): number {
     return pubkey.split('').reduce((acc, char, i) => acc + char.charCodeAt(0) * (i + 1), 0);
 }
@@ -7,6 +10,62 @@ export function generateDeterministicIP(pubkey: string): string {
     return `${(hash % 200) + 50}.${(hash * 7) % 256}.${(hash * 13) % 256}.${(hash * 19) % 256}`;
 }
 
+/**
+ * Gossip messages sent and received over the last 24h, summed across nodes.
+ * Packet counters are cumulative since each node started, so nodes up for longer
+ * than a day are scaled down to a 24h share. Nodes without counters are skipped.
+ */
+export function estimateGossipMessages24h(nodes: PNode[]): number {
+    const SECONDS_PER_DAY = 24 * 60 * 60;
+    return Math.round(nodes.reduce((acc, n) => {
+        const { messagesReceived, messagesSent } = n.gossip;
+        if (messagesReceived == null || messagesSent == null || !n.uptime) return acc;
+        return acc + (messagesReceived + messagesSent) * Math.min(1, SECONDS_PER_DAY / n.uptime);
+    }, 0));
+}
+
+/**
+ * Shannon entropy in bits of the distribution given by `weights` (counts or amounts).
+ */
+export function shannonEntropy(weights: number[]): number {
+    const positive = weights.filter(w => w > 0);
+    const total = positive.reduce((a, b) => a + b, 0);
+    if (total === 0) return 0;
+    return -positive.reduce((acc, w) => acc + (w / total) * Math.log2(w / total), 0);
+}
+
+/**
+ * Transactions per second across getPerformanceSamples results.
+ * Longer samples weigh more, so this is total transactions over total sampled time.
+ */
+export function calculateTPSFromSamples(samples: PerformanceSample[]): number {
+    const valid = samples.filter(s => s.samplePeriodSecs > 0);
+    const seconds = valid.reduce((acc, s) => acc + s.samplePeriodSecs, 0);
+    const transactions = valid.reduce((acc, s) => acc + s.numTransactions, 0);
+    return seconds > 0 ? transactions / seconds : 0;
+}
+
+/**
+ * Skip rate in percent from getBlockProduction: leader slots without a produced block.
+ * Identities that had no leader slots in the range are left out of byValidator.
+ */
+export function calculateSkipRates(production: BlockProductionResponse): { overall: number; byValidator: Map<string, number> } {
+    const byValidator = new Map<string, number>();
+    let leaderSlots = 0;
+    let blocksProduced = 0;
+
+    Object.entries(production.byIdentity).forEach(([identity, [slots, blocks]]) => {
+        leaderSlots += slots;
+        blocksProduced += blocks;
+        if (slots > 0) byValidator.set(identity, ((slots - blocks) / slots) * 100);
+    });
+
+    return {
+        overall: leaderSlots > 0 ? ((leaderSlots - blocksProduced) / leaderSlots) * 100 : 0,
+        byValidator,
+    };
+}
+
 export function getTier(score: number): 'excellent' | 'good' | 'fair' | 'poor' {
     if (score >= 80) return 'excellent';
     if (score >= 60) return 'good';
@@ -0,0 +1,419 @@
+import { lookup } from 'node:dns/promises';
+import type { LookupAddress } from 'node:dns';
+import { request as httpRequest } from 'node:http';
+import { request as httpsRequest } from 'node:https';
+import { isIP, type LookupFunction } from 'node:net';
+import { Alert, AlertChannel, AlertConfig } from '@/types/pnode';
+import { supabase } from '@/lib/supabase';
+import { TELEGRAM_API } from './config';
+
+// Delivery constants
+const DELIVERY_TIMEOUT_MS = 5000; // Per attempt
+const MAX_DELIVERY_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 500; // Doubled on every retry
+const MAX_RETRY_DELAY_MS = 10000; // Cap for Retry-After headers
+const MAX_DELIVERIES_PER_RUN = 25; // Avoid blocking ingestion on a large alert burst
+
+export type WebhookChannelType = Exclude<AlertChannel['type'], 'in_app'>;
+
+export interface WebhookTarget {
+    type: WebhookChannelType;
+    webhookUrl: string;
+    chatId?: string;
+}
+
+export interface WebhookDeliveryResult {
+    success: boolean;
+    attempts: number;
+    statusCode?: number;
+    error?: string;
+    durationMs: number;
+}
+
+export interface DeliveryOptions {
+    maxAttempts?: number;
+    /** Skip the public-address check; only for local stand-ins in tests */
+    allowPrivateTargets?: boolean;
+}
+
+const SEVERITY_COLORS: Record<Alert['severity'], number> = {
+    critical: 0xff0000,
+    warning: 0xffaa00,
+    info: 0x00ff00,
+};
+
+const SEVERITY_EMOJI: Record<Alert['severity'], string> = {
+    critical: '🔴',
+    warning: '🟠',
+    info: '🟢',
+};
+
+// --- Payload formatters ---
+
+export function formatDiscordPayload(alert: Alert) {
+    return {
+        content: `**${alert.title}**`,
+        embeds: [{
+            title: alert.title,
+            description: alert.message,
+            color: SEVERITY_COLORS[alert.severity],
+            fields: [
+                { name: 'Severity', value: alert.severity, inline: true },
+                { name: 'Value', value: String(alert.value), inline: true },
+                { name: 'Threshold', value: String(alert.threshold), inline: true },
+                ...(alert.nodePubkey ? [{ name: 'Node', value: alert.nodePubkey, inline: false }] : []),
+            ],
+            timestamp: alert.timestamp,
+        }],
+    };
+}
+
+export function formatSlackPayload(alert: Alert) {
+    return {
+        // Fallback for notifications and clients that don't render blocks
+        text: `${SEVERITY_EMOJI[alert.severity]} ${alert.title}: ${alert.message}`,
+        blocks: [
+            {
+                type: 'header',
+                text: { type: 'plain_text', text: `${SEVERITY_EMOJI[alert.severity]} ${alert.title}` },
+            },
+            {
+                type: 'section',
+                text: { type: 'mrkdwn', text: alert.message },
+            },
+            {
+                type: 'section',
+                fields: [
+                    { type: 'mrkdwn', text: `*Severity:*\n${alert.severity}` },
+                    { type: 'mrkdwn', text: `*Value:*\n${alert.value}` },
+                    { type: 'mrkdwn', text: `*Threshold:*\n${alert.threshold}` },
+                    ...(alert.nodePubkey ? [{ type: 'mrkdwn', text: `*Node:*\n\`${alert.nodePubkey}\`` }] : []),
+                ],
+            },
+            {
+                type: 'context',
+                elements: [{ type: 'mrkdwn', text: `Xandeum pNode Analytics • ${alert.timestamp}` }],
+            },
+        ],
+    };
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+export function formatTelegramPayload(alert: Alert, chatId: string) {
+    const lines = [
+        `${SEVERITY_EMOJI[alert.severity]} <b>${escapeHtml(alert.title)}</b>`,
+        escapeHtml(alert.message),
+        '',
+        `<b>Severity:</b> ${alert.severity}`,
+        `<b>Value:</b> ${alert.value} (threshold: ${alert.threshold})`,
+    ];
+    if (alert.nodePubkey) lines.push(`<b>Node:</b> <code>${escapeHtml(alert.nodePubkey)}</code>`);
+
+    return {
+        chat_id: chatId,
+        text: lines.join('\n'),
+        parse_mode: 'HTML',
+        disable_web_page_preview: true,
+    };
+}
+
+export function formatGenericPayload(alert: Alert) {
+    return {
+        event: 'alert.fired',
+        alert,
+    };
+}
+
+/**
+ * Resolve the URL to POST to. Telegram targets carry a bot token
+ * (or a full bot URL) in webhookUrl and are sent to the Bot API.
+ */
+function resolveWebhookUrl(target: WebhookTarget): string {
+    if (target.type !== 'telegram') return target.webhookUrl;
+
+    const base = /^https?:\/\//.test(target.webhookUrl)
+        ? target.webhookUrl.replace(/\/+$/, '')
+        : `${TELEGRAM_API}/bot${target.webhookUrl}`;
+    return `${base}/sendMessage`;
+}
+
+export function buildWebhookRequest(target: WebhookTarget, alert: Alert): { url: string; body: unknown } {
+    const url = resolveWebhookUrl(target);
+    switch (target.type) {
+        case 'discord':
+            return { url, body: formatDiscordPayload(alert) };
+        case 'slack':
+            return { url, body: formatSlackPayload(alert) };
+        case 'telegram':
+            if (!target.chatId) throw new Error('Telegram delivery requires a chatId');
+            return { url, body: formatTelegramPayload(alert, target.chatId) };
+        case 'webhook':
+        default:
+            return { url, body: formatGenericPayload(alert) };
+    }
+}
+
+// --- Target checks ---
+
+function isPrivateIPv4(ip: string): boolean {
+    const [a, b] = ip.split('.').map(Number);
+    return a === 0 || a === 10 || a === 127 || a >= 224 // this network, private, loopback, multicast/reserved
+        || (a === 100 && b >= 64 && b < 128) // carrier-grade NAT
+        || (a === 169 && b === 254) // link-local
+        || (a === 172 && b >= 16 && b < 32)
+        || (a === 192 && b === 168)
+        || (a === 198 && (b === 18 || b === 19)); // benchmarking
+}
+
+function isPrivateAddress(ip: string): boolean {
+    if (isIP(ip) === 4) return isPrivateIPv4(ip);
+
+    const lower = ip.toLowerCase();
+    const mapped = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (mapped) return isPrivateIPv4(mapped[1]);
+    // URL parsing rewrites v4-mapped addresses to hex, e.g. ::ffff:7f00:1
+    const mappedHex = lower.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+    if (mappedHex) {
+        const [high, low] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)];
+        return isPrivateIPv4(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+    }
+    return lower === '::' || lower === '::1'
+        || /^f[cd]/.test(lower) // unique local
+        || /^fe[89ab]/.test(lower) // link-local
+        || lower.startsWith('ff'); // multicast
+}
+
+/**
+ * Resolve a webhook URL's host and reject private, loopback or link-local addresses, so a
+ * user-supplied URL can't be used to reach the server's own network. Returns the checked
+ * addresses for the request to connect to, or null for Bot API URLs built from TELEGRAM_API,
+ * which are configured by the operator and not checked.
+ */
+async function resolvePublicAddresses(rawUrl: string): Promise<LookupAddress[] | null> {
+    const url = new URL(rawUrl);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        throw new Error('Webhook URL must be http(s)');
+    }
+    if (url.href.startsWith(`${TELEGRAM_API}/`)) return null;
+
+    const host = url.hostname.replace(/^\[|\]$/g, '');
+    const addresses = isIP(host) ? [{ address: host, family: isIP(host) }] : await lookup(host, { all: true });
+    if (addresses.length === 0 || addresses.some(a => isPrivateAddress(a.address))) {
+        throw new Error(`Webhook host ${url.hostname} resolves to a private or local address`);
+    }
+    return addresses;
+}
+
+export async function assertPublicWebhookTarget(target: WebhookTarget): Promise<void> {
+    await resolvePublicAddresses(resolveWebhookUrl(target));
+}
+
+// --- Delivery ---
+
+function isRetryableStatus(status: number): boolean {
+    return status === 429 || status >= 500;
+}
+
+function getRetryDelay(attempt: number, retryAfterHeader: string | null): number {
+    const retryAfterSec = retryAfterHeader ? parseFloat(retryAfterHeader) : NaN;
+    if (!isNaN(retryAfterSec) && retryAfterSec >= 0) {
+        return Math.min(retryAfterSec * 1000, MAX_RETRY_DELAY_MS);
+    }
+    return RETRY_BASE_DELAY_MS * Math.pow(2, attempt - 1);
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Answer the socket's DNS lookup with addresses that were already checked, so the host
+ * can't be re-resolved to a different (private) address between the check and the connect.
+ */
+function pinnedLookup(addresses: LookupAddress[]): LookupFunction {
+    return (_hostname, options, callback) => {
+        if (options.all) callback(null, addresses);
+        else callback(null, addresses[0].address, addresses[0].family);
+    };
+}
+
+/**
+ * POST JSON with node's http client, which never follows redirects.
+ */
+function postJson(
+    url: string,
+    body: unknown,
+    addresses: LookupAddress[] | null,
+    signal: AbortSignal
+): Promise<{ status: number; retryAfter: string | null }> {
+    const payload = JSON.stringify(body);
+    const send = url.startsWith('https:') ? httpsRequest : httpRequest;
+
+    return new Promise((resolve, reject) => {
+        const req = send(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(payload) },
+            signal,
+            ...(addresses && { lookup: pinnedLookup(addresses) }),
+        }, response => {
+            response.resume(); // The body isn't used
+            const retryAfter = response.headers['retry-after'];
+            resolve({ status: response.statusCode ?? 0, retryAfter: retryAfter ?? null });
+        });
+        req.on('error', reject);
+        req.end(payload);
+    });
+}
+
+/**
+ * POST an alert to a webhook target, retrying network errors, 429 and 5xx
+ * responses with exponential backoff, up to maxAttempts tries in total.
+ * The target must resolve to a public address and is connected to at that address;
+ * redirects are not followed and count as a failed delivery.
+ */
+export async function deliverWebhook(
+    target: WebhookTarget,
+    alert: Alert,
+    { maxAttempts = MAX_DELIVERY_ATTEMPTS, allowPrivateTargets = false }: DeliveryOptions = {}
+): Promise<WebhookDeliveryResult> {
+    const startTime = Date.now();
+    let attempts = 0;
+    let statusCode: number | undefined;
+    let lastError: string | undefined;
+
+    let request: { url: string; body: unknown };
+    let addresses: LookupAddress[] | null = null;
+    try {
+        request = buildWebhookRequest(target, alert);
+        if (!allowPrivateTargets) addresses = await resolvePublicAddresses(request.url);
+    } catch (error) {
+        return { success: false, attempts: 0, error: String(error instanceof Error ? error.message : error), durationMs: Date.now() - startTime };
+    }
+
+    while (attempts < maxAttempts) {
+        attempts++;
+        let retryAfter: string | null = null;
+
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), DELIVERY_TIMEOUT_MS);
+
+        try {
+            const response = await postJson(request.url, request.body, addresses, controller.signal);
+            statusCode = response.status;
+
+            if (response.status >= 200 && response.status < 300) {
+                return { success: true, attempts, statusCode, durationMs: Date.now() - startTime };
+            }
+
+            if (response.status >= 300 && response.status < 400) {
+                lastError = `HTTP ${response.status} (redirects are not followed)`;
+                break;
+            }
+
+            lastError = `HTTP ${response.status}`;
+            if (!isRetryableStatus(response.status)) break;
+            retryAfter = response.retryAfter;
+        } catch (error) {
+            lastError = controller.signal.aborted
+                ? 'Request timed out'
+                : String(error instanceof Error ? error.message : error);
+        } finally {
+            clearTimeout(timeoutId);
+        }
+
+        if (attempts < maxAttempts) {
+            await sleep(getRetryDelay(attempts, retryAfter));
+        }
+    }
+
+    return { success: false, attempts, statusCode, error: lastError, durationMs: Date.now() - startTime };
+}
+
+/**
+ * Host of the target URL; full webhook URLs and bot tokens are secrets and are never logged.
+ */
+function describeTarget(target: WebhookTarget): string {
+    try {
+        return new URL(resolveWebhookUrl(target)).host;
+    } catch {
+        return 'invalid-url';
+    }
+}
+
+async function logDelivery(target: WebhookTarget, alert: Alert, result: WebhookDeliveryResult): Promise<void> {
+    const { error } = await supabase.from('webhook_deliveries').insert({
+        channel_type: target.type,
+        target_host: describeTarget(target),
+        alert_id: alert.id,
+        config_id: alert.configId,
+        success: result.success,
+        status_code: result.statusCode ?? null,
+        attempts: result.attempts,
+        error: result.error ?? null,
+        duration_ms: result.durationMs,
+        created_at: new Date().toISOString(),
+    });
+    if (error) console.log('Webhook delivery log error:', error.message);
+}
+
+/**
+ * Deliver and log a single alert to a single target. Targets rejected by the
+ * address check are logged as failed deliveries with no attempts.
+ */
+export async function deliverAndLog(
+    target: WebhookTarget,
+    alert: Alert,
+    options: DeliveryOptions = {}
+): Promise<WebhookDeliveryResult> {
+    const result = await deliverWebhook(target, alert, options);
+    await logDelivery(target, alert, result);
+    if (!result.success) {
+        console.error(`Webhook delivery failed (${target.type}, ${result.attempts} attempts):`, result.error);
+    }
+    return result;
+}
+
+/**
+ * Send fired alerts to every enabled external channel of their rule.
+ */
+export async function dispatchAlertWebhooks(alerts: Alert[], configs: AlertConfig[]): Promise<void> {
+    const configMap = new Map(configs.map(c => [c.id, c]));
+    const deliveries: { target: WebhookTarget; alert: Alert }[] = [];
+
+    alerts.forEach(alert => {
+        const config = configMap.get(alert.configId);
+        config?.channels.forEach(channel => {
+            if (!channel.enabled || channel.type === 'in_app' || !channel.config?.webhookUrl) return;
+            deliveries.push({
+                alert,
+                target: { type: channel.type, webhookUrl: channel.config.webhookUrl, chatId: channel.config.chatId },
+            });
+        });
+    });
+
+    if (deliveries.length > MAX_DELIVERIES_PER_RUN) {
+        console.warn(`Skipping ${deliveries.length - MAX_DELIVERIES_PER_RUN} webhook deliveries (limit ${MAX_DELIVERIES_PER_RUN} per run)`);
+    }
+
+    // Sequential on purpose: providers rate-limit per webhook
+    for (const { target, alert } of deliveries.slice(0, MAX_DELIVERIES_PER_RUN)) {
+        await deliverAndLog(target, alert);
+    }
+}
+
+export function createTestAlert(): Alert {
+    return {
+        id: `alert_test_${Date.now()}`,
+        configId: 'webhook_test',
+        title: 'Test Alert',
+        message: 'This is a test notification from Xandeum pNode Analytics.',
+        severity: 'info',
+        value: 0,
+        threshold: 0,
+        timestamp: new Date().toISOString(),
+        acknowledged: false,
+        status: 'firing',
+        occurrences: 1,
+    };
+}
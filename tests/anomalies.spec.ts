@@ -0,0 +1,69 @@
+import { test, expect } from '@playwright/test';
+import { median, robustSpread, scoreAnomaly, scoreDeviation } from '../lib/anomalies';
+
+// Pure scoring; no server needed for these
+
+const options = { threshold: 3.5 };
+const noisy = [100, 102, 98, 101, 99, 100, 103, 97, 100, 101];
+
+test('Median and MAD ignore a single outlier', () => {
+    const values = [10, 11, 9, 10, 1000];
+
+    expect(median(values)).toBe(10);
+    // |deviations| = 0, 1, 1, 0, 990 -> MAD 1, scaled to a standard deviation
+    expect(robustSpread(values)).toBeCloseTo(1.4826, 6);
+});
+
+test('A value within the noise is not anomalous', () => {
+    const score = scoreAnomaly(101, { recent: noisy }, options)!;
+
+    expect(score.method).toBe('mad');
+    expect(score.anomalous).toBeFalsy();
+});
+
+test('A sudden drop is flagged as a drop', () => {
+    const score = scoreAnomaly(60, { recent: noisy }, options)!;
+
+    expect(score.anomalous).toBeTruthy();
+    expect(score.direction).toBe('drop');
+    expect(score.score).toBeLessThan(-3.5);
+});
+
+test('Direction filter ignores deviations the other way', () => {
+    expect(scoreAnomaly(160, { recent: noisy }, { ...options, direction: 'drop' })!.anomalous).toBeFalsy();
+    expect(scoreAnomaly(160, { recent: noisy }, { ...options, direction: 'spike' })!.anomalous).toBeTruthy();
+});
+
+test('Flat history falls back to the z-score and floors the spread', () => {
+    const flat = Array(10).fill(200);
+
+    expect(scoreAnomaly(200, { recent: flat }, options)!.method).toBe('zscore');
+    // 1% of the baseline is the smallest spread, so 3% off isn't 3.5 deviations
+    expect(scoreAnomaly(194, { recent: flat }, options)!.anomalous).toBeFalsy();
+    expect(scoreAnomaly(180, { recent: flat }, options)!.anomalous).toBeTruthy();
+});
+
+test('Seasonal baseline replaces the rolling median once enough seasons are known', () => {
+    const score = scoreAnomaly(150, { recent: noisy, samePhase: [150, 148, 152] }, options)!;
+
+    expect(score.method).toBe('seasonal');
+    expect(score.baseline).toBe(150);
+    expect(score.anomalous).toBeFalsy();
+});
+
+test('Seasonal spread comes from the same-phase values', () => {
+    // Same hour on previous days varies far more than the last few runs
+    const samePhase = [150, 120, 180, 135, 165];
+
+    expect(scoreAnomaly(175, { recent: noisy, samePhase }, options)!.anomalous).toBeFalsy();
+    expect(scoreAnomaly(175, { recent: noisy }, options)!.anomalous).toBeTruthy();
+});
+
+test('Small relative changes are ignored', () => {
+    expect(scoreDeviation(105, 100, 1, 'mad', { ...options, minRelativeChange: 0.1 }).anomalous).toBeFalsy();
+    expect(scoreDeviation(115, 100, 1, 'mad', { ...options, minRelativeChange: 0.1 }).anomalous).toBeTruthy();
+});
+
+test('Too little history is not scored', () => {
+    expect(scoreAnomaly(0, { recent: [1, 2, 3] }, options)).toBeNull();
+});
@@ -0,0 +1,61 @@
+import { test, expect } from '@playwright/test';
+import { fitLinear, fitExponential, fitHoltWinters, fitForecastModels, selectBestModel, findCrossing, fillGaps } from '../lib/forecasting';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Pure model fitting; no server needed for these
+
+const series = (values: number[]) => values.map((value, i) => ({ t: i * DAY_MS, value }));
+
+test('Linear fit extrapolates a straight line exactly', () => {
+    const model = fitLinear(series(Array.from({ length: 30 }, (_, i) => 10 + 3 * i)))!;
+    const prediction = model.predict(59 * DAY_MS);
+
+    expect(model.rmse).toBeCloseTo(0, 6);
+    expect(prediction.value).toBeCloseTo(10 + 3 * 59, 6);
+    expect(prediction.lower).toBeLessThanOrEqual(prediction.value);
+    expect(prediction.upper).toBeGreaterThanOrEqual(prediction.value);
+});
+
+test('Exponential fit needs positive values', () => {
+    expect(fitExponential(series([4, 0, 6, 8]))).toBeNull();
+});
+
+test('Best model for compounding growth is exponential', () => {
+    const points = series(Array.from({ length: 60 }, (_, i) => 50 * Math.pow(1.02, i)));
+    const best = selectBestModel(fitForecastModels(points, DAY_MS, 7))!;
+
+    expect(best.model).toBe('exponential');
+    expect(best.predict(90 * DAY_MS).value).toBeCloseTo(50 * Math.pow(1.02, 90), 3);
+});
+
+test('Models are compared on the same held-out points', () => {
+    const models = fitForecastModels(series(Array.from({ length: 28 }, (_, i) => 100 + 2 * i)), DAY_MS, 7);
+
+    expect(models.map(m => m.model)).toEqual(['linear', 'exponential', 'holt-winters']);
+    models.forEach(m => expect(m.backtest).toBeTruthy());
+    expect(selectBestModel(models)!.model).toBe('linear');
+});
+
+test('Missing buckets are interpolated onto the step grid', () => {
+    const filled = fillGaps([{ t: 0, value: 10 }, { t: 3 * DAY_MS, value: 40 }, { t: 4 * DAY_MS, value: 50 }], DAY_MS);
+
+    expect(filled.map(p => p.t)).toEqual([0, 1, 2, 3, 4].map(d => d * DAY_MS));
+    expect(filled.map(p => p.value)).toEqual([10, 20, 30, 40, 50]);
+});
+
+test('Holt-Winters interval widens with the horizon', () => {
+    const points = series(Array.from({ length: 42 }, (_, i) => 100 + i + (i % 7 === 0 ? 5 : 0)));
+    const model = fitHoltWinters(points, DAY_MS, 7)!;
+    const near = model.predict(42 * DAY_MS);
+    const far = model.predict(120 * DAY_MS);
+
+    expect(far.upper - far.lower).toBeGreaterThan(near.upper - near.lower);
+});
+
+test('Crossing is the first step reaching the target, or null past the horizon', () => {
+    const model = fitLinear(series([0, 1, 2, 3, 4]))!;
+
+    expect(findCrossing(model, 10, 4 * DAY_MS, DAY_MS, 30 * DAY_MS)).toBe(10 * DAY_MS);
+    expect(findCrossing(model, 1000, 4 * DAY_MS, DAY_MS, 30 * DAY_MS)).toBeNull();
+});
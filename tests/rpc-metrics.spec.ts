@@ -0,0 +1,47 @@
+import { test, expect } from '@playwright/test';
+import { calculateTPSFromSamples, calculateSkipRates } from '../server/api/utils';
+import { fetchBlockProduction } from '../server/api/rpc';
+import type { BlockProductionResponse, RpcContextResponse } from '../infrastructure/rpc/types';
+import performanceSamples from './fixtures/rpc/getPerformanceSamples.json';
+import blockProduction from './fixtures/rpc/getBlockProduction.json';
+
+// Recorded devnet JSON-RPC responses; no server needed for these
+
+const recordedBlockProduction = (blockProduction.result as unknown as RpcContextResponse<BlockProductionResponse>).value;
+
+test('TPS is total transactions over total sampled seconds', () => {
+    // 3120 + 2985 + 3255 transactions over three 60s samples; the empty sample is ignored
+    expect(calculateTPSFromSamples(performanceSamples.result)).toBeCloseTo(52, 6);
+});
+
+test('TPS is 0 without samples', () => {
+    expect(calculateTPSFromSamples([])).toBe(0);
+});
+
+test('Skip rate is skipped leader slots over all leader slots', () => {
+    const { overall } = calculateSkipRates(recordedBlockProduction);
+    // (400 - 392) + (200 - 150) skipped out of 600 leader slots
+    expect(overall).toBeCloseTo((58 / 600) * 100, 6);
+});
+
+test('Skip rate per identity leaves out identities without leader slots', () => {
+    const { byValidator } = calculateSkipRates(recordedBlockProduction);
+
+    expect(byValidator.get('8Yfu1gRjX7Q2sPNy5kRbBV4pZ9nvYWnJ8LJyVNwQGTmV')).toBeCloseTo(2, 6);
+    expect(byValidator.get('3sGpHwjfnYcaPc3hwqKHBHN4sJTwCBDHtmqgU1J5j1xA')).toBeCloseTo(25, 6);
+    expect(byValidator.has('DeV1nbQ4QCDgHLU7hWbgQMDQLrGiTnsGeqGQvCbsr9yM')).toBeFalsy();
+});
+
+test('Block production is unwrapped from the RPC context response', async () => {
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = async () => new Response(JSON.stringify(blockProduction));
+
+    try {
+        const value = await fetchBlockProduction();
+
+        expect(value).toEqual(recordedBlockProduction);
+        expect(calculateSkipRates(value!).overall).toBeCloseTo((58 / 600) * 100, 6);
+    } finally {
+        globalThis.fetch = originalFetch;
+    }
+});
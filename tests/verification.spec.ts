@@ -32,3 +32,12 @@ test('Ingest API', async ({ request }) => {
     const json = await response.json();
     expect(json.success).toBeTruthy();
 });
+
+test('Test sends require admin auth', async ({ request }) => {
+    const response = await request.post('http://localhost:5000/api/webhooks/test', {
+        data: { type: 'webhook', webhookUrl: 'https://93.184.216.34/hook' },
+    });
+
+    // 401 from proxy.ts, or 403 when ADMIN_PASSWORD isn't configured at all
+    expect([401, 403]).toContain(response.status());
+});
@@ -0,0 +1,125 @@
+import { test, expect } from '@playwright/test';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { assertPublicWebhookTarget, createTestAlert, deliverWebhook } from '../server/api/webhooks';
+
+// Local HTTP stand-in for Discord/Slack/Telegram/generic webhook endpoints.
+// Responds with the queued status codes in order, then 200.
+function startStandIn(statuses: number[] = [], headers: Record<string, string> = {}) {
+    const received: { path: string; body: any }[] = [];
+    const server = http.createServer((req, res) => {
+        let raw = '';
+        req.on('data', chunk => { raw += chunk; });
+        req.on('end', () => {
+            received.push({ path: req.url || '', body: JSON.parse(raw || '{}') });
+            res.statusCode = statuses.shift() ?? 200;
+            Object.entries(headers).forEach(([name, value]) => res.setHeader(name, value));
+            res.end('{}');
+        });
+    });
+
+    return new Promise<{ url: string; received: typeof received; close: () => void }>(resolve => {
+        server.listen(0, '127.0.0.1', () => {
+            const { port } = server.address() as AddressInfo;
+            resolve({ url: `http://127.0.0.1:${port}`, received, close: () => server.close() });
+        });
+    });
+}
+
+// Delivery is exercised directly with the address check off: the stand-in listens on loopback
+const local = { allowPrivateTargets: true };
+
+test('Discord webhook sends embeds', async () => {
+    const standIn = await startStandIn();
+    const result = await deliverWebhook({ type: 'discord', webhookUrl: `${standIn.url}/discord` }, createTestAlert(), local);
+    standIn.close();
+
+    expect(result.success).toBeTruthy();
+    expect(standIn.received[0].body.embeds[0].title).toBe('Test Alert');
+});
+
+test('Slack webhook sends blocks', async () => {
+    const standIn = await startStandIn();
+    const result = await deliverWebhook({ type: 'slack', webhookUrl: `${standIn.url}/slack` }, createTestAlert(), local);
+    standIn.close();
+
+    expect(result.success).toBeTruthy();
+    expect(standIn.received[0].body.blocks.length).toBeGreaterThan(0);
+    expect(standIn.received[0].body.embeds).toBeUndefined();
+});
+
+test('Telegram webhook calls sendMessage with chat_id', async () => {
+    const standIn = await startStandIn();
+    const result = await deliverWebhook(
+        { type: 'telegram', webhookUrl: `${standIn.url}/bot123:ABC`, chatId: '789' },
+        createTestAlert(),
+        local
+    );
+    standIn.close();
+
+    expect(result.success).toBeTruthy();
+    expect(standIn.received[0].path).toBe('/bot123:ABC/sendMessage');
+    expect(standIn.received[0].body.chat_id).toBe('789');
+});
+
+test('Webhook delivery retries server errors', async () => {
+    const standIn = await startStandIn([503]);
+    const result = await deliverWebhook({ type: 'webhook', webhookUrl: `${standIn.url}/generic` }, createTestAlert(), local);
+    standIn.close();
+
+    expect(result.success).toBeTruthy();
+    expect(result.attempts).toBe(2);
+    expect(standIn.received[1].body.event).toBe('alert.fired');
+});
+
+test('Webhook delivery does not retry client errors', async () => {
+    const standIn = await startStandIn([404]);
+    const result = await deliverWebhook({ type: 'webhook', webhookUrl: `${standIn.url}/missing` }, createTestAlert(), local);
+    standIn.close();
+
+    expect(result.success).toBeFalsy();
+    expect(result.attempts).toBe(1);
+});
+
+test('Single-attempt delivery does not retry server errors', async () => {
+    const standIn = await startStandIn([503]);
+    const result = await deliverWebhook({ type: 'webhook', webhookUrl: `${standIn.url}/generic` }, createTestAlert(), { ...local, maxAttempts: 1 });
+    standIn.close();
+
+    expect(result.success).toBeFalsy();
+    expect(result.attempts).toBe(1);
+    expect(standIn.received.length).toBe(1);
+});
+
+test('Webhook delivery does not follow redirects', async () => {
+    const standIn = await startStandIn([302], { Location: 'http://169.254.169.254/latest/meta-data/' });
+    const result = await deliverWebhook({ type: 'webhook', webhookUrl: `${standIn.url}/moved` }, createTestAlert(), local);
+    standIn.close();
+
+    expect(result.success).toBeFalsy();
+    expect(result.statusCode).toBe(302);
+    expect(result.attempts).toBe(1);
+    expect(standIn.received.length).toBe(1);
+});
+
+test('Webhook delivery refuses private targets', async () => {
+    const standIn = await startStandIn();
+    const result = await deliverWebhook({ type: 'webhook', webhookUrl: `${standIn.url}/hook` }, createTestAlert());
+    standIn.close();
+
+    expect(result.success).toBeFalsy();
+    expect(result.attempts).toBe(0);
+    expect(standIn.received.length).toBe(0);
+});
+
+test('Private, loopback and link-local webhook hosts are rejected', async () => {
+    for (const host of ['127.0.0.1', '10.1.2.3', '192.168.0.10', '169.254.169.254', '100.64.0.1', '[::1]', '[fd00::1]', '[::ffff:127.0.0.1]']) {
+        await expect(assertPublicWebhookTarget({ type: 'webhook', webhookUrl: `http://${host}/hook` })).rejects.toThrow();
+    }
+    await expect(assertPublicWebhookTarget({ type: 'webhook', webhookUrl: 'ftp://93.184.216.34/hook' })).rejects.toThrow();
+});
+
+test('Public hosts and Telegram bot tokens are allowed', async () => {
+    await expect(assertPublicWebhookTarget({ type: 'webhook', webhookUrl: 'https://93.184.216.34/hook' })).resolves.toBeUndefined();
+    await expect(assertPublicWebhookTarget({ type: 'telegram', webhookUrl: '123:ABC', chatId: '789' })).resolves.toBeUndefined();
+});
@@ -5,6 +5,7 @@ export interface PNode {
   port: number;
   version: string;
   status: 'online' | 'offline' | 'degraded';
+  statusReasons?: string[]; // Why the node was classified as degraded
   uptime: number;
   lastSeen: string;
   location?: {
@@ -17,9 +18,9 @@ export interface PNode {
     asn?: string;
   };
   metrics: {
-    cpuPercent: number;
-    memoryPercent: number;
-    storageUsedGB: number;
+    cpuPercent: number | null; // null when the node's pRPC stats couldn't be read
+    memoryPercent: number | null;
+    storageUsedGB: number | null; // null when gossip didn't report storage usage
     storageCapacityGB: number;
     responseTimeMs: number;
   };
@@ -28,11 +29,14 @@ export interface PNode {
     tier: 'excellent' | 'good' | 'fair' | 'poor';
   };
   gossip: {
-    peersConnected: number;
-    messagesReceived: number;
-    messagesSent: number;
+    peersConnected: number | null; // null until measured
+    messagesReceived: number | null; // Packets received since the node process started
+    messagesSent: number | null;
   };
   staking?: {
+    votePubkey?: string;
+    identity?: string; // Validator identity the vote account belongs to
+    withdrawAuthority?: string; // Wallet that controls the vote account, i.e. the operator's wallet
     commission: number;
     delegatedStake: number;
     activatedStake: number;
@@ -47,6 +51,8 @@ export interface PNode {
   };
   credits?: number; // Pod credits score (reliability metric from Pod Credits API)
   creditsRank?: number; // Ranking by credits among all pNodes
+  creditsDelta?: number; // Change since the previous ingestion
+  creditsIncreasedAt?: string; // Last ingestion at which credits went up
 }
 
 export interface NetworkStats {
@@ -63,6 +69,88 @@ export interface NetworkStats {
   lastUpdated: string;
 }
 
+export interface IngestionStage {
+  name: string;
+  status: 'success' | 'fallback' | 'failed';
+  startedAt: string;
+  durationMs: number;
+  inputCount?: number; // Items the stage received
+  outputCount?: number; // Items the stage produced; the difference was dropped
+  detail?: string;
+  error?: string;
+}
+
+export interface IngestionRun {
+  id: string;
+  trigger: 'request' | 'cron' | 'manual';
+  status: 'running' | 'success' | 'failed';
+  startedAt: string;
+  finishedAt?: string;
+  durationMs?: number;
+  nodeCount?: number;
+  seedIp?: string; // pRPC node the pod list was read from
+  stages: IngestionStage[];
+  errors: string[];
+}
+
+export interface SeedHealth {
+  ip: string;
+  source: 'default' | 'configured';
+  attempts: number;
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  successRate: number; // 0-100, 0 when never tried
+  avgLatencyMs: number | null; // Over successful calls
+  lastError?: string;
+  lastSuccessAt?: string;
+  lastFailureAt?: string;
+}
+
+export interface NodeHistoryPoint {
+  timestamp: string;
+  status: 'online' | 'offline' | 'degraded';
+  uptime: number;
+  latencyMs: number;
+  score: number;
+  credits: number;
+  creditsDelta: number;
+  storageUsedGB: number;
+}
+
+export interface NodeHistory {
+  nodeId: string;
+  period: '24h' | '7d' | '30d';
+  dataPoints: NodeHistoryPoint[];
+}
+
+export interface EpochCredits {
+  epoch: number;
+  startCredits: number;
+  endCredits: number;
+  creditsEarned: number;
+  samples: number;
+}
+
+export interface CreditsAccrual {
+  nodeId: string;
+  period: '24h' | '7d' | '30d';
+  credits: number;
+  earningRatePerHour: number; // Over the period's recorded samples
+  stalled: boolean;
+  creditsIncreasedAt?: string;
+  deltas: { timestamp: string; credits: number; delta: number }[];
+  epochs: EpochCredits[]; // Newest first
+}
+
+export interface CreditsStall {
+  nodeId: string;
+  pubkey: string;
+  credits: number;
+  creditsIncreasedAt: string;
+  stalledForMs: number;
+}
+
 export interface PodInfo {
   podId: string;
   pnodeId: string;
@@ -83,24 +171,81 @@ export interface NetworkEvent {
   nodeId?: string;
 }
 
+// Preset windows ending now, or 'custom' for an explicit from/to
+export type HistoryPeriod = '1h' | '6h' | '24h' | '7d' | '30d' | '90d' | 'custom';
+
+export interface HistoryRange {
+  from: Date;
+  to: Date;
+  preset: HistoryPeriod;
+}
+
 export interface PerformanceHistory {
-  timestamp: string;
+  timestamp: string; // start of the time bucket
+  samples: number; // ingestion runs in the bucket
   avgResponseTime: number;
+  responseTimeP95: number; // p95 / max of the per-run averages within the bucket
+  responseTimeMax: number;
   totalNodes: number;
   onlineNodes: number;
   storageUsedTB: number;
   gossipMessages: number;
+  tps: number | null; // null before TPS was recorded or when the RPC didn't answer
+  skipRate: number | null;
+  anomalies: Anomaly[]; // network-wide anomalies detected within the bucket
+}
+
+export type AnomalyMethod = 'zscore' | 'mad' | 'seasonal';
+export type AnomalyDirection = 'spike' | 'drop';
+
+// network_stats columns, plus per-run credits accrual, checked network-wide
+export type NetworkAnomalyMetric =
+  | 'online_nodes'
+  | 'total_nodes'
+  | 'avg_response_time'
+  | 'total_storage_tb'
+  | 'total_storage_used_tb'
+  | 'credits_accrual';
+// pnode_snapshots columns checked per node
+export type NodeAnomalyMetric = 'latency_ms' | 'credits_delta';
+
+export interface Anomaly {
+  id: string;
+  metric: NetworkAnomalyMetric | NodeAnomalyMetric;
+  nodeId?: string; // unset for network-wide anomalies
+  method: AnomalyMethod;
+  direction: AnomalyDirection;
+  value: number;
+  baseline: number;
+  score: number; // deviation from the baseline in robust standard deviations
+  detectedAt: string;
 }
 
 export interface GossipHealth {
-  totalPeers: number;
-  avgPeersPerNode: number;
-  messageRate: number;
+  totalPeers: number | null; // null when no node reported a peer count
+  avgPeersPerNode: number | null;
+  messageRate: number | null; // null when no node reported packet counters
   networkLatency: number;
   partitions: number;
   healthScore: number;
 }
 
+export interface GossipDivergenceNode {
+  pubkey: string;
+  seenBy: string[]; // Seed IPs whose pod list contains this node
+  missingFrom: string[];
+  lastSeenSkewSec: number; // Spread of last_seen_timestamp across the seeds that see it
+}
+
+export interface GossipDivergence {
+  measuredAt: string;
+  seeds: string[]; // Seeds whose views were compared
+  partitions: number; // View groups beyond the first; 0 when every seed agrees
+  partialCount: number; // Nodes only some seeds see
+  maxSkewSec: number;
+  nodes: GossipDivergenceNode[]; // Partially seen or skewed nodes, worst first
+}
+
 export interface StorageDistribution {
   region: string;
   nodeCount: number;
@@ -118,6 +263,7 @@ export interface EpochInfo {
   totalSlots: number;
   blocksProduced: number;
   skipRate: number;
+  slotTimeMs: number; // Measured from recorded slots, drives the start/end estimates
 }
 
 export interface EpochHistory {
@@ -126,8 +272,10 @@ export interface EpochHistory {
   endTime: string;
   blocksProduced: number;
   skipRate: number;
-  activeNodes: number;
-  totalRewards: number;
+  activeNodes: number; // Average online or degraded pNodes across the epoch's ingestions
+  creditsEarned: number;
+  avgLatencyMs: number | null; // Null when no ingestion in the epoch measured latency
+  partial: boolean; // Tracking started mid-epoch or missed the previous boundary
 }
 
 export interface StakingStats {
@@ -143,12 +291,26 @@ export interface StakingStats {
   }[];
 }
 
+export interface ConcentrationIndex {
+  dimension: 'country' | 'asn' | 'datacenter' | 'credits';
+  entities: number; // Distinct entities with a known value
+  coefficients: { threshold: number; value: number }[]; // Entities needed to exceed each threshold %
+  hhi: number; // Herfindahl–Hirschman index, 0-10000
+  entropy: number; // Shannon entropy in bits
+  normalizedEntropy: number; // entropy / log2(entities), 0-1
+  topSharePercent: number;
+}
+
 export interface DecentralizationMetrics {
-  nakamotoCoefficient: number;
+  nakamotoCoefficient: number; // 51% coefficient of the weakest dimension
   giniCoefficient: number;
   countryDistribution: { country: string; count: number; percentage: number }[];
   datacenterDistribution: { datacenter: string; count: number; percentage: number }[];
   asnDistribution: { asn: string; provider: string; count: number; percentage: number }[];
+  dimensions: ConcentrationIndex[];
+  weakestDimension: ConcentrationIndex['dimension'] | null;
+  grouping: EntityGrouping; // Whether credits stakeholders are pubkeys or resolved operator entities
+  entityCount: number;
 }
 
 export interface VersionInfo {
@@ -161,7 +323,9 @@ export interface VersionInfo {
 
 export interface HealthScoreBreakdown {
   overall: number;
+  profile: string; // Scoring profile the weights came from
   factors: {
+    id: keyof HealthScoreWeights;
     name: string;
     weight: number;
     score: number;
@@ -187,10 +351,13 @@ export interface SearchFilters {
 }
 
 export interface TrendData {
-  period: '24h' | '7d' | '30d';
+  period: HistoryPeriod;
   dataPoints: {
     timestamp: string;
-    value: number;
+    value: number; // bucket average
+    min?: number;
+    max?: number;
+    p95?: number;
   }[];
   change: number;
   changePercent: number;
@@ -198,12 +365,55 @@ export interface TrendData {
 
 export interface XScore {
   overall: number;
+  storageThroughput: number;
+  dataAvailabilityLatency: number;
+  uptime: number;
+  gossipHealth: number | null; // null when no peer count is known; left out of overall
+  peerConnectivity: number | null;
+  grade: 'S' | 'A' | 'B' | 'C' | 'D' | 'F';
+  profile?: string;
+  inputs?: XScoreInputs; // Raw averages the components were derived from, for re-scoring previews
+}
+
+export interface XScoreInputs {
+  storageUtilizationPercent: number;
+  responseTimeMs: number;
+  performanceScore: number;
+  peersConnected: number | null; // null until measured
+}
+
+export interface HealthScoreWeights {
+  onlineRate: number;
+  performance: number;
+  storage: number;
+  versionConsistency: number;
+  responseTime: number;
+}
+
+export interface XScoreWeights {
   storageThroughput: number;
   dataAvailabilityLatency: number;
   uptime: number;
   gossipHealth: number;
   peerConnectivity: number;
-  grade: 'S' | 'A' | 'B' | 'C' | 'D' | 'F';
+}
+
+export interface XScoreMultipliers {
+  storageUtilization: number; // Storage throughput points per % of capacity used
+  latencyPenaltyPerMs: number; // Availability points lost per ms of response time
+  gossipPerPeer: number;
+  connectivityPerPeer: number;
+}
+
+export interface ScoringProfile {
+  id: string;
+  name: string;
+  description?: string;
+  builtIn: boolean; // Built-in profiles are defined in code and read-only
+  healthWeights: HealthScoreWeights;
+  xScoreWeights: XScoreWeights;
+  xScoreMultipliers: XScoreMultipliers;
+  updatedAt?: string;
 }
 
 export interface GossipEvent {
@@ -225,12 +435,14 @@ export interface AlertConfig {
   id: string;
   name: string;
   enabled: boolean;
-  type: 'uptime' | 'latency' | 'score' | 'storage' | 'commission' | 'gossip';
+  type: 'uptime' | 'latency' | 'score' | 'storage' | 'commission' | 'gossip' | 'credits_stall';
   condition: 'above' | 'below' | 'equals';
   threshold: number;
   severity: 'info' | 'warning' | 'critical';
   channels: AlertChannel[];
   nodeIds?: string[];
+  cooldownMinutes?: number; // Re-notify interval while an alert stays open
+  consecutiveBreaches?: number; // Ingestions in a row needed to fire (and to resolve)
   createdAt: string;
   lastTriggered?: string;
 }
@@ -257,22 +469,56 @@ export interface Alert {
   threshold: number;
   timestamp: string;
   acknowledged: boolean;
+  status: 'firing' | 'resolved';
+  resolvedAt?: string;
+  durationMs?: number;
+  lastNotifiedAt?: string;
+  occurrences: number;
 }
 
 export interface ExabyteProjection {
   currentCapacityTB: number;
   projectedCapacityTB: number;
+  projectedCapacityRange: { lower: number; upper: number }; // 95% interval
   nodeCount: number;
   projectedNodeCount: number;
-  timeframe: '1m' | '3m' | '6m' | '1y' | '2y';
-  growthRate: number;
+  timeframe: ForecastTimeframe;
+  growthRate: number; // annual, implied by the capacity model
+  model: ForecastModel | null; // null when there isn't enough history to fit one
+  fitError: number | null; // capacity model RMSE in TB, on held-out points when there are enough
   milestones: {
     capacity: number;
-    estimatedDate: string;
+    estimatedDate: string | null; // null when the forecast doesn't reach it within the search horizon
     nodeCountRequired: number;
   }[];
 }
 
+export type ForecastTimeframe = '1m' | '3m' | '6m' | '1y' | '2y';
+export type ForecastModel = 'linear' | 'exponential' | 'holt-winters';
+export type ForecastMetric = 'nodes' | 'storage_committed' | 'storage_used';
+
+export interface ForecastPoint {
+  timestamp: string;
+  value: number;
+  lower: number; // 95% interval
+  upper: number;
+}
+
+export interface ModelForecast {
+  model: ForecastModel;
+  rmse: number; // on the held-out latest points; in-sample when the history is too short to hold any out
+  mape: number | null;
+  points: ForecastPoint[];
+}
+
+export interface MetricForecast {
+  metric: ForecastMetric;
+  current: number | null;
+  history: { timestamp: string; value: number }[];
+  bestModel: ForecastModel | null;
+  models: ModelForecast[]; // empty when history is too short to fit
+}
+
 export interface CommissionHistory {
   nodeId: string;
   history: {
@@ -307,21 +553,39 @@ export interface PeerRanking {
 export interface SuperminorityInfo {
   count: number;
   threshold: number;
+  grouping: EntityGrouping;
   nodes: {
-    pubkey: string;
+    pubkey: string; // Node pubkey, or the entity id when grouped by entity
+    label?: string; // Entity name when grouped by entity
+    nodeCount?: number;
     stake: number;
     percentage: number;
   }[];
   riskLevel: 'low' | 'medium' | 'high';
 }
 
+export type EntityGrouping = 'pubkey' | 'entity';
+
+export interface NodeEntity {
+  id: string;
+  label: string;
+  pubkeys: string[];
+  credits: number;
+  // Signals that merged these nodes; empty for a standalone node
+  reasons: ('subnet' | 'asn_city' | 'wallet' | 'registry')[];
+}
+
 export interface CensorshipResistanceScore {
   overall: number;
   factors: {
-    geographicDiversity: number;
-    asnDiversity: number;
-    jurisdictionDiversity: number;
-    clientDiversity: number;
-  };
+    id: 'geographic' | 'jurisdiction' | 'provider' | 'cloud_independence' | 'client';
+    name: string;
+    weight: number;
+    score: number;
+    weightedScore: number;
+    description: string; // Why the factor scored what it did
+  }[];
+  blocs: { id: string; name: string; description: string; nodeCount: number; percentage: number }[]; // Blocs overlap
+  hosting: { kind: 'major_cloud' | 'vps' | 'bare_metal' | 'independent'; label: string; nodeCount: number; percentage: number }[];
   grade: 'A' | 'B' | 'C' | 'D' | 'F';
 }